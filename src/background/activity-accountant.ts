@@ -0,0 +1,151 @@
+/**
+ * Activity time accounting for vibe-kanban tracker
+ * Splits each tab's time into segments of one state (active, idle, unfocused, locked) on
+ * one route. A segment ends when the tab's state or route changes or the tab closes, so
+ * each task gets the time spent on it. Its time so far is also reported at each checkpoint
+ * (once per export interval), so a long session is counted while it lasts, while its whole
+ * duration is only reported when it ends. Open segments are persisted with a
+ * heartbeat every few seconds and at each checkpoint; the time after the last checkpoint
+ * is recovered on the next startup, up to the last heartbeat.
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import type { ActivityState } from './state-machine';
+
+/**
+ * Time of one tab in one state on one route, not yet reported
+ */
+export interface ActivitySegment {
+  state: ActivityState;
+  route: ParsedRoute;
+  // Start of the segment
+  start: number;
+  // Start of the time not reported yet: the start, or the last checkpoint
+  since: number;
+}
+
+/**
+ * Persisted open segments, keyed by tab ID
+ */
+export type ActivitySegments = Record<number, ActivitySegment>;
+
+/**
+ * Check whether two routes attribute time to the same place
+ */
+function isSameRoute(a: ParsedRoute, b: ParsedRoute): boolean {
+  return (
+    a.instance === b.instance &&
+    a.type === b.type &&
+    a.projectId === b.projectId &&
+    a.taskId === b.taskId &&
+    a.workspaceId === b.workspaceId &&
+    (a.view ?? null) === (b.view ?? null)
+  );
+}
+
+export class ActivityAccountant {
+  private segments = new Map<number, ActivitySegment>();
+  private onSegment?: (state: ActivityState, durationMs: number, route: ParsedRoute) => void;
+  private onSegmentEnd?: (state: ActivityState, durationMs: number, route: ParsedRoute) => void;
+
+  /**
+   * Set a tab's current state and route, ending its segment if either changed
+   * Time without a route (before the tab reported one) is not counted.
+   */
+  update(tabId: number, state: ActivityState, route: ParsedRoute | null): void {
+    const segment = this.segments.get(tabId);
+    if (segment && route && segment.state === state && isSameRoute(segment.route, route)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.close(tabId, now);
+    if (route) {
+      this.segments.set(tabId, { state, route, start: now, since: now });
+    }
+  }
+
+  /**
+   * End a closed tab's segment
+   */
+  removeTab(tabId: number): void {
+    this.close(tabId, Date.now());
+  }
+
+  /**
+   * Report the time of all open segments since the last checkpoint, keeping them open
+   */
+  checkpoint(): void {
+    const now = Date.now();
+    for (const segment of this.segments.values()) {
+      this.report(segment, now);
+      segment.since = now;
+    }
+  }
+
+  /**
+   * Report the open segments of a previous run (crash or browser restart) up to its last heartbeat
+   */
+  recover(segments: ActivitySegments, until: number): void {
+    for (const segment of Object.values(segments)) {
+      this.end(segment, until);
+    }
+  }
+
+  /**
+   * Get the open segments for persistence
+   */
+  getSegments(): ActivitySegments {
+    const segments: ActivitySegments = {};
+    for (const [tabId, segment] of this.segments) {
+      segments[tabId] = { ...segment };
+    }
+    return segments;
+  }
+
+  /**
+   * Set callback for reported segment time
+   */
+  setOnSegment(callback: (state: ActivityState, durationMs: number, route: ParsedRoute) => void): void {
+    this.onSegment = callback;
+  }
+
+  /**
+   * Set callback for the whole duration of ended segments
+   */
+  setOnSegmentEnd(callback: (state: ActivityState, durationMs: number, route: ParsedRoute) => void): void {
+    this.onSegmentEnd = callback;
+  }
+
+  /**
+   * End and remove a tab's open segment
+   */
+  private close(tabId: number, until: number): void {
+    const segment = this.segments.get(tabId);
+    if (segment) {
+      this.end(segment, until);
+      this.segments.delete(tabId);
+    }
+  }
+
+  /**
+   * Report a segment's remaining time and its whole duration
+   */
+  private end(segment: ActivitySegment, until: number): void {
+    this.report(segment, until);
+    const durationMs = until - segment.start;
+    if (durationMs > 0) {
+      this.onSegmentEnd?.(segment.state, durationMs, segment.route);
+    }
+  }
+
+  /**
+   * Report a segment's time up to a point in time (nothing if none has passed)
+   */
+  private report(segment: ActivitySegment, until: number): void {
+    const durationMs = until - segment.since;
+    if (durationMs > 0) {
+      this.onSegment?.(segment.state, durationMs, segment.route);
+    }
+  }
+}
@@ -3,7 +3,14 @@
  * Fetches project and task data from the vibe-kanban API
  */
 
-import { VIBE_KANBAN_API_URL } from '../shared/constants';
+import { RequestScheduler } from './request-scheduler';
+import { EventStream, type EventStreamState, type ServerSentEvent } from './event-stream';
+import { validateRecords, describeValidationIssue, type ValidationIssue } from './api-validation';
+import {
+  VIBE_KANBAN_API_URL,
+  DEFAULT_API_CONCURRENCY,
+  DEFAULT_API_TIMEOUT_MS,
+} from '../shared/constants';
 
 /**
  * Project from the vibe-kanban API
@@ -28,8 +35,14 @@ export interface Task {
   last_attempt_failed: boolean;
 }
 
+/**
+ * Run status of a task attempt's coding agent
+ */
+export type TaskAttemptStatus = 'running' | 'completed' | 'failed' | 'killed';
+
 /**
  * Task attempt from the vibe-kanban API
+ * Executor and outcome fields are missing on older servers
  */
 export interface TaskAttempt {
   id: string;
@@ -37,173 +50,403 @@ export interface TaskAttempt {
   branch: string;
   created_at: string;
   updated_at: string;
+  // Coding agent that ran the attempt (e.g. "CLAUDE_CODE")
+  executor?: string | null;
+  status?: TaskAttemptStatus;
+  // When the coding agent finished (null while running)
+  completed_at?: string | null;
 }
 
 /**
- * API response for /api/projects endpoint
- * Actual format: {success: true, data: [...], error_data: null, message: null}
+ * API endpoints queried by the client (used as the `endpoint` metric attribute)
  */
-interface ProjectsResponse {
-  success: boolean;
-  data: Project[];
-  error_data: unknown;
-  message: string | null;
+export type ApiEndpoint = 'projects' | 'tasks' | 'task_attempts';
+
+/**
+ * Why an API request failed:
+ * - http_error: the server answered with a non-2xx status
+ * - network_error: the request never got a response (vibe-kanban not running, connection refused)
+ * - api_error: the server answered with success: false
+ * - parse_error: the body was not JSON or did not contain a data array
+ */
+export type ApiErrorKind = 'http_error' | 'network_error' | 'api_error' | 'parse_error';
+
+/**
+ * Failed API request
+ */
+export interface ApiError {
+  kind: ApiErrorKind;
+  endpoint: ApiEndpoint;
+  // HTTP status, when the server answered
+  status?: number;
+  message: string;
 }
 
 /**
- * API response for /api/tasks endpoint
- * Actual format: {success: true, data: [...], error_data: null, message: null}
+ * Result of an API request, discriminated by kind
  */
-interface TasksResponse {
-  success: boolean;
-  data: Task[];
-  error_data: unknown;
-  message: string | null;
+export type ApiResult<T> = { kind: 'ok'; data: T } | ApiError;
+
+/**
+ * Change to a project's task list received from the task event stream
+ * - reset: the full list (sent when the stream opens)
+ * - upsert: a task was created or updated
+ * - remove: a task was deleted
+ */
+export type TaskStreamChange =
+  | { kind: 'reset'; tasks: Task[] }
+  | { kind: 'upsert'; task: Task }
+  | { kind: 'remove'; taskId: string };
+
+export interface TaskStreamHandlers {
+  onChanges: (changes: TaskStreamChange[]) => void;
+  onStateChange?: (state: EventStreamState) => void;
 }
 
 /**
- * API response for /api/task-attempts endpoint
+ * JSON Patch operation (RFC 6902) as sent in json_patch stream events
+ */
+interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * API response envelope shared by /api/projects, /api/tasks and /api/task-attempts
  * Actual format: {success: true, data: [...], error_data: null, message: null}
  */
-interface TaskAttemptsResponse {
+interface ApiResponse<T> {
   success: boolean;
-  data: TaskAttempt[];
+  data: T[] | null;
   error_data: unknown;
   message: string | null;
 }
 
+/**
+ * Describe an API error for display (sidebar, logs)
+ */
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+    case 'http_error':
+      return 'vibe-kanban returned HTTP ' + error.status + ' for ' + error.endpoint;
+    case 'network_error':
+      return 'Cannot reach vibe-kanban (' + error.message + '). Is it running?';
+    case 'api_error':
+      return 'vibe-kanban reported an error for ' + error.endpoint + ': ' + error.message;
+    case 'parse_error':
+      return 'Unexpected response from vibe-kanban for ' + error.endpoint + ': ' + error.message;
+  }
+}
+
+/**
+ * Translate a json_patch event of the task stream into task changes
+ * The stream patches a document of the form {tasks: {[taskId]: task}}; other paths are ignored.
+ * Tasks are validated like list responses; invalid ones are left out of the changes
+ */
+export function parseTaskStreamEvent(
+  event: ServerSentEvent,
+  onValidationIssues?: (issues: ValidationIssue[]) => void
+): TaskStreamChange[] {
+  if (event.event !== 'json_patch') {
+    return [];
+  }
+
+  let operations: JsonPatchOperation[];
+  try {
+    operations = JSON.parse(event.data);
+  } catch {
+    console.warn('[vibe-tracker] Ignoring malformed task stream event');
+    return [];
+  }
+  if (!Array.isArray(operations)) {
+    return [];
+  }
+
+  const changes: TaskStreamChange[] = [];
+  const validate = (values: unknown[]): Task[] => {
+    const { records, issues } = validateRecords<Task>('tasks', values);
+    if (issues.length > 0) {
+      onValidationIssues?.(issues);
+    }
+    return records;
+  };
+
+  for (const operation of operations) {
+    if (operation.path === '/tasks' && (operation.op === 'add' || operation.op === 'replace')) {
+      changes.push({ kind: 'reset', tasks: validate(Object.values((operation.value ?? {}) as Record<string, unknown>)) });
+      continue;
+    }
+    if (typeof operation.path !== 'string' || !operation.path.startsWith('/tasks/')) {
+      continue;
+    }
+    // JSON Pointer escaping: ~1 is '/', ~0 is '~'
+    const taskId = operation.path.slice('/tasks/'.length).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (operation.op === 'remove') {
+      changes.push({ kind: 'remove', taskId });
+    } else if (operation.op === 'add' || operation.op === 'replace') {
+      const [task] = validate([operation.value]);
+      if (task) {
+        changes.push({ kind: 'upsert', task });
+      }
+    }
+  }
+  return changes;
+}
+
+// Attempt lists are cached per task, so the cache is bounded and drops the least recently used URLs
+const MAX_ETAG_CACHE_ENTRIES = 500;
+
+/**
+ * Last successful response for a URL that came with an ETag
+ */
+interface CachedResponse {
+  etag: string;
+  data: unknown[];
+}
+
 /**
  * HTTP client for the vibe-kanban API
- * Provides typed methods to fetch projects and tasks with error handling
+ * Provides typed methods to fetch projects and tasks; failures are returned as
+ * typed errors rather than empty lists so callers can tell "none" from "unavailable"
  */
 export class VibeKanbanApiClient {
   private baseUrl: string;
+  private scheduler: RequestScheduler;
+  private onError: ((error: ApiError) => void) | null = null;
+  private onValidationIssue: ((issue: ValidationIssue) => void) | null = null;
+  // Responses with an ETag, revalidated with If-None-Match so unchanged lists are not re-sent
+  private etagCache: Map<string, CachedResponse> = new Map();
 
-  constructor(baseUrl: string = VIBE_KANBAN_API_URL) {
+  constructor(
+    baseUrl: string = VIBE_KANBAN_API_URL,
+    scheduler: RequestScheduler = new RequestScheduler({
+      concurrency: DEFAULT_API_CONCURRENCY,
+      timeoutMs: DEFAULT_API_TIMEOUT_MS,
+    })
+  ) {
     this.baseUrl = baseUrl;
+    this.scheduler = scheduler;
   }
 
   /**
-   * Fetch all projects from the API
-   * Returns empty array on error
+   * Set callback for failed requests (e.g. to count errors)
    */
-  async fetchProjects(): Promise<Project[]> {
-    try {
-      const response = await fetch(this.baseUrl + '/api/projects', {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
+  setOnError(callback: (error: ApiError) => void): void {
+    this.onError = callback;
+  }
 
-      if (!response.ok) {
-        console.error(
-          '[vibe-tracker] Failed to fetch projects: HTTP ' + response.status
-        );
-        return [];
-      }
+  /**
+   * Set callback for malformed records in responses (e.g. to count and report them)
+   */
+  setOnValidationIssue(callback: (issue: ValidationIssue) => void): void {
+    this.onValidationIssue = callback;
+  }
 
-      const data: ProjectsResponse = await response.json();
-      if (!data.success || !data.data) {
-        console.error('[vibe-tracker] API returned error for projects:', data.message);
-        return [];
-      }
-      console.log('[vibe-tracker] Fetched ' + data.data.length + ' projects');
-      return data.data;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('[vibe-tracker] Failed to fetch projects:', message);
-      return [];
+  /**
+   * Fetch all projects from the API
+   */
+  async fetchProjects(): Promise<ApiResult<Project[]>> {
+    const result = await this.request<Project>('projects', '/api/projects', 'projects');
+    if (result.kind === 'ok') {
+      console.log('[vibe-tracker] Fetched ' + result.data.length + ' projects');
     }
+    return result;
   }
 
   /**
    * Fetch all tasks for a specific project
-   * Returns empty array on error
    */
-  async fetchProjectTasks(projectId: string): Promise<Task[]> {
-    try {
-      const response = await fetch(
-        this.baseUrl + '/api/tasks?project_id=' + encodeURIComponent(projectId),
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error(
-          '[vibe-tracker] Failed to fetch tasks for project ' +
-            projectId +
-            ': HTTP ' +
-            response.status
-        );
-        return [];
-      }
-
-      const data: TasksResponse = await response.json();
-      if (!data.success || !data.data) {
-        console.error('[vibe-tracker] API returned error for tasks:', data.message);
-        return [];
-      }
+  async fetchProjectTasks(projectId: string): Promise<ApiResult<Task[]>> {
+    const result = await this.request<Task>(
+      'tasks',
+      '/api/tasks?project_id=' + encodeURIComponent(projectId),
+      'tasks for project ' + projectId
+    );
+    if (result.kind === 'ok') {
       console.log(
-        '[vibe-tracker] Fetched ' + data.data.length + ' tasks for project ' + projectId
+        '[vibe-tracker] Fetched ' + result.data.length + ' tasks for project ' + projectId
       );
-      return data.data;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(
-        '[vibe-tracker] Failed to fetch tasks for project ' + projectId + ':',
-        message
-      );
-      return [];
     }
+    return result;
   }
 
   /**
    * Fetch all attempts for a specific task
-   * Returns empty array on error
    */
-  async fetchTaskAttempts(taskId: string): Promise<TaskAttempt[]> {
-    try {
-      const response = await fetch(
-        this.baseUrl + '/api/task-attempts?task_id=' + encodeURIComponent(taskId),
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-          },
-        }
+  async fetchTaskAttempts(taskId: string): Promise<ApiResult<TaskAttempt[]>> {
+    const result = await this.request<TaskAttempt>(
+      'task_attempts',
+      '/api/task-attempts?task_id=' + encodeURIComponent(taskId),
+      'attempts for task ' + taskId
+    );
+    if (result.kind === 'ok') {
+      console.log(
+        '[vibe-tracker] Fetched ' + result.data.length + ' attempts for task ' + taskId
       );
+    }
+    return result;
+  }
 
-      if (!response.ok) {
-        console.error(
-          '[vibe-tracker] Failed to fetch attempts for task ' +
-            taskId +
-            ': HTTP ' +
-            response.status
-        );
-        return [];
+  /**
+   * Open the task event stream of a project (not started; call start())
+   * Servers without the stream end up in the 'unavailable' state, so callers keep polling
+   */
+  openTaskStream(projectId: string, handlers: TaskStreamHandlers): EventStream {
+    return new EventStream(
+      this.baseUrl + '/api/tasks/stream?project_id=' + encodeURIComponent(projectId),
+      {
+        onEvent: (event) => {
+          const changes = parseTaskStreamEvent(event, (issues) =>
+            this.reportValidationIssues('task stream for project ' + projectId, issues)
+          );
+          if (changes.length > 0) {
+            handlers.onChanges(changes);
+          }
+        },
+        onStateChange: handlers.onStateChange,
       }
+    );
+  }
 
-      const data: TaskAttemptsResponse = await response.json();
-      if (!data.success || !data.data) {
-        console.error('[vibe-tracker] API returned error for task attempts:', data.message);
-        return [];
-      }
-      console.log(
-        '[vibe-tracker] Fetched ' + data.data.length + ' attempts for task ' + taskId
-      );
-      return data.data;
+  /**
+   * GET a path through the scheduler; concurrent calls for the same URL share one request
+   */
+  private request<T>(
+    endpoint: ApiEndpoint,
+    path: string,
+    description: string
+  ): Promise<ApiResult<T[]>> {
+    const url = this.baseUrl + path;
+    return this.scheduler.run(url, (signal) => this.send<T>(url, endpoint, description, signal));
+  }
+
+  /**
+   * Send a GET request and unwrap the API envelope into a typed result
+   * Timeouts (aborted requests) are reported as network errors;
+   * a 304 Not Modified returns the cached data of the matching ETag
+   */
+  private async send<T>(
+    url: string,
+    endpoint: ApiEndpoint,
+    description: string,
+    signal: AbortSignal
+  ): Promise<ApiResult<T[]>> {
+    const cached = this.etagCache.get(url);
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+    if (cached) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers,
+        signal,
+      });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(
-        '[vibe-tracker] Failed to fetch attempts for task ' + taskId + ':',
-        message
-      );
-      return [];
+      return this.fail(description, { kind: 'network_error', endpoint, message });
+    }
+
+    if (response.status === 304 && cached) {
+      this.cacheResponse(url, cached);
+      return { kind: 'ok', data: cached.data as T[] };
+    }
+
+    if (!response.ok) {
+      return this.fail(description, {
+        kind: 'http_error',
+        endpoint,
+        status: response.status,
+        message: 'HTTP ' + response.status,
+      });
+    }
+
+    let body: ApiResponse<T>;
+    try {
+      body = await response.json();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.fail(description, {
+        kind: signal.aborted ? 'network_error' : 'parse_error',
+        endpoint,
+        status: response.status,
+        message,
+      });
+    }
+
+    if (!body || typeof body !== 'object') {
+      return this.fail(description, {
+        kind: 'parse_error',
+        endpoint,
+        status: response.status,
+        message: 'Response is not an object',
+      });
+    }
+    if (!body.success) {
+      return this.fail(description, {
+        kind: 'api_error',
+        endpoint,
+        status: response.status,
+        message: body.message || 'Request was not successful',
+      });
+    }
+    if (!Array.isArray(body.data)) {
+      return this.fail(description, {
+        kind: 'parse_error',
+        endpoint,
+        status: response.status,
+        message: 'Response data is not a list',
+      });
+    }
+
+    const { records, issues } = validateRecords<T>(endpoint, body.data);
+    if (issues.length > 0) {
+      this.reportValidationIssues(description, issues);
     }
+
+    const etag = response.headers.get('ETag');
+    if (etag) {
+      this.cacheResponse(url, { etag, data: records });
+    } else {
+      this.etagCache.delete(url);
+    }
+
+    return { kind: 'ok', data: records };
+  }
+
+  /**
+   * Store a response as the most recently used, evicting the oldest beyond the cache limit
+   */
+  private cacheResponse(url: string, response: CachedResponse): void {
+    // Maps iterate in insertion order, so re-inserting moves the URL to the end
+    this.etagCache.delete(url);
+    this.etagCache.set(url, response);
+    while (this.etagCache.size > MAX_ETAG_CACHE_ENTRIES) {
+      this.etagCache.delete(this.etagCache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Log and report malformed records of a response
+   */
+  private reportValidationIssues(description: string, issues: ValidationIssue[]): void {
+    for (const issue of issues) {
+      console.warn('[vibe-tracker] Unexpected data in ' + description + ': ' + describeValidationIssue(issue));
+      this.onValidationIssue?.(issue);
+    }
+  }
+
+  /**
+   * Log and report a failed request
+   */
+  private fail(description: string, error: ApiError): ApiError {
+    console.error('[vibe-tracker] Failed to fetch ' + description + ' (' + error.kind + '):', error.message);
+    this.onError?.(error);
+    return error;
   }
 }
@@ -1,11 +1,25 @@
 /**
  * API Metrics Collector for vibe-kanban tracker
- * Fetches project and task data from the API and generates metrics
+ * Generates metrics from the project, task and attempt data held by the task snapshot
+ * store, and flow metrics (status transitions, time in status, lead and cycle time,
+ * finished attempts) from the changes between successive snapshots, and the age of
+ * open tasks in their current status
  */
 
-import type { MetricRecord } from './metrics-collector';
-import type { VibeKanbanApiClient, Project, Task } from './api-client';
-import type { ProjectNameCache } from './project-name-cache';
+import { buildInstanceAttributes, type MetricRecord } from './metrics-collector';
+import { describeApiError, type Project, type Task, type TaskAttempt } from './api-client';
+import { getInstanceName, type VibeKanbanInstance } from './instance-registry';
+import { isActiveTask, type TaskSnapshotStore, type InstanceSnapshot } from './task-snapshot-store';
+import { getTaskAge, isOpenTask, type StaleThresholds, type TaskAge } from './task-aging';
+import {
+  TaskFlowTracker,
+  isFinishedAttempt,
+  type TaskFlowState,
+  type StatusTransition,
+  type FinishedAttempt,
+} from './task-flow-tracker';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
 
 /**
  * Calculate age in hours from a timestamp string
@@ -14,20 +28,91 @@ import type { ProjectNameCache } from './project-name-cache';
  */
 function calculateAgeHours(createdAt: string): number {
   const ageMs = Date.now() - Date.parse(createdAt);
-  return ageMs / (1000 * 60 * 60);
+  return ageMs / MS_PER_HOUR;
+}
+
+/**
+ * Get the executor attribute of an attempt ('unknown' for servers that do not send it)
+ */
+function getExecutor(attempt: TaskAttempt): string {
+  return attempt.executor || 'unknown';
 }
 
 /**
- * Collector that fetches data from the vibe-kanban API
- * and generates gauge metrics for projects and tasks
+ * Collector that generates gauge metrics for projects and tasks of every enabled
+ * instance from the shared task snapshot, plus flow metrics for the status transitions
+ * seen since the previous collection
  */
 export class ApiMetricsCollector {
-  private apiClient: VibeKanbanApiClient;
-  private projectNameCache: ProjectNameCache;
+  private taskSnapshotStore: TaskSnapshotStore;
+  private flowTracker: TaskFlowTracker;
+  private staleThresholds: StaleThresholds;
+  // Flow metrics observed since the last collect()
+  private flowMetrics: MetricRecord[] = [];
+  private onTransition: ((transition: StatusTransition, instance: VibeKanbanInstance) => void) | null = null;
 
-  constructor(apiClient: VibeKanbanApiClient, projectNameCache: ProjectNameCache) {
-    this.apiClient = apiClient;
-    this.projectNameCache = projectNameCache;
+  constructor(taskSnapshotStore: TaskSnapshotStore, staleThresholds: StaleThresholds, taskFlowState?: TaskFlowState) {
+    this.taskSnapshotStore = taskSnapshotStore;
+    this.staleThresholds = staleThresholds;
+    this.flowTracker = new TaskFlowTracker(taskFlowState);
+  }
+
+  /**
+   * Update per-status staleness thresholds (hours)
+   */
+  setStaleThresholds(staleThresholds: StaleThresholds): void {
+    this.staleThresholds = staleThresholds;
+  }
+
+  /**
+   * Get how long a task has been in its current status, and whether it is stale
+   */
+  getTaskAge(instance: VibeKanbanInstance, task: Task): TaskAge {
+    return getTaskAge(task, this.flowTracker.getStatusSince(instance.id, task), this.staleThresholds);
+  }
+
+  /**
+   * Set callback for detected task status transitions (e.g. to close a task's effort ledger entry)
+   */
+  setOnTransition(callback: (transition: StatusTransition, instance: VibeKanbanInstance) => void): void {
+    this.onTransition = callback;
+  }
+
+  /**
+   * Diff the current snapshot against the last known task statuses
+   * Called on every snapshot change so short-lived statuses are not missed between collections
+   * @returns Whether the task flow state changed (and should be saved)
+   */
+  observeTransitions(machineId: string): boolean {
+    const { instances } = this.taskSnapshotStore.getSnapshot();
+    let changed = this.flowTracker.retainInstances(instances.map(({ instance }) => instance.id));
+
+    for (const instanceSnapshot of instances) {
+      // Stale data says nothing new about the instance's tasks
+      if (instanceSnapshot.error || instanceSnapshot.fetchedAt === null) {
+        continue;
+      }
+
+      const result = this.flowTracker.observe(instanceSnapshot);
+      const baseAttributes = buildInstanceAttributes(machineId, getInstanceName(instanceSnapshot.instance));
+      for (const transition of result.transitions) {
+        this.flowMetrics.push(...this.buildTransitionMetrics(transition, baseAttributes));
+        this.onTransition?.(transition, instanceSnapshot.instance);
+      }
+      for (const finishedAttempt of result.finishedAttempts) {
+        this.flowMetrics.push(...this.buildFinishedAttemptMetrics(finishedAttempt, baseAttributes));
+      }
+      changed = changed || result.changed;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Get task flow state for persistence
+   */
+  getTaskFlowState(): TaskFlowState {
+    return this.flowTracker.getState();
   }
 
   /**
@@ -36,171 +121,387 @@ export class ApiMetricsCollector {
    * @returns Array of MetricRecord for export
    */
   async collect(machineId: string): Promise<MetricRecord[]> {
-    const metrics: MetricRecord[] = [];
+    const snapshot = await this.taskSnapshotStore.current();
+    this.observeTransitions(machineId);
+    const metrics: MetricRecord[] = this.flowMetrics;
+    this.flowMetrics = [];
+
+    console.log('[vibe-tracker] Starting API metrics collection for ' + snapshot.instances.length + ' instances');
+
+    for (const instanceSnapshot of snapshot.instances) {
+      const instanceName = getInstanceName(instanceSnapshot.instance);
+      // If the instance's latest refresh failed, report nothing rather than stale values
+      if (instanceSnapshot.error || instanceSnapshot.fetchedAt === null) {
+        console.warn(
+          '[vibe-tracker] Skipping API metrics for ' + instanceName +
+            (instanceSnapshot.error ? ': ' + describeApiError(instanceSnapshot.error) : '')
+        );
+        continue;
+      }
+
+      metrics.push(
+        ...this.collectInstance(
+          instanceSnapshot,
+          buildInstanceAttributes(machineId, instanceName),
+          instanceSnapshot.fetchedAt
+        )
+      );
+    }
+
+    console.log('[vibe-tracker] API metrics collection complete: ' + metrics.length + ' metrics');
+    return metrics;
+  }
+
+  /**
+   * Generate the transition counter and flow time histograms for one status transition
+   */
+  private buildTransitionMetrics(
+    transition: StatusTransition,
+    baseAttributes: Record<string, string | number>
+  ): MetricRecord[] {
     const timestamp = Date.now();
+    const attributes = {
+      ...baseAttributes,
+      project_id: transition.project.id,
+      project_name: transition.project.name,
+    };
+    const metrics: MetricRecord[] = [
+      {
+        name: 'vibe_kanban.tasks.transitions',
+        type: 'counter',
+        value: 1,
+        timestamp,
+        attributes: { ...attributes, from_status: transition.from, to_status: transition.to },
+      },
+    ];
 
-    console.log('[vibe-tracker] Starting API metrics collection');
+    if (transition.timeInStatusMs !== null) {
+      metrics.push({
+        name: 'vibe_kanban.tasks.time_in_status_hours',
+        type: 'histogram',
+        value: transition.timeInStatusMs / MS_PER_HOUR,
+        timestamp,
+        attributes: { ...attributes, status: transition.from },
+      });
+    }
+    if (transition.leadTimeMs !== null) {
+      metrics.push({
+        name: 'vibe_kanban.tasks.lead_time_hours',
+        type: 'histogram',
+        value: transition.leadTimeMs / MS_PER_HOUR,
+        timestamp,
+        attributes,
+      });
+    }
+    if (transition.cycleTimeMs !== null) {
+      metrics.push({
+        name: 'vibe_kanban.tasks.cycle_time_hours',
+        type: 'histogram',
+        value: transition.cycleTimeMs / MS_PER_HOUR,
+        timestamp,
+        attributes,
+      });
+    }
+    if (transition.attemptCount !== null) {
+      metrics.push({
+        name: 'vibe_kanban.tasks.attempts_until_done',
+        type: 'histogram',
+        value: transition.attemptCount,
+        timestamp,
+        attributes,
+      });
+    }
 
-    try {
-      // Fetch all projects
-      const projects = await this.apiClient.fetchProjects();
+    return metrics;
+  }
 
-      if (projects.length === 0) {
-        console.log('[vibe-tracker] No projects found, skipping API metrics');
-        return [];
-      }
+  /**
+   * Generate the outcome counter and duration histogram for one finished attempt
+   */
+  private buildFinishedAttemptMetrics(
+    finishedAttempt: FinishedAttempt,
+    baseAttributes: Record<string, string | number>
+  ): MetricRecord[] {
+    const timestamp = Date.now();
+    const attributes = {
+      ...baseAttributes,
+      project_id: finishedAttempt.project.id,
+      project_name: finishedAttempt.project.name,
+      executor: getExecutor(finishedAttempt.attempt),
+      outcome: finishedAttempt.attempt.status!,
+    };
+    const metrics: MetricRecord[] = [
+      {
+        name: 'vibe_kanban.attempts.finished',
+        type: 'counter',
+        value: 1,
+        timestamp,
+        attributes,
+      },
+    ];
 
-      // Update project name cache
-      this.projectNameCache.clear();
-      for (const project of projects) {
-        this.projectNameCache.set(project.id, project.name);
-      }
-      console.log('[vibe-tracker] Updated project name cache with ' + projects.length + ' projects');
+    if (finishedAttempt.durationMs !== null) {
+      metrics.push({
+        name: 'vibe_kanban.attempts.duration_ms',
+        type: 'histogram',
+        value: finishedAttempt.durationMs,
+        timestamp,
+        attributes,
+      });
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Generate project and task metrics for one instance
+   */
+  private collectInstance(
+    instanceSnapshot: InstanceSnapshot,
+    baseAttributes: Record<string, string | number>,
+    timestamp: number
+  ): MetricRecord[] {
+    const { projects } = instanceSnapshot;
+    const metrics: MetricRecord[] = [];
+
+    // Generate projects.count metric
+    metrics.push({
+      name: 'vibe_kanban.projects.count',
+      type: 'gauge',
+      value: projects.length,
+      timestamp,
+      attributes: { ...baseAttributes },
+    });
 
-      // Generate projects.count metric
+    // Generate projects.age_hours metrics for each project
+    for (const project of projects) {
       metrics.push({
-        name: 'vibe_kanban.projects.count',
+        name: 'vibe_kanban.projects.age_hours',
         type: 'gauge',
-        value: projects.length,
+        value: calculateAgeHours(project.created_at),
         timestamp,
         attributes: {
-          machine_id: machineId,
+          ...baseAttributes,
+          project_id: project.id,
+          project_name: project.name,
         },
       });
+    }
+
+    for (const project of projects) {
+      const tasks = instanceSnapshot.tasks[project.id] ?? [];
+      metrics.push(...this.collectTaskMetrics(project, tasks, baseAttributes, timestamp));
+      metrics.push(...this.collectAgingMetrics(instanceSnapshot.instance, project, tasks, baseAttributes, timestamp));
+      metrics.push(...this.collectAttemptMetrics(project, tasks, instanceSnapshot.attempts, baseAttributes, timestamp));
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Generate task-related metrics for a single project
+   */
+  private collectTaskMetrics(
+    project: Project,
+    tasks: Task[],
+    baseAttributes: Record<string, string | number>,
+    timestamp: number
+  ): MetricRecord[] {
+    const metrics: MetricRecord[] = [];
+
+    // Group tasks by status
+    const tasksByStatus = this.groupTasksByStatus(tasks);
+
+    // Generate tasks.count metrics for each status
+    for (const [status, statusTasks] of Object.entries(tasksByStatus)) {
+      metrics.push({
+        name: 'vibe_kanban.tasks.count',
+        type: 'gauge',
+        value: statusTasks.length,
+        timestamp,
+        attributes: {
+          ...baseAttributes,
+          project_id: project.id,
+          project_name: project.name,
+          status,
+        },
+      });
+
+      // Calculate average age for tasks in this status
+      if (statusTasks.length > 0) {
+        const totalAgeHours = statusTasks.reduce(
+          (sum, task) => sum + calculateAgeHours(task.created_at),
+          0
+        );
+        const averageAgeHours = totalAgeHours / statusTasks.length;
 
-      // Generate projects.age_hours metrics for each project
-      for (const project of projects) {
         metrics.push({
-          name: 'vibe_kanban.projects.age_hours',
+          name: 'vibe_kanban.tasks.age_hours',
           type: 'gauge',
-          value: calculateAgeHours(project.created_at),
+          value: averageAgeHours,
           timestamp,
           attributes: {
-            machine_id: machineId,
+            ...baseAttributes,
             project_id: project.id,
             project_name: project.name,
+            status,
           },
         });
       }
+    }
 
-      // Fetch tasks for all projects and generate task metrics
-      for (const project of projects) {
-        const taskMetrics = await this.collectTaskMetrics(
-          project,
-          machineId,
-          timestamp
-        );
-        metrics.push(...taskMetrics);
-      }
+    // Count tasks with failed attempts
+    const failedAttemptCount = tasks.filter(
+      (task) => task.last_attempt_failed
+    ).length;
+    metrics.push({
+      name: 'vibe_kanban.tasks.failed_attempts',
+      type: 'gauge',
+      value: failedAttemptCount,
+      timestamp,
+      attributes: {
+        ...baseAttributes,
+        project_id: project.id,
+        project_name: project.name,
+      },
+    });
 
-      console.log('[vibe-tracker] API metrics collection complete: ' + metrics.length + ' metrics');
-      return metrics;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('[vibe-tracker] API metrics collection failed:', message);
-      // Return partial results (whatever we collected before the error)
-      return metrics;
-    }
+    // Count tasks with active attempts
+    const activeAttemptCount = tasks.filter(
+      (task) => task.has_in_progress_attempt
+    ).length;
+    metrics.push({
+      name: 'vibe_kanban.tasks.active_attempts',
+      type: 'gauge',
+      value: activeAttemptCount,
+      timestamp,
+      attributes: {
+        ...baseAttributes,
+        project_id: project.id,
+        project_name: project.name,
+      },
+    });
+
+    return metrics;
   }
 
   /**
-   * Collect task-related metrics for a single project
+   * Generate aging metrics for a single project: time in status of each active task,
+   * and the number of stale tasks per open status
    */
-  private async collectTaskMetrics(
+  private collectAgingMetrics(
+    instance: VibeKanbanInstance,
     project: Project,
-    machineId: string,
+    tasks: Task[],
+    baseAttributes: Record<string, string | number>,
     timestamp: number
-  ): Promise<MetricRecord[]> {
+  ): MetricRecord[] {
     const metrics: MetricRecord[] = [];
+    const projectAttributes = {
+      ...baseAttributes,
+      project_id: project.id,
+      project_name: project.name,
+    };
+    const staleCounts: Record<string, number> = {};
+    for (const [status, thresholdHours] of Object.entries(this.staleThresholds)) {
+      if (thresholdHours > 0) {
+        staleCounts[status] = 0;
+      }
+    }
 
-    try {
-      const tasks = await this.apiClient.fetchProjectTasks(project.id);
-
-      // Group tasks by status
-      const tasksByStatus = this.groupTasksByStatus(tasks);
-
-      // Generate tasks.count metrics for each status
-      for (const [status, statusTasks] of Object.entries(tasksByStatus)) {
+    for (const task of tasks.filter(isOpenTask)) {
+      const age = this.getTaskAge(instance, task);
+      if (age.stale) {
+        staleCounts[task.status]++;
+      }
+      if (isActiveTask(task)) {
         metrics.push({
-          name: 'vibe_kanban.tasks.count',
+          name: 'vibe_kanban.tasks.status_age_hours',
           type: 'gauge',
-          value: statusTasks.length,
+          value: age.statusAgeMs / MS_PER_HOUR,
           timestamp,
-          attributes: {
-            machine_id: machineId,
-            project_id: project.id,
-            project_name: project.name,
-            status,
-          },
+          attributes: { ...projectAttributes, task_id: task.id, status: task.status },
         });
-
-        // Calculate average age for tasks in this status
-        if (statusTasks.length > 0) {
-          const totalAgeHours = statusTasks.reduce(
-            (sum, task) => sum + calculateAgeHours(task.created_at),
-            0
-          );
-          const averageAgeHours = totalAgeHours / statusTasks.length;
-
-          metrics.push({
-            name: 'vibe_kanban.tasks.age_hours',
-            type: 'gauge',
-            value: averageAgeHours,
-            timestamp,
-            attributes: {
-              machine_id: machineId,
-              project_id: project.id,
-              project_name: project.name,
-              status,
-            },
-          });
-        }
       }
+    }
 
-      // Count tasks with failed attempts
-      const failedAttemptCount = tasks.filter(
-        (task) => task.last_attempt_failed
-      ).length;
+    for (const [status, count] of Object.entries(staleCounts)) {
       metrics.push({
-        name: 'vibe_kanban.tasks.failed_attempts',
+        name: 'vibe_kanban.tasks.stale.count',
         type: 'gauge',
-        value: failedAttemptCount,
+        value: count,
+        timestamp,
+        attributes: { ...projectAttributes, status },
+      });
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Generate attempt metrics for a single project: average attempts per task by status,
+   * and the share of finished attempts that failed by executor
+   * Tasks whose attempts have not been fetched yet are left out
+   */
+  private collectAttemptMetrics(
+    project: Project,
+    tasks: Task[],
+    attemptsByTask: Record<string, TaskAttempt[]>,
+    baseAttributes: Record<string, string | number>,
+    timestamp: number
+  ): MetricRecord[] {
+    const metrics: MetricRecord[] = [];
+    const knownTasks = tasks.filter((task) => attemptsByTask[task.id] !== undefined);
+
+    for (const [status, statusTasks] of Object.entries(this.groupTasksByStatus(knownTasks))) {
+      const attemptCount = statusTasks.reduce((sum, task) => sum + attemptsByTask[task.id].length, 0);
+      metrics.push({
+        name: 'vibe_kanban.tasks.attempts',
+        type: 'gauge',
+        value: attemptCount / statusTasks.length,
         timestamp,
         attributes: {
-          machine_id: machineId,
+          ...baseAttributes,
           project_id: project.id,
           project_name: project.name,
+          status,
         },
       });
+    }
 
-      // Count tasks with active attempts
-      const activeAttemptCount = tasks.filter(
-        (task) => task.has_in_progress_attempt
-      ).length;
+    // Finished and failed attempt counts by executor
+    const outcomesByExecutor: Record<string, { finished: number; failed: number }> = {};
+    for (const task of knownTasks) {
+      for (const attempt of attemptsByTask[task.id]) {
+        if (!isFinishedAttempt(attempt)) {
+          continue;
+        }
+        const executor = getExecutor(attempt);
+        if (!outcomesByExecutor[executor]) {
+          outcomesByExecutor[executor] = { finished: 0, failed: 0 };
+        }
+        outcomesByExecutor[executor].finished++;
+        if (attempt.status === 'failed') {
+          outcomesByExecutor[executor].failed++;
+        }
+      }
+    }
+    for (const [executor, { finished, failed }] of Object.entries(outcomesByExecutor)) {
       metrics.push({
-        name: 'vibe_kanban.tasks.active_attempts',
+        name: 'vibe_kanban.attempts.failure_rate',
         type: 'gauge',
-        value: activeAttemptCount,
+        value: failed / finished,
         timestamp,
         attributes: {
-          machine_id: machineId,
+          ...baseAttributes,
           project_id: project.id,
           project_name: project.name,
+          executor,
         },
       });
-
-      return metrics;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(
-        '[vibe-tracker] Failed to collect task metrics for project ' +
-          project.id +
-          ':',
-        message
-      );
-      // Return empty array for this project, but don't fail entirely
-      return [];
     }
+
+    return metrics;
   }
 
   /**
@@ -0,0 +1,210 @@
+/**
+ * API response validation for vibe-kanban tracker
+ * vibe-kanban's JSON is checked against the fields the tracker relies on instead of
+ * being trusted as typed: a renamed or retyped field used to surface as NaN ages and
+ * broken sidebar cards. Records with an unusable required field are dropped; records
+ * with an unexpected optional field are kept and the field is flagged.
+ */
+
+import type { ApiEndpoint } from './api-client';
+
+/**
+ * Known task statuses (Task['status'])
+ */
+const TASK_STATUSES = ['todo', 'inprogress', 'inreview', 'done', 'cancelled'] as const;
+
+/**
+ * Known task attempt statuses (TaskAttemptStatus)
+ */
+const TASK_ATTEMPT_STATUSES = ['running', 'completed', 'failed', 'killed'] as const;
+
+/**
+ * Check of one field: returns a description of the problem, or null if the value is fine
+ */
+type FieldCheck = (value: unknown) => string | null;
+
+interface FieldRule {
+  check: FieldCheck;
+  // Required fields are needed to use the record at all; failing one drops the record
+  required: boolean;
+}
+
+/**
+ * Describe the JSON type of a value for problem messages
+ */
+function describeType(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const isString: FieldCheck = (value) =>
+  typeof value === 'string' ? null : 'expected string, got ' + describeType(value);
+
+const isId: FieldCheck = (value) =>
+  typeof value === 'string' && value !== '' ? null : 'expected non-empty string, got ' + describeType(value);
+
+const isBoolean: FieldCheck = (value) =>
+  typeof value === 'boolean' ? null : 'expected boolean, got ' + describeType(value);
+
+const isTimestamp: FieldCheck = (value) => {
+  if (typeof value !== 'string') {
+    return 'expected timestamp, got ' + describeType(value);
+  }
+  return Number.isNaN(Date.parse(value)) ? "unparseable timestamp '" + value + "'" : null;
+};
+
+const isOneOf = (values: readonly string[]): FieldCheck => (value) => {
+  if (typeof value !== 'string') {
+    return 'expected string, got ' + describeType(value);
+  }
+  return values.includes(value) ? null : "unknown value '" + value + "'";
+};
+
+/**
+ * Accept a missing or null value (fields that older servers do not send)
+ */
+const orAbsent = (check: FieldCheck): FieldCheck => (value) =>
+  value === undefined || value === null ? null : check(value);
+
+const PROJECT_RULES: Record<string, FieldRule> = {
+  id: { check: isId, required: true },
+  name: { check: isString, required: true },
+  created_at: { check: isTimestamp, required: true },
+  updated_at: { check: isTimestamp, required: false },
+};
+
+const TASK_RULES: Record<string, FieldRule> = {
+  id: { check: isId, required: true },
+  title: { check: isString, required: true },
+  status: { check: isOneOf(TASK_STATUSES), required: true },
+  created_at: { check: isTimestamp, required: true },
+  updated_at: { check: isTimestamp, required: false },
+  has_in_progress_attempt: { check: isBoolean, required: false },
+  last_attempt_failed: { check: isBoolean, required: false },
+};
+
+const TASK_ATTEMPT_RULES: Record<string, FieldRule> = {
+  id: { check: isId, required: true },
+  task_id: { check: isString, required: false },
+  created_at: { check: isTimestamp, required: false },
+  executor: { check: orAbsent(isString), required: false },
+  status: { check: orAbsent(isOneOf(TASK_ATTEMPT_STATUSES)), required: false },
+  completed_at: { check: orAbsent(isTimestamp), required: false },
+};
+
+const RULES_BY_ENDPOINT: Record<ApiEndpoint, Record<string, FieldRule>> = {
+  projects: PROJECT_RULES,
+  tasks: TASK_RULES,
+  task_attempts: TASK_ATTEMPT_RULES,
+};
+
+/**
+ * Problem found in the records of one response, counted over its records
+ */
+export interface ValidationIssue {
+  endpoint: ApiEndpoint;
+  // Offending field ('(record)' when the record is not an object)
+  field: string;
+  problem: string;
+  // Whether the affected records were dropped (required field) or kept (flagged)
+  dropped: boolean;
+  count: number;
+}
+
+/**
+ * Validate the records of a list response
+ * Returns the usable records and the problems found, one issue per field and problem
+ */
+export function validateRecords<T>(
+  endpoint: ApiEndpoint,
+  records: unknown[]
+): { records: T[]; issues: ValidationIssue[] } {
+  const rules = RULES_BY_ENDPOINT[endpoint];
+  const valid: T[] = [];
+  const issues: Map<string, ValidationIssue> = new Map();
+  const addIssue = (field: string, problem: string, dropped: boolean): void => {
+    const key = field + '\n' + problem + '\n' + dropped;
+    const issue = issues.get(key);
+    if (issue) {
+      issue.count++;
+    } else {
+      issues.set(key, { endpoint, field, problem, dropped, count: 1 });
+    }
+  };
+
+  for (const record of records) {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      addIssue('(record)', 'expected object, got ' + describeType(record), true);
+      continue;
+    }
+
+    let usable = true;
+    for (const [field, rule] of Object.entries(rules)) {
+      const problem = rule.check((record as Record<string, unknown>)[field]);
+      if (problem) {
+        addIssue(field, problem, rule.required);
+        usable = usable && !rule.required;
+      }
+    }
+    if (usable) {
+      valid.push(record as T);
+    }
+  }
+
+  return { records: valid, issues: [...issues.values()] };
+}
+
+/**
+ * Describe a validation issue for logs and debug info
+ */
+export function describeValidationIssue(issue: ValidationIssue): string {
+  return (
+    issue.endpoint + '.' + issue.field + ': ' + issue.problem +
+    ' (' + issue.count + ' record' + (issue.count === 1 ? '' : 's') + ' ' + (issue.dropped ? 'dropped' : 'flagged') + ')'
+  );
+}
+
+// Most compatibility warnings kept for debug info
+const MAX_COMPATIBILITY_WARNINGS = 20;
+
+interface CompatibilityWarning {
+  instance: string;
+  issue: ValidationIssue;
+  lastSeen: number;
+}
+
+/**
+ * Latest validation issues per instance, reported as compatibility warnings in debug info
+ * Repeated issues update their count and last-seen time instead of adding new entries
+ */
+export class CompatibilityLog {
+  private warnings: Map<string, CompatibilityWarning> = new Map();
+
+  /**
+   * Record an issue seen in a response from an instance
+   */
+  record(instance: string, issue: ValidationIssue): void {
+    const key = [instance, issue.endpoint, issue.field, issue.problem, issue.dropped].join('\n');
+    this.warnings.delete(key);
+    this.warnings.set(key, { instance, issue, lastSeen: Date.now() });
+
+    // Map keeps insertion order, so the first entry is the least recently seen
+    if (this.warnings.size > MAX_COMPATIBILITY_WARNINGS) {
+      this.warnings.delete(this.warnings.keys().next().value!);
+    }
+  }
+
+  /**
+   * Get warnings, most recently seen first
+   */
+  getWarnings(): string[] {
+    return [...this.warnings.values()]
+      .reverse()
+      .map(
+        ({ instance, issue, lastSeen }) =>
+          instance + ': ' + describeValidationIssue(issue) + ', last seen ' + new Date(lastSeen).toISOString()
+      );
+  }
+}
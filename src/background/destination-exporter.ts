@@ -0,0 +1,570 @@
+/**
+ * Destination Exporter for vibe-kanban tracker
+ * Fans telemetry out to every configured export destination. Each destination has
+ * its own exporter (OTLP/HTTP or Prometheus remote-write), counter aggregation and
+ * pending queues, so a failing backend neither blocks nor duplicates data sent to the others.
+ *
+ * Metrics wait in a persisted per-destination outbox of batches. A failed export is
+ * retried on later cycles with exponential backoff; requests that are too large are
+ * split. Batches the destination rejects (400, 422), past the max age or beyond the
+ * max size are dropped and counted as dead letters.
+ */
+
+import type { MetricRecord } from './metrics-collector';
+import type { SpanRecord } from './session-tracer';
+import type { LogRecord } from './event-logger';
+import {
+  OTelExporter,
+  buildOTLPHeaders,
+  type OTLPAuth,
+  type OTLPEncoding,
+  type OTLPCompression,
+} from './otel-exporter';
+import {
+  MetricAggregator,
+  type AggregationState,
+  type AggregationTemporality,
+} from './metric-aggregator';
+import { PrometheusRemoteWriteExporter } from './prometheus-exporter';
+
+// ID of the destination created from the pre-destinations single endpoint
+export const DEFAULT_DESTINATION_ID = 'default';
+
+// Wire protocol of a destination
+// Prometheus remote-write only carries metrics; spans and logs are skipped for it
+export type ExportProtocol = 'otlp' | 'prometheus';
+
+/**
+ * Configured export destination
+ */
+export interface ExportDestination {
+  id: string;
+  name: string;
+  protocol: ExportProtocol;
+  // OTLP base URL, or the full remote-write URL for Prometheus
+  endpoint: string;
+  headers: Record<string, string>;
+  auth: OTLPAuth;
+  enabled: boolean;
+}
+
+/**
+ * Metrics queued together in one export cycle
+ */
+export interface OutboxBatch {
+  id: string;
+  createdAt: number;
+  // Serialized size, used for the max bytes policy
+  bytes: number;
+  // Raw metrics, re-aggregated on every attempt
+  metrics: MetricRecord[];
+}
+
+/**
+ * Limits on undelivered metrics per destination
+ */
+export interface OutboxPolicy {
+  // Batches older than this are dropped
+  maxAgeMs: number;
+  // Oldest batches are dropped while the outbox is larger than this
+  maxBytes: number;
+}
+
+/**
+ * Persisted delivery state of one destination
+ */
+export interface DestinationState {
+  // Batches not yet delivered to this destination, oldest first
+  outbox: OutboxBatch[];
+  // Counter/histogram running totals for this destination
+  aggregationState: AggregationState;
+  // Metric exports failed in a row (reset on success)
+  consecutiveFailures: number;
+  // No metric export before this time (backoff after failures)
+  nextAttemptTime: number | null;
+  // Metrics dropped (rejected or by the outbox policy) without being delivered
+  deadLetterCount: number;
+  lastAttemptTime: number | null;
+  lastSuccessTime: number | null;
+}
+
+/**
+ * Settings shared by all destinations
+ */
+export interface DestinationExporterOptions {
+  serviceName: string;
+  serviceVersion: string;
+  machineId: string;
+  encoding: OTLPEncoding;
+  compression: OTLPCompression;
+  temporality: AggregationTemporality;
+  histogramBoundaries: Record<string, number[]>;
+  outboxPolicy: OutboxPolicy;
+}
+
+/**
+ * Outcome of one export cycle for a destination
+ */
+export interface DestinationResult {
+  id: string;
+  success: boolean;
+}
+
+/**
+ * Runtime objects of one destination
+ */
+interface DestinationTarget {
+  destination: ExportDestination;
+  exporter: OTelExporter | PrometheusRemoteWriteExporter;
+  aggregator: MetricAggregator;
+  state: DestinationState;
+  // Spans and log records are retried from memory only
+  pendingSpans: SpanRecord[];
+  pendingLogs: LogRecord[];
+}
+
+// Max spans/log records kept in memory per destination while its backend is failing
+const MAX_PENDING_ITEMS = 1000;
+
+// Backoff between failed metric exports: 15s, 30s, 1min, ... up to 15min
+// (the first retry still happens on the next 30s export cycle)
+const RETRY_BACKOFF_BASE_MS = 15 * 1000;
+const RETRY_BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// Max raw metrics size sent in one request; larger outboxes drain over several requests
+const MAX_REQUEST_BYTES = 512 * 1024;
+
+// One attempt per request: retries happen on later cycles, not within one
+const ATTEMPTS_PER_EXPORT = 1;
+
+/**
+ * Create empty delivery state for a new destination
+ */
+export function createDestinationState(): DestinationState {
+  return {
+    outbox: [],
+    aggregationState: { series: {} },
+    consecutiveFailures: 0,
+    nextAttemptTime: null,
+    deadLetterCount: 0,
+    lastAttemptTime: null,
+    lastSuccessTime: null,
+  };
+}
+
+/**
+ * Delay before the next metric export after consecutive failures
+ */
+export function getRetryBackoffMs(consecutiveFailures: number): number {
+  return Math.min(
+    RETRY_BACKOFF_BASE_MS * Math.pow(2, Math.max(consecutiveFailures - 1, 0)),
+    RETRY_BACKOFF_MAX_MS
+  );
+}
+
+export class DestinationExporter {
+  private targets = new Map<string, DestinationTarget>();
+  private options: DestinationExporterOptions;
+
+  constructor(
+    destinations: ExportDestination[],
+    options: DestinationExporterOptions,
+    states: Record<string, DestinationState> = {}
+  ) {
+    this.options = { ...options };
+    for (const destination of destinations) {
+      this.targets.set(destination.id, this.createTarget(destination, states[destination.id]));
+    }
+  }
+
+  /**
+   * Replace the destination list
+   * Destinations that keep their ID keep their pending data and running totals
+   */
+  setDestinations(destinations: ExportDestination[]): void {
+    const targets = new Map<string, DestinationTarget>();
+    for (const destination of destinations) {
+      const existing = this.targets.get(destination.id);
+      if (existing) {
+        existing.destination = { ...destination };
+        existing.exporter = this.createExporter(destination);
+        existing.aggregator.setTemporality(this.getTemporality(destination));
+        targets.set(destination.id, existing);
+      } else {
+        targets.set(destination.id, this.createTarget(destination));
+      }
+    }
+    this.targets = targets;
+  }
+
+  /**
+   * Update the machine ID on all destinations
+   */
+  setMachineId(machineId: string): void {
+    this.options.machineId = machineId;
+    for (const target of this.targets.values()) {
+      target.exporter.setMachineId(machineId);
+    }
+  }
+
+  /**
+   * Update the payload encoding and compression on all destinations
+   */
+  setTransport(encoding: OTLPEncoding, compression: OTLPCompression): void {
+    this.options.encoding = encoding;
+    this.options.compression = compression;
+    for (const target of this.targets.values()) {
+      if (target.exporter instanceof OTelExporter) {
+        target.exporter.setTransport(encoding, compression);
+      }
+    }
+  }
+
+  /**
+   * Update the counter temporality on all OTLP destinations
+   */
+  setTemporality(temporality: AggregationTemporality): void {
+    this.options.temporality = temporality;
+    for (const target of this.targets.values()) {
+      target.aggregator.setTemporality(this.getTemporality(target.destination));
+    }
+  }
+
+  /**
+   * Update histogram bucket boundaries on all destinations
+   */
+  setHistogramBoundaries(histogramBoundaries: Record<string, number[]>): void {
+    this.options.histogramBoundaries = histogramBoundaries;
+    for (const target of this.targets.values()) {
+      target.aggregator.setHistogramBoundaries(histogramBoundaries);
+    }
+  }
+
+  /**
+   * Update the outbox limits on all destinations (applied on the next queue)
+   */
+  setOutboxPolicy(outboxPolicy: OutboxPolicy): void {
+    this.options.outboxPolicy = { ...outboxPolicy };
+  }
+
+  /**
+   * Queue this cycle's metrics as one outbox batch for every enabled destination
+   * Called before export so the caller can persist the outboxes first (crash safety)
+   */
+  queueMetrics(metrics: MetricRecord[]): void {
+    for (const target of this.getEnabledTargets()) {
+      if (metrics.length > 0) {
+        target.state.outbox.push({
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+          bytes: JSON.stringify(metrics).length,
+          metrics,
+        });
+      }
+      this.enforceOutboxPolicy(target);
+    }
+  }
+
+  /**
+   * Export queued metrics to every enabled destination that is not backing off
+   * The outbox is sent oldest first, in requests of up to MAX_REQUEST_BYTES, until it
+   * is empty or a request fails. A request refused as too large (413) is split and
+   * sent again. Batches of a rejected request are dropped and the drain stops, so a
+   * payload the destination never accepts does not block newer batches on the next cycle.
+   */
+  async exportMetrics(): Promise<DestinationResult[]> {
+    const results = await Promise.all(
+      this.getEnabledTargets().map(async (target): Promise<DestinationResult | null> => {
+        const state = target.state;
+        if (state.outbox.length === 0) {
+          return null;
+        }
+        if (isBackingOff(state)) {
+          console.log(
+            '[vibe-tracker] Destination "' + target.destination.name + '" backing off until ' +
+              new Date(state.nextAttemptTime!).toISOString()
+          );
+          return null;
+        }
+
+        // Batches per request, halved while the destination answers 413
+        let maxBatches = Infinity;
+        while (state.outbox.length > 0) {
+          const batches = takeRequestBatches(state.outbox, maxBatches);
+          const batchIds = batches.map((batch) => batch.id);
+
+          // Raw metrics are re-aggregated on every attempt, so a failed export
+          // leaves the running totals untouched
+          const aggregated = target.aggregator.aggregate(batches.flatMap((batch) => batch.metrics));
+          state.lastAttemptTime = Date.now();
+          const result = await target.exporter.export(aggregated);
+
+          if (result === 'too_large') {
+            target.aggregator.discard();
+            if (batches.length > 1) {
+              maxBatches = Math.floor(batches.length / 2);
+              continue;
+            }
+            if (batches[0].metrics.length > 1) {
+              state.outbox.splice(0, 1, ...splitBatch(batches[0]));
+              continue;
+            }
+            // A single metric that is still too large can never be sent
+          }
+
+          if (result === 'rejected' || result === 'too_large') {
+            target.aggregator.discard();
+            const dropped = countOutboxMetrics(batches);
+            state.outbox = state.outbox.filter((batch) => !batchIds.includes(batch.id));
+            state.deadLetterCount += dropped;
+            console.warn(
+              '[vibe-tracker] Destination "' + target.destination.name + '" rejected batches ' +
+                batchIds.join(', ') + ', dropped ' + dropped + ' metrics'
+            );
+            return { id: target.destination.id, success: false };
+          }
+
+          if (result === 'failed') {
+            target.aggregator.discard();
+            state.consecutiveFailures++;
+            state.nextAttemptTime = Date.now() + getRetryBackoffMs(state.consecutiveFailures);
+            console.warn(
+              '[vibe-tracker] Export to destination "' + target.destination.name + '" failed (batches ' +
+                batchIds.join(', ') + '), ' + state.outbox.length + ' batches kept, next attempt at ' +
+                new Date(state.nextAttemptTime).toISOString()
+            );
+            return { id: target.destination.id, success: false };
+          }
+
+          target.aggregator.commit();
+          state.aggregationState = target.aggregator.getState();
+          state.outbox = state.outbox.filter((batch) => !batchIds.includes(batch.id));
+          state.consecutiveFailures = 0;
+          state.nextAttemptTime = null;
+          state.lastSuccessTime = Date.now();
+        }
+
+        return { id: target.destination.id, success: true };
+      })
+    );
+
+    return results.filter((result): result is DestinationResult => result !== null);
+  }
+
+  /**
+   * Export completed spans to every enabled OTLP destination
+   * Destinations backing off after failed metric exports keep them for later
+   */
+  async exportSpans(spans: SpanRecord[]): Promise<DestinationResult[]> {
+    const results = await Promise.all(
+      this.getEnabledTargets('otlp').map(async (target): Promise<DestinationResult | null> => {
+        const batch = [...target.pendingSpans, ...spans].slice(-MAX_PENDING_ITEMS);
+        if (batch.length === 0 || isBackingOff(target.state)) {
+          target.pendingSpans = batch;
+          return null;
+        }
+        // Rejected or oversized spans would fail again, so only failed ones are kept
+        const result = await (target.exporter as OTelExporter).exportSpans(batch);
+        target.pendingSpans = result === 'failed' ? batch : [];
+        if (result === 'failed') {
+          console.warn(
+            '[vibe-tracker] Trace export to destination "' + target.destination.name + '" failed, ' +
+              batch.length + ' spans kept for retry'
+          );
+        }
+        return { id: target.destination.id, success: result === 'success' };
+      })
+    );
+
+    return results.filter((result): result is DestinationResult => result !== null);
+  }
+
+  /**
+   * Export event log records to every enabled OTLP destination
+   * Destinations backing off after failed metric exports keep them for later
+   */
+  async exportLogs(records: LogRecord[]): Promise<DestinationResult[]> {
+    const results = await Promise.all(
+      this.getEnabledTargets('otlp').map(async (target): Promise<DestinationResult | null> => {
+        const batch = [...target.pendingLogs, ...records].slice(-MAX_PENDING_ITEMS);
+        if (batch.length === 0 || isBackingOff(target.state)) {
+          target.pendingLogs = batch;
+          return null;
+        }
+        // Rejected or oversized records would fail again, so only failed ones are kept
+        const result = await (target.exporter as OTelExporter).exportLogs(batch);
+        target.pendingLogs = result === 'failed' ? batch : [];
+        if (result === 'failed') {
+          console.warn(
+            '[vibe-tracker] Log export to destination "' + target.destination.name + '" failed, ' +
+              batch.length + ' records kept for retry'
+          );
+        }
+        return { id: target.destination.id, success: result === 'success' };
+      })
+    );
+
+    return results.filter((result): result is DestinationResult => result !== null);
+  }
+
+  /**
+   * Get the delivery state of all destinations (for persistence)
+   */
+  getStates(): Record<string, DestinationState> {
+    const states: Record<string, DestinationState> = {};
+    for (const [id, target] of this.targets) {
+      states[id] = target.state;
+    }
+    return states;
+  }
+
+  /**
+   * Total metrics waiting for delivery across destinations
+   */
+  getPendingMetricsCount(): number {
+    let count = 0;
+    for (const target of this.targets.values()) {
+      count += countOutboxMetrics(target.state.outbox);
+    }
+    return count;
+  }
+
+  /**
+   * Drop batches past the max age, then the oldest batches beyond the max size
+   */
+  private enforceOutboxPolicy(target: DestinationTarget): void {
+    const { maxAgeMs, maxBytes } = this.options.outboxPolicy;
+    const state = target.state;
+    const cutoff = Date.now() - maxAgeMs;
+
+    const expired = state.outbox.filter((batch) => batch.createdAt < cutoff);
+    const kept = state.outbox.filter((batch) => batch.createdAt >= cutoff);
+    let bytes = kept.reduce((total, batch) => total + batch.bytes, 0);
+    const evicted: OutboxBatch[] = [];
+    while (kept.length > 0 && bytes > maxBytes) {
+      const batch = kept.shift()!;
+      bytes -= batch.bytes;
+      evicted.push(batch);
+    }
+
+    const dropped = countOutboxMetrics(expired) + countOutboxMetrics(evicted);
+    if (dropped > 0) {
+      state.outbox = kept;
+      state.deadLetterCount += dropped;
+      console.warn(
+        '[vibe-tracker] Dropped ' + dropped + ' undelivered metrics for destination "' +
+          target.destination.name + '" (' + expired.length + ' batches past max age, ' +
+          evicted.length + ' over max size)'
+      );
+    }
+  }
+
+  /**
+   * Get enabled destinations with an endpoint, optionally only those using a protocol
+   */
+  private getEnabledTargets(protocol?: ExportProtocol): DestinationTarget[] {
+    return Array.from(this.targets.values()).filter(
+      (target) =>
+        target.destination.enabled &&
+        target.destination.endpoint.trim() !== '' &&
+        (protocol === undefined || target.destination.protocol === protocol)
+    );
+  }
+
+  /**
+   * Counter temporality for a destination
+   * Prometheus expects cumulative counters regardless of the configured temporality
+   */
+  private getTemporality(destination: ExportDestination): AggregationTemporality {
+    return destination.protocol === 'prometheus' ? 'cumulative' : this.options.temporality;
+  }
+
+  /**
+   * Build the runtime objects for a destination
+   */
+  private createTarget(destination: ExportDestination, state?: DestinationState): DestinationTarget {
+    const targetState = state ?? createDestinationState();
+    return {
+      destination: { ...destination },
+      exporter: this.createExporter(destination),
+      aggregator: new MetricAggregator(
+        this.getTemporality(destination),
+        targetState.aggregationState,
+        this.options.histogramBoundaries
+      ),
+      state: targetState,
+      pendingSpans: [],
+      pendingLogs: [],
+    };
+  }
+
+  /**
+   * Build the exporter for a destination's protocol
+   */
+  private createExporter(
+    destination: ExportDestination
+  ): OTelExporter | PrometheusRemoteWriteExporter {
+    if (destination.protocol === 'prometheus') {
+      return new PrometheusRemoteWriteExporter({
+        endpoint: destination.endpoint,
+        serviceName: this.options.serviceName,
+        machineId: this.options.machineId,
+        headers: buildOTLPHeaders(destination.headers, destination.auth),
+        maxAttempts: ATTEMPTS_PER_EXPORT,
+      });
+    }
+    return new OTelExporter({
+      endpoint: destination.endpoint,
+      serviceName: this.options.serviceName,
+      serviceVersion: this.options.serviceVersion,
+      machineId: this.options.machineId,
+      encoding: this.options.encoding,
+      compression: this.options.compression,
+      headers: buildOTLPHeaders(destination.headers, destination.auth),
+      maxAttempts: ATTEMPTS_PER_EXPORT,
+    });
+  }
+}
+
+/**
+ * Whether a destination is waiting out its retry backoff
+ */
+function isBackingOff(state: DestinationState): boolean {
+  return state.nextAttemptTime !== null && Date.now() < state.nextAttemptTime;
+}
+
+/**
+ * Take the oldest batches that fit in one request, up to maxBatches (always at least one)
+ */
+function takeRequestBatches(outbox: OutboxBatch[], maxBatches: number): OutboxBatch[] {
+  const batches = [outbox[0]];
+  let bytes = outbox[0].bytes;
+  for (const batch of outbox.slice(1)) {
+    if (batches.length >= maxBatches || bytes + batch.bytes > MAX_REQUEST_BYTES) {
+      break;
+    }
+    batches.push(batch);
+    bytes += batch.bytes;
+  }
+  return batches;
+}
+
+/**
+ * Split a batch into two halves with their own IDs, keeping its age
+ */
+function splitBatch(batch: OutboxBatch): OutboxBatch[] {
+  const middle = Math.ceil(batch.metrics.length / 2);
+  return [batch.metrics.slice(0, middle), batch.metrics.slice(middle)].map((metrics) => ({
+    id: crypto.randomUUID(),
+    createdAt: batch.createdAt,
+    bytes: JSON.stringify(metrics).length,
+    metrics,
+  }));
+}
+
+/**
+ * Count the metrics in a list of batches
+ */
+export function countOutboxMetrics(batches: OutboxBatch[]): number {
+  return batches.reduce((count, batch) => count + batch.metrics.length, 0);
+}
@@ -0,0 +1,206 @@
+/**
+ * Event Logger for vibe-kanban tracker
+ * Records discrete user events (interventions, sent messages, navigations) as
+ * structured log records for OTLP logs export, keeping the details that metrics drop
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import type { ProjectNameCache } from './project-name-cache';
+import { buildRouteAttributes, buildTaskEffortAttributes } from './metrics-collector';
+import type { TaskEffort } from './task-effort-ledger';
+
+/**
+ * Structured log record, ready for OTLP export
+ */
+export interface LogRecord {
+  eventName: string;
+  body: string;
+  // Time the event happened in the page
+  timestamp: number;
+  // Time the background script received it
+  observedTimestamp: number;
+  attributes: Record<string, string | number>;
+  // Session span active when the event happened (links the log to its trace)
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * Trace context to attach to a log record
+ */
+export interface LogSpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export class EventLogger {
+  private records: LogRecord[] = [];
+  private maxQueueSize: number = 1000;
+  private projectNameCache?: ProjectNameCache;
+
+  constructor(projectNameCache?: ProjectNameCache) {
+    this.projectNameCache = projectNameCache;
+  }
+
+  /**
+   * Record a human intervention (message sent to the agent)
+   */
+  logHumanIntervention(
+    route: ParsedRoute,
+    machineId: string,
+    timestamp: number,
+    triggerType: string,
+    buttonText?: string,
+    spanContext?: LogSpanContext | null
+  ): void {
+    const attributes = this.buildAttributes(route, machineId);
+    attributes.trigger_type = triggerType;
+    if (buttonText) {
+      attributes.button_text = buttonText;
+    }
+
+    this.addRecord(
+      {
+        eventName: 'vibe_kanban.human_intervention',
+        body: 'Human intervention via ' + triggerType + (buttonText ? ' (' + buttonText + ')' : ''),
+        timestamp,
+        observedTimestamp: Date.now(),
+        attributes,
+      },
+      spanContext
+    );
+  }
+
+  /**
+   * Record a submitted message
+   */
+  logMessageSent(
+    route: ParsedRoute,
+    machineId: string,
+    timestamp: number,
+    messageLength: number,
+    triggerType: string,
+    spanContext?: LogSpanContext | null
+  ): void {
+    const attributes = this.buildAttributes(route, machineId);
+    attributes.message_length = messageLength;
+    attributes.trigger_type = triggerType;
+
+    this.addRecord(
+      {
+        eventName: 'vibe_kanban.message_sent',
+        body: 'Message sent (' + messageLength + ' characters)',
+        timestamp,
+        observedTimestamp: Date.now(),
+        attributes,
+      },
+      spanContext
+    );
+  }
+
+  /**
+   * Record a route change, including where the user came from
+   */
+  logNavigation(
+    route: ParsedRoute,
+    machineId: string,
+    timestamp: number,
+    previousRoute?: ParsedRoute,
+    spanContext?: LogSpanContext | null
+  ): void {
+    const attributes = this.buildAttributes(route, machineId);
+    if (previousRoute) {
+      attributes.previous_route_type = previousRoute.type;
+      if (previousRoute.projectId) {
+        attributes.previous_project_id = previousRoute.projectId;
+      }
+      if (previousRoute.taskId) {
+        attributes.previous_task_id = previousRoute.taskId;
+      }
+      if (previousRoute.view) {
+        attributes.previous_view = previousRoute.view;
+      }
+    }
+
+    this.addRecord(
+      {
+        eventName: 'vibe_kanban.navigation',
+        body:
+          'Navigated ' +
+          (previousRoute ? 'from ' + previousRoute.type + ' ' : '') +
+          'to ' +
+          route.type +
+          (route.view ? ' (' + route.view + ')' : ''),
+        timestamp,
+        observedTimestamp: Date.now(),
+        attributes,
+      },
+      spanContext
+    );
+  }
+
+  /**
+   * Record the effort summary of a task that reached done or cancelled
+   */
+  logTaskEffort(effort: TaskEffort, status: 'done' | 'cancelled', machineId: string): void {
+    const attributes = buildTaskEffortAttributes(effort, machineId, this.projectNameCache);
+    attributes.status = status;
+    attributes.active_time_ms = effort.activeTimeMs;
+    attributes.messages_sent = effort.messagesSent;
+    attributes.characters_typed = effort.charactersTyped;
+    attributes.view_time_ms = effort.viewTimeMs;
+    attributes.interventions = effort.interventions;
+    attributes.first_activity_time = new Date(effort.firstActivityAt).toISOString();
+
+    this.addRecord({
+      eventName: 'vibe_kanban.task_effort',
+      body:
+        'Task ' + effort.taskId + ' ' + status + ' after ' + Math.round(effort.activeTimeMs / 60000) +
+        ' min active time, ' + effort.messagesSent + ' messages sent',
+      timestamp: Date.now(),
+      observedTimestamp: Date.now(),
+      attributes,
+    });
+  }
+
+  /**
+   * Get all queued records and clear the queue
+   */
+  flush(): LogRecord[] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+
+  /**
+   * Restore records (e.g., after failed export)
+   */
+  restore(records: LogRecord[]): void {
+    // Prepend restored records, respecting max queue size
+    const combined = [...records, ...this.records];
+    this.records = combined.slice(-this.maxQueueSize);
+  }
+
+  /**
+   * Build route attributes for a record
+   */
+  private buildAttributes(route: ParsedRoute, machineId: string): Record<string, string | number> {
+    return buildRouteAttributes(route, machineId, this.projectNameCache);
+  }
+
+  /**
+   * Add a record to the queue, enforcing max size
+   */
+  private addRecord(record: LogRecord, spanContext?: LogSpanContext | null): void {
+    if (spanContext) {
+      record.traceId = spanContext.traceId;
+      record.spanId = spanContext.spanId;
+    }
+    this.records.push(record);
+
+    // Trim if exceeding max queue size (FIFO - remove oldest)
+    if (this.records.length > this.maxQueueSize) {
+      this.records = this.records.slice(-this.maxQueueSize);
+    }
+  }
+}
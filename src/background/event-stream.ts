@@ -0,0 +1,236 @@
+/**
+ * Server-sent event stream for vibe-kanban tracker
+ * Reads a text/event-stream response with fetch (rather than EventSource, so the
+ * connection state and HTTP status are visible) and reconnects with backoff when
+ * the stream drops. Streams are long-lived, so they bypass the request scheduler.
+ */
+
+/**
+ * One dispatched server-sent event
+ */
+export interface ServerSentEvent {
+  // Event type ('message' when the server sends none)
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Connection state:
+ * - connecting: connecting, or waiting to reconnect after the stream dropped
+ * - open: receiving events
+ * - unavailable: the server answered without an event stream (e.g. older vibe-kanban); retried slowly
+ * - stopped: closed by the caller
+ */
+export type EventStreamState = 'connecting' | 'open' | 'unavailable' | 'stopped';
+
+export interface EventStreamHandlers {
+  onEvent: (event: ServerSentEvent) => void;
+  onStateChange?: (state: EventStreamState) => void;
+}
+
+export interface EventStreamRetry {
+  // First reconnect delay after a drop, doubled on each failed attempt
+  minDelayMs: number;
+  // Longest reconnect delay, also used to re-check servers without a stream
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: EventStreamRetry = { minDelayMs: 1000, maxDelayMs: 60000 };
+
+/**
+ * Incremental text/event-stream parser: feed decoded chunks, get complete events
+ */
+export class ServerSentEventParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  /**
+   * Parse a chunk, returning the events completed by it
+   */
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    // The last piece is an incomplete line (or empty after a trailing newline)
+    this.buffer = lines.pop() ?? '';
+
+    const events: ServerSentEvent[] = [];
+    for (const rawLine of lines) {
+      const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+      if (line === '') {
+        const event = this.dispatch();
+        if (event) {
+          events.push(event);
+        }
+        continue;
+      }
+      if (line.startsWith(':')) {
+        continue; // Comment (keep-alive)
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      switch (field) {
+        case 'event':
+          this.eventType = value;
+          break;
+        case 'data':
+          this.dataLines.push(value);
+          break;
+        case 'id':
+          this.lastEventId = value;
+          break;
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Complete the pending event at a blank line; events without data are dropped
+   */
+  private dispatch(): ServerSentEvent | null {
+    const event =
+      this.dataLines.length > 0
+        ? { event: this.eventType || 'message', data: this.dataLines.join('\n'), id: this.lastEventId }
+        : null;
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
+
+/**
+ * Reconnecting server-sent event stream
+ */
+export class EventStream {
+  private url: string;
+  private handlers: EventStreamHandlers;
+  private retry: EventStreamRetry;
+  private state: EventStreamState = 'stopped';
+  private controller: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelayMs: number;
+
+  constructor(url: string, handlers: EventStreamHandlers, retry: EventStreamRetry = DEFAULT_RETRY) {
+    this.url = url;
+    this.handlers = handlers;
+    this.retry = retry;
+    this.retryDelayMs = retry.minDelayMs;
+  }
+
+  /**
+   * Connect (no-op if already started)
+   */
+  start(): void {
+    if (this.state !== 'stopped') {
+      return;
+    }
+    this.connect();
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  stop(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.setState('stopped');
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  /**
+   * Get the connection state
+   */
+  getState(): EventStreamState {
+    return this.state;
+  }
+
+  /**
+   * Open the stream and read events until it ends, then schedule a reconnect
+   */
+  private async connect(): Promise<void> {
+    this.reconnectTimer = null;
+    this.setState('connecting');
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'text/event-stream',
+        },
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+        console.log('[vibe-tracker] No event stream at ' + this.url + ' (HTTP ' + response.status + ')');
+        controller.abort();
+        if (this.controller === controller) {
+          this.setState('unavailable');
+          this.scheduleReconnect(this.retry.maxDelayMs);
+        }
+        return;
+      }
+
+      this.setState('open');
+      this.retryDelayMs = this.retry.minDelayMs;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = new ServerSentEventParser();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done || this.controller !== controller) {
+          break;
+        }
+        for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+          this.handlers.onEvent(event);
+        }
+      }
+    } catch (error) {
+      if (this.controller === controller) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.log('[vibe-tracker] Event stream ' + this.url + ' failed:', message);
+      }
+    }
+
+    // Stopped (or replaced) while reading: nothing to reconnect
+    if (this.controller !== controller) {
+      return;
+    }
+    this.setState('connecting');
+    this.scheduleReconnect(this.retryDelayMs);
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, this.retry.maxDelayMs);
+  }
+
+  /**
+   * Reconnect after a delay
+   */
+  private scheduleReconnect(delayMs: number): void {
+    this.reconnectTimer = setTimeout(() => this.connect(), delayMs);
+  }
+
+  /**
+   * Update the state and notify the handler on change
+   */
+  private setState(state: EventStreamState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.handlers.onStateChange?.(state);
+  }
+}
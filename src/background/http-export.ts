@@ -0,0 +1,115 @@
+/**
+ * Shared HTTP delivery for telemetry exporters
+ * POSTs an encoded request body with retries and exponential backoff
+ */
+
+// Retry configuration
+const DEFAULT_MAX_ATTEMPTS = 3;
+const INITIAL_BACKOFF_MS = 1000;
+
+// Per-attempt request timeout, below the export interval so a hung collector
+// fails the attempt instead of stalling the export cycle
+const REQUEST_TIMEOUT_MS = 20 * 1000;
+
+/**
+ * Outcome of a POST
+ * 'failed' may succeed later (network errors, 5xx, 429, auth or path errors); 'rejected'
+ * is a payload the destination refused (400, 422) and would refuse again; 'too_large'
+ * (413) may succeed when the payload is split.
+ */
+export type ExportResult = 'success' | 'failed' | 'rejected' | 'too_large';
+
+// Statuses that reject the payload itself, so resending it cannot succeed
+const REJECTED_STATUSES = [400, 422];
+
+// Statuses worth retrying within one call; other client errors (401, 403, 404, ...)
+// need a configuration fix, so they fail at once and are retried on later cycles
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+/**
+ * POST a request body with retry logic
+ * Client errors other than 408 and 429 are not retried within the call; attempts that
+ * take longer than REQUEST_TIMEOUT_MS are aborted and count as failed.
+ * describePayload is only called to log the payload of a client error.
+ */
+export async function postWithRetry(
+  url: string,
+  body: string | Uint8Array<ArrayBuffer>,
+  headers: Record<string, string>,
+  description: string,
+  describePayload?: () => string,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<ExportResult> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      // fetch rejects with the abort reason, so this is the error logged below
+      controller.abort(new Error('Request timed out after ' + REQUEST_TIMEOUT_MS + ' ms'));
+    }, REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        console.log('[vibe-tracker] Exported ' + description + ' successfully');
+        return 'success';
+      }
+
+      // Client errors that retrying within this call would not fix
+      if (
+        response.status >= 400 &&
+        response.status < 500 &&
+        !RETRYABLE_CLIENT_STATUSES.includes(response.status)
+      ) {
+        const responseText = await response.text();
+        console.error(
+          '[vibe-tracker] Export failed with status ' + response.status + ', response:',
+          responseText
+        );
+        if (describePayload) {
+          console.error('[vibe-tracker] Payload was:', describePayload().substring(0, 2000));
+        }
+        if (response.status === 413) {
+          return 'too_large';
+        }
+        return REJECTED_STATUSES.includes(response.status) ? 'rejected' : 'failed';
+      }
+
+      lastError = new Error('HTTP ' + response.status + ': ' + response.statusText);
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.warn(
+        '[vibe-tracker] Export attempt ' + (attempt + 1) + '/' + maxAttempts + ' failed:',
+        lastError.message
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // Exponential backoff: 1s, 2s, 4s
+    if (attempt < maxAttempts - 1) {
+      const backoffMs = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
+      await sleep(backoffMs);
+    }
+  }
+
+  console.error(
+    '[vibe-tracker] Export failed after ' + maxAttempts + ' attempts:',
+    lastError?.message
+  );
+  return 'failed';
+}
+
+/**
+ * Sleep helper for backoff
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
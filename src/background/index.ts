@@ -4,16 +4,59 @@
  */
 
 import browser from 'webextension-polyfill';
-import { StateMachine, type ActivityState, type StateContext } from './state-machine';
-import { MetricsCollector } from './metrics-collector';
-import { OTelExporter } from './otel-exporter';
-import { StorageManager } from './storage-manager';
-import { VibeKanbanApiClient } from './api-client';
+import type { ActivityState, ActivitySubState, StateContext, SystemIdleState } from './state-machine';
+import { TabActivityTracker } from './tab-activity-tracker';
+import { ActivityAccountant } from './activity-accountant';
+import { MetricsCollector, type MetricRecord } from './metrics-collector';
+import { SessionTracer } from './session-tracer';
+import { EventLogger } from './event-logger';
+import {
+  DestinationExporter,
+  countOutboxMetrics,
+  type ExportDestination,
+} from './destination-exporter';
+import { encodeOTLPMetricsRequest, buildOTLPHeaders } from './otel-exporter';
+import { encodeRemoteWriteRequest, REMOTE_WRITE_HEADERS } from './prometheus-exporter';
+import { snappyCompress } from './snappy';
+import { MetricArchive, formatArchive, type ArchiveFormat } from './metric-archive';
+import { SessionTimeline, type TimelineEntry, type TimelineEntryKind } from './session-timeline';
+import { StorageManager, type StoredConfig } from './storage-manager';
+import { describeApiError, type ApiError } from './api-client';
+import { CompatibilityLog } from './api-validation';
+import {
+  InstanceRegistry,
+  getContentScriptMatches,
+  getInstanceName,
+  getOrigin,
+  type VibeKanbanInstance,
+} from './instance-registry';
+import { RequestScheduler, type RequestSchedulerStats } from './request-scheduler';
 import { ProjectNameCache } from './project-name-cache';
+import {
+  TaskSnapshotStore,
+  isActiveTask,
+  type InstanceSnapshot,
+  type TaskStreamStats,
+} from './task-snapshot-store';
 import { ApiMetricsCollector } from './api-metrics-collector';
-import { EXPORT_INTERVAL_MS } from '../shared/constants';
-import type { ContentMessage, ScrollMessage, HumanInterventionMessage, TypingMessage, MessageSentMessage } from '../shared/types';
-import type { GetActiveTasksMessage, ActiveTasksResponse, ActiveTaskItem, ActiveTaskStatus } from '../shared/sidebar-messages';
+import { TaskEffortLedger } from './task-effort-ledger';
+import {
+  EXPORT_INTERVAL_MS,
+  TASK_SNAPSHOT_INTERVAL_MS,
+  ATTEMPT_COUNT_BUCKETS,
+  MIN_SYSTEM_IDLE_THRESHOLD_MS,
+  ACTIVITY_HEARTBEAT_INTERVAL_MS,
+} from '../shared/constants';
+import type { ParsedRoute } from '../content/url-parser';
+import type { ContentMessage, ScrollMessage, NavigationMessage, HumanInterventionMessage, TypingMessage, MessageSentMessage } from '../shared/types';
+import {
+  ACTIVE_TASKS_PORT_NAME,
+  type GetActiveTasksMessage,
+  type ActiveTasksResponse,
+  type ActiveTaskItem,
+  type ActiveTaskStatus,
+  type ActiveTasksUpdatedMessage,
+} from '../shared/sidebar-messages';
 
 console.log('[vibe-tracker] Background script loaded');
 
@@ -21,12 +64,21 @@ console.log('[vibe-tracker] Background script loaded');
 const storageManager = new StorageManager();
 
 // These will be initialized after storage loads
-let stateMachine: StateMachine;
+let activityTracker: TabActivityTracker;
+let activityAccountant: ActivityAccountant;
 let metricsCollector: MetricsCollector;
-let otelExporter: OTelExporter;
+let sessionTracer: SessionTracer;
+let eventLogger: EventLogger;
+let destinationExporter: DestinationExporter;
+let metricArchive: MetricArchive;
+let sessionTimeline: SessionTimeline;
 let projectNameCache: ProjectNameCache;
-let apiClient: VibeKanbanApiClient;
+let requestScheduler: RequestScheduler;
+let instanceRegistry: InstanceRegistry;
+let taskSnapshotStore: TaskSnapshotStore;
+let compatibilityLog: CompatibilityLog;
 let apiMetricsCollector: ApiMetricsCollector;
+let taskEffortLedger: TaskEffortLedger;
 let machineId = 'unknown-machine';
 let isInitialized = false;
 
@@ -41,8 +93,8 @@ async function initialize(): Promise<void> {
 
     machineId = config.machineId;
 
-    // Initialize state machine with persisted idle timeout
-    stateMachine = new StateMachine(config.idleTimeoutMs);
+    // Initialize per-tab activity state machines with persisted idle timeout
+    activityTracker = new TabActivityTracker(config.idleTimeoutMs);
 
     // Initialize project name cache (shared between collectors)
     projectNameCache = new ProjectNameCache();
@@ -50,33 +102,132 @@ async function initialize(): Promise<void> {
     // Initialize metrics collector with project name cache
     metricsCollector = new MetricsCollector(projectNameCache);
 
-    // Initialize API client and API metrics collector
-    apiClient = new VibeKanbanApiClient();
-    apiMetricsCollector = new ApiMetricsCollector(apiClient, projectNameCache);
+    // Initialize session tracing (spans for active periods)
+    sessionTracer = new SessionTracer(projectNameCache);
 
-    // Restore pending metrics from storage
-    const pendingMetrics = storageManager.getPendingMetrics();
-    if (pendingMetrics.length > 0) {
-      metricsCollector.restore(pendingMetrics);
-      console.log('[vibe-tracker] Restored ' + pendingMetrics.length + ' pending metrics');
-    }
+    // Initialize event logging (structured records for discrete user events)
+    eventLogger = new EventLogger(projectNameCache);
 
-    // Initialize OTel exporter with persisted config
-    otelExporter = new OTelExporter({
-      endpoint: config.otelEndpoint,
-      serviceName: 'vibe-kanban-tracker',
-      serviceVersion: '1.0.0',
-      machineId: config.machineId,
+    // Initialize API clients (one per vibe-kanban instance, sharing one request scheduler),
+    // the task snapshot they refresh (read by the sidebar and API metrics collector)
+    // and API metrics collector
+    requestScheduler = new RequestScheduler(config.apiRequests);
+    instanceRegistry = new InstanceRegistry(config.instances, requestScheduler);
+    instanceRegistry.setOnError((error, instance) => {
+      metricsCollector.recordApiError(error.endpoint, error.kind, machineId, getInstanceName(instance));
+    });
+    compatibilityLog = new CompatibilityLog();
+    instanceRegistry.setOnValidationIssue((issue, instance) => {
+      const instanceName = getInstanceName(instance);
+      metricsCollector.recordValidationFailure(
+        issue.endpoint,
+        issue.field,
+        issue.count,
+        issue.dropped,
+        machineId,
+        instanceName
+      );
+      compatibilityLog.record(instanceName, issue);
+    });
+    taskSnapshotStore = new TaskSnapshotStore(instanceRegistry, projectNameCache);
+    apiMetricsCollector = new ApiMetricsCollector(
+      taskSnapshotStore,
+      config.staleThresholds,
+      storageManager.getTaskFlowState()
+    );
+
+    // Initialize per-task effort ledger (summarized when a task reaches done or cancelled)
+    taskEffortLedger = new TaskEffortLedger(storageManager.getTaskEfforts());
+
+    // Initialize activity time accounting (per tab, state and route), first reporting the
+    // time the previous run tracked after its last checkpoint, up to its last heartbeat
+    activityAccountant = new ActivityAccountant();
+    activityAccountant.setOnSegment((state, durationMs, route) => {
+      metricsCollector.recordStateTimeTotal(state, durationMs, route, machineId);
+      if (state === 'active') {
+        taskEffortLedger.record(route, { activeTimeMs: durationMs });
+      }
+    });
+    activityAccountant.setOnSegmentEnd((state, durationMs, route) => {
+      metricsCollector.recordStateTime(state, durationMs, route, machineId);
+    });
+    const heartbeat = await storageManager.loadActivityHeartbeat();
+    if (heartbeat) {
+      activityAccountant.recover(heartbeat.segments, heartbeat.savedAt);
+    }
+    await storageManager.saveActivityHeartbeat({});
+    apiMetricsCollector.setOnTransition((transition, instance) => {
+      if (transition.to !== 'done' && transition.to !== 'cancelled') {
+        return;
+      }
+      // Report open activity first, so the summary includes the task's latest active time
+      activityAccountant.checkpoint();
+      const effort = taskEffortLedger.complete(getInstanceName(instance), transition.task.id);
+      if (effort) {
+        metricsCollector.recordTaskEffort(effort, transition.to, machineId);
+        eventLogger.logTaskEffort(effort, transition.to, machineId);
+      }
     });
+    activityTracker.setAgentRunningCheck(
+      (route) => !!route.instance && !!route.taskId && taskSnapshotStore.hasRunningAttempt(route.instance, route.taskId)
+    );
+    taskSnapshotStore.setOnChange(() => {
+      scheduleActiveTasksPush();
+      activityTracker.refreshAgentStatus();
+      if (apiMetricsCollector.observeTransitions(machineId)) {
+        saveTaskTracking().catch((error) => {
+          console.warn('[vibe-tracker] Failed to save task tracking state:', error instanceof Error ? error.message : 'Unknown error');
+        });
+      }
+    });
+    await registerInstanceContentScripts(config.instances);
+
+    // Initialize export destinations with persisted pending metrics and running totals
+    destinationExporter = new DestinationExporter(
+      config.destinations,
+      {
+        serviceName: 'vibe-kanban-tracker',
+        serviceVersion: '1.0.0',
+        machineId: config.machineId,
+        encoding: config.otelEncoding,
+        compression: config.otelCompression,
+        temporality: config.counterTemporality,
+        histogramBoundaries: getHistogramBoundaries(config),
+        outboxPolicy: config.outboxPolicy,
+      },
+      storageManager.getDestinationStates()
+    );
+
+    // Initialize local archive (IndexedDB history of everything handed to the exporters)
+    metricArchive = new MetricArchive(config.archive.retentionDays);
+
+    // Initialize session timeline (IndexedDB log of tab states and events for the options page)
+    sessionTimeline = new SessionTimeline(config.timelineRetentionDays);
+    sessionTimeline.record({ timestamp: Date.now(), tabId: -1, kind: 'startup' });
+
+    const pendingMetricsCount = destinationExporter.getPendingMetricsCount();
+    if (pendingMetricsCount > 0) {
+      console.log('[vibe-tracker] Restored ' + pendingMetricsCount + ' pending metrics');
+    }
 
     // Set up state change callback
     setupStateChangeCallback();
 
-    // Start idle check interval
-    stateMachine.startIdleCheck();
+    // Start idle check interval and browser idle detection
+    activityTracker.startIdleCheck();
+    applySystemIdleThreshold(config.systemIdleThresholdMs).catch((error) => {
+      console.warn('[vibe-tracker] Browser idle detection unavailable:', error instanceof Error ? error.message : 'Unknown error');
+    });
 
     // Start export interval
-    setInterval(exportMetrics, EXPORT_INTERVAL_MS);
+    setInterval(exportTelemetry, EXPORT_INTERVAL_MS);
+
+    // Start activity heartbeat (bounds the activity time lost on a crash)
+    setInterval(saveActivityHeartbeat, ACTIVITY_HEARTBEAT_INTERVAL_MS);
+
+    // Start task snapshot refresh interval (first refresh right away)
+    taskSnapshotStore.refresh();
+    setInterval(() => taskSnapshotStore.refresh(), TASK_SNAPSHOT_INTERVAL_MS);
 
     isInitialized = true;
     console.log('[vibe-tracker] Initialization complete, machineId: ' + machineId);
@@ -85,61 +236,184 @@ async function initialize(): Promise<void> {
   }
 }
 
-// Track active time for duration calculations
-let activeStateStartTime: number | null = null;
-let currentViewStartTime: number | null = null;
-let currentView: 'diffs' | 'preview' | null = null;
+/**
+ * Map configured bucket boundaries to histogram metric names
+ */
+function getHistogramBoundaries(config: StoredConfig): Record<string, number[]> {
+  return {
+    'vibe_kanban.active_time.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.idle_time.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.unfocused_time.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.locked_time.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.view.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.waiting_on_agent.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.reviewing.duration_ms': config.histogramBoundaries.durationMs,
+    'vibe_kanban.message_sent.length': config.histogramBoundaries.messageLength,
+    'vibe_kanban.tasks.time_in_status_hours': config.histogramBoundaries.flowHours,
+    'vibe_kanban.tasks.lead_time_hours': config.histogramBoundaries.flowHours,
+    'vibe_kanban.tasks.cycle_time_hours': config.histogramBoundaries.flowHours,
+    'vibe_kanban.tasks.attempts_until_done': ATTEMPT_COUNT_BUCKETS,
+    'vibe_kanban.attempts.duration_ms': config.histogramBoundaries.durationMs,
+  };
+}
+
+// Track diffs/preview views per tab for duration calculations
+const currentViews = new Map<number, { view: 'diffs' | 'preview'; startTime: number }>();
+// Sub-state periods per tab, with the route they started on
+const currentSubStates = new Map<number, { subState: ActivitySubState; startTime: number; route: ParsedRoute | null }>();
 
 /**
- * Set up state change callback for debugging and metrics collection
+ * Set up state change callbacks for debugging and metrics collection
+ * Durations are attributed to the route of the tab whose state changed.
  */
 function setupStateChangeCallback(): void {
-  stateMachine.setOnStateChange(
-    (prev: ActivityState, next: ActivityState, context: StateContext) => {
+  activityTracker.setOnCombinedStateChange((prev: ActivityState, next: ActivityState) => {
+    console.log('[vibe-tracker] Combined state change:', { from: prev, to: next });
+  });
+
+  activityTracker.setOnTabSubStateChange(
+    (tabId: number, prev: ActivitySubState | null, next: ActivitySubState | null, context: StateContext) => {
+      console.log('[vibe-tracker] Sub-state change:', { tabId, from: prev, to: next });
+
+      // Record the ended sub-state period (waiting on agent or reviewing)
+      const current = currentSubStates.get(tabId);
+      if (current?.route) {
+        metricsCollector.recordSubStateTime(current.subState, Date.now() - current.startTime, current.route, machineId);
+      }
+      currentSubStates.delete(tabId);
+
+      if (next) {
+        currentSubStates.set(tabId, { subState: next, startTime: Date.now(), route: context.currentRoute });
+      }
+    }
+  );
+
+  activityTracker.setOnTabStateChange(
+    (tabId: number, prev: ActivityState, next: ActivityState, context: StateContext) => {
       console.log('[vibe-tracker] State change:', {
+        tabId,
         from: prev,
         to: next,
         route: context.currentRoute?.type,
         timestamp: new Date(context.lastStateChangeTime).toISOString(),
       });
 
-      // Record active time when leaving active state
-      if (prev === 'active' && activeStateStartTime !== null) {
-        const durationMs = Date.now() - activeStateStartTime;
-        console.log('[vibe-tracker] Recording active time:', { durationMs, hasRoute: !!context.currentRoute, routeType: context.currentRoute?.type });
-        if (context.currentRoute) {
-          metricsCollector.recordActiveTime(durationMs, context.currentRoute, machineId);
-        } else {
-          console.warn('[vibe-tracker] No currentRoute, skipping active time metric');
-        }
-        activeStateStartTime = null;
-      }
+      // Record the time spent in the previous state and start timing the next one
+      activityAccountant.update(tabId, next, context.currentRoute);
+      recordTimeline(tabId, 'state', context.currentRoute, next);
 
-      // Start tracking active time when entering active state
+      // Each active period is exported as one trace
+      if (prev === 'active') {
+        sessionTracer.endSession();
+      }
       if (next === 'active') {
-        activeStateStartTime = Date.now();
+        sessionTracer.startSession(context.currentRoute, machineId);
       }
 
       // Record view duration when state changes
-      if (currentViewStartTime !== null && currentView !== null && context.currentRoute) {
-        const viewDurationMs = Date.now() - currentViewStartTime;
-        metricsCollector.recordViewDuration(currentView, viewDurationMs, context.currentRoute, machineId);
-        currentViewStartTime = null;
-        currentView = null;
+      const currentView = currentViews.get(tabId);
+      if (currentView && context.currentRoute) {
+        const viewDurationMs = Date.now() - currentView.startTime;
+        metricsCollector.recordViewDuration(currentView.view, viewDurationMs, context.currentRoute, machineId);
+        taskEffortLedger.record(context.currentRoute, { viewTimeMs: viewDurationMs });
+        currentViews.delete(tabId);
       }
     }
   );
 }
 
+/**
+ * Check whether a tab is the active one (the tab whose session the tracer records)
+ */
+function isActiveTab(tabId: number): boolean {
+  return activityTracker.getTabState(tabId)?.currentState === 'active';
+}
+
+/**
+ * Get the current session span context for events of a tab
+ * Events of background tabs are not part of the active tab's session.
+ */
+function getTabSpanContext(tabId: number): { traceId: string; spanId: string } | null {
+  return isActiveTab(tabId) ? sessionTracer.getSpanContext() : null;
+}
+
+/**
+ * Add a tab event to the session timeline, with the title of the route's task if known
+ */
+function recordTimeline(tabId: number, kind: TimelineEntryKind, route: ParsedRoute | null, state?: ActivityState): void {
+  const taskTitle =
+    route?.instance && route.taskId ? taskSnapshotStore.findTask(route.instance, route.taskId)?.task.title : undefined;
+  sessionTimeline.record({ timestamp: Date.now(), tabId, kind, state, route, taskTitle });
+}
+
+/**
+ * Set the browser idle API threshold and pass the current browser idle state to the tabs
+ */
+async function applySystemIdleThreshold(thresholdMs: number): Promise<void> {
+  const seconds = Math.round(Math.max(thresholdMs, MIN_SYSTEM_IDLE_THRESHOLD_MS) / 1000);
+  browser.idle.setDetectionInterval(seconds);
+  activityTracker.setSystemState(await browser.idle.queryState(seconds));
+}
+
+// How far before a requested range the timeline is read, to find each tab's state at its start
+const TIMELINE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
 // Options page message types
 interface OptionsMessage {
-  type: 'GET_CONFIG' | 'SAVE_CONFIG' | 'TEST_CONNECTION' | 'GET_DEBUG_INFO';
-  config?: Partial<{
-    machineId: string;
-    idleTimeoutMs: number;
-    otelEndpoint: string;
-    enabled: boolean;
-  }>;
+  type: 'GET_CONFIG' | 'SAVE_CONFIG' | 'TEST_CONNECTION' | 'GET_DEBUG_INFO' | 'EXPORT_ARCHIVE' | 'GET_TIMELINE';
+  config?: Partial<StoredConfig>;
+  destinationId?: string;
+  // EXPORT_ARCHIVE, GET_TIMELINE: inclusive time range (ms since epoch)
+  // EXPORT_ARCHIVE: download format
+  from?: number;
+  to?: number;
+  format?: ArchiveFormat;
+}
+
+// Per-destination delivery status shown in debug info
+interface DestinationStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  pendingBatches: number;
+  pendingMetricsCount: number;
+  pendingBytes: number;
+  oldestBatchTime: number | null;
+  consecutiveFailures: number;
+  nextAttemptTime: number | null;
+  deadLetterCount: number;
+  lastAttemptTime: number | null;
+  lastSuccessTime: number | null;
+}
+
+const MASKED_VALUE = '********';
+
+/**
+ * Mask secrets (auth credentials, custom header values) in a config copy
+ * Used for GET_DEBUG_INFO output, which users may paste into bug reports. Every custom
+ * header value is masked: any header name can carry a credential.
+ */
+function maskConfigSecrets(config: StoredConfig): StoredConfig {
+  return { ...config, destinations: config.destinations.map(maskDestinationSecrets) };
+}
+
+/**
+ * Mask auth credentials and sensitive header values of one destination
+ */
+function maskDestinationSecrets(destination: ExportDestination): ExportDestination {
+  const headers: Record<string, string> = {};
+  for (const name of Object.keys(destination.headers)) {
+    headers[name] = MASKED_VALUE;
+  }
+
+  let auth = destination.auth;
+  if (auth.type === 'bearer') {
+    auth = { ...auth, token: MASKED_VALUE };
+  } else if (auth.type === 'basic') {
+    auth = { ...auth, password: MASKED_VALUE };
+  }
+
+  return { ...destination, headers, auth };
 }
 
 /**
@@ -177,7 +451,67 @@ async function handleSaveConfig(
     // Update runtime state if machineId changed
     if (config.machineId) {
       machineId = config.machineId;
-      otelExporter.setMachineId(config.machineId);
+      destinationExporter.setMachineId(config.machineId);
+    }
+
+    // Update exporter transport if encoding or compression changed
+    if (config.otelEncoding || config.otelCompression) {
+      const updatedConfig = storageManager.getConfig();
+      destinationExporter.setTransport(updatedConfig.otelEncoding, updatedConfig.otelCompression);
+    }
+
+    // Update counter temporality if changed
+    if (config.counterTemporality) {
+      destinationExporter.setTemporality(config.counterTemporality);
+    }
+
+    // Update histogram buckets if changed
+    if (config.histogramBoundaries) {
+      destinationExporter.setHistogramBoundaries(getHistogramBoundaries(storageManager.getConfig()));
+    }
+
+    // Update destinations (endpoints, headers, auth, enabled) if changed
+    if (config.destinations) {
+      destinationExporter.setDestinations(config.destinations);
+      await storageManager.saveDestinationStates(destinationExporter.getStates());
+    }
+
+    // Update outbox limits if changed
+    if (config.outboxPolicy) {
+      destinationExporter.setOutboxPolicy(config.outboxPolicy);
+    }
+
+    // Update archive retention if changed
+    if (config.archive) {
+      metricArchive.setRetentionDays(config.archive.retentionDays);
+    }
+
+    // Update timeline retention if changed
+    if (config.timelineRetentionDays) {
+      sessionTimeline.setRetentionDays(config.timelineRetentionDays);
+    }
+
+    // Update browser idle threshold if changed
+    if (config.systemIdleThresholdMs) {
+      await applySystemIdleThreshold(config.systemIdleThresholdMs);
+    }
+
+    // Update API request concurrency and timeout if changed
+    if (config.apiRequests) {
+      requestScheduler.setLimits(config.apiRequests);
+    }
+
+    // Update staleness thresholds if changed (open sidebars show the new stale markers)
+    if (config.staleThresholds) {
+      apiMetricsCollector.setStaleThresholds(config.staleThresholds);
+      scheduleActiveTasksPush();
+    }
+
+    // Update vibe-kanban instances (API clients and content script hosts) if changed
+    if (config.instances) {
+      instanceRegistry.setInstances(config.instances);
+      await registerInstanceContentScripts(config.instances);
+      taskSnapshotStore.refresh();
     }
 
     console.log('[vibe-tracker] Config updated from options:', Object.keys(config));
@@ -188,10 +522,47 @@ async function handleSaveConfig(
   }
 }
 
+// ID of the dynamically registered content script for configured instances
+const INSTANCE_CONTENT_SCRIPT_ID = 'vibe-kanban-instances';
+
+/**
+ * Register the content script on configured instance hosts the manifest does not cover
+ * Failures are logged: tracking still works on the manifest's default hosts
+ */
+async function registerInstanceContentScripts(instances: VibeKanbanInstance[]): Promise<void> {
+  try {
+    const registered = await browser.scripting.getRegisteredContentScripts({
+      ids: [INSTANCE_CONTENT_SCRIPT_ID],
+    });
+    if (registered.length > 0) {
+      await browser.scripting.unregisterContentScripts({ ids: [INSTANCE_CONTENT_SCRIPT_ID] });
+    }
+
+    const matches = getContentScriptMatches(instances);
+    if (matches.length === 0) {
+      return;
+    }
+    await browser.scripting.registerContentScripts([
+      {
+        id: INSTANCE_CONTENT_SCRIPT_ID,
+        matches,
+        js: ['content/index.js'],
+        runAt: 'document_idle',
+        persistAcrossSessions: false,
+      },
+    ]);
+    console.log('[vibe-tracker] Registered content script for ' + matches.join(', '));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('[vibe-tracker] Failed to register content script for instances:', message);
+  }
+}
+
 /**
  * Handle TEST_CONNECTION message from options page
+ * Tests the given destination, or the first enabled one
  */
-async function handleTestConnection(): Promise<{
+async function handleTestConnection(destinationId?: string): Promise<{
   success: boolean;
   error?: string;
 }> {
@@ -199,17 +570,37 @@ async function handleTestConnection(): Promise<{
     // Ensure storage is loaded before getting config
     await storageManager.load();
     const config = storageManager.getConfig();
-    const endpoint = config.otelEndpoint;
-
-    // Send a test request to the OTel endpoint
-    // We'll try to POST to /v1/metrics with an empty payload
-    const response = await fetch(endpoint + '/v1/metrics', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ resourceMetrics: [] }),
-    });
+    const destination = destinationId
+      ? config.destinations.find((d) => d.id === destinationId)
+      : config.destinations.find((d) => d.enabled);
+    if (!destination) {
+      return { success: false, error: 'No export destination configured' };
+    }
+    const endpoint = destination.endpoint;
+    const authHeaders = buildOTLPHeaders(destination.headers, destination.auth);
+
+    let response: Response;
+    if (destination.protocol === 'prometheus') {
+      // Remote-write has no separate path: POST an empty WriteRequest to the URL itself
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { ...authHeaders, ...REMOTE_WRITE_HEADERS },
+        body: snappyCompress(encodeRemoteWriteRequest({ timeseries: [], metadata: [] })),
+      });
+    } else {
+      // Send a test request to the OTel endpoint
+      // We'll try to POST to /v1/metrics with an empty payload, encoded as configured
+      const { body, headers: encodingHeaders } = await encodeOTLPMetricsRequest(
+        { resourceMetrics: [] },
+        config.otelEncoding,
+        config.otelCompression
+      );
+      response = await fetch(endpoint + '/v1/metrics', {
+        method: 'POST',
+        headers: { ...authHeaders, ...encodingHeaders },
+        body,
+      });
+    }
 
     // OTel collector typically returns 200 for valid requests
     // Even with empty payload, a reachable endpoint should respond
@@ -218,6 +609,13 @@ async function handleTestConnection(): Promise<{
       return { success: true };
     }
 
+    if (response.status === 401 || response.status === 403) {
+      return {
+        success: false,
+        error: `HTTP ${response.status}: Check the configured headers and credentials`,
+      };
+    }
+
     return {
       success: false,
       error: `HTTP ${response.status}: ${response.statusText}`,
@@ -228,7 +626,7 @@ async function handleTestConnection(): Promise<{
     if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
       return {
         success: false,
-        error: 'Cannot reach endpoint. Is the OTel collector running?',
+        error: 'Cannot reach endpoint. Is the collector running?',
       };
     }
     return { success: false, error: errorMessage };
@@ -242,8 +640,17 @@ async function handleGetDebugInfo(): Promise<{
   success: boolean;
   debugInfo?: {
     config: ReturnType<typeof storageManager.getConfig>;
-    state: ReturnType<typeof stateMachine.getState> | null;
+    state: StateContext | null;
+    tabStates: Record<number, StateContext>;
     pendingMetricsCount: number;
+    deadLetterCount: number;
+    destinations: DestinationStatus[];
+    archivedMetricsCount: number | null;
+    apiRequests: RequestSchedulerStats | null;
+    taskSnapshotAgeMs: number | null;
+    taskStreams: TaskStreamStats | null;
+    compatibilityWarnings: string[];
+    openTaskEfforts: number | null;
     isInitialized: boolean;
   };
   error?: string;
@@ -252,15 +659,45 @@ async function handleGetDebugInfo(): Promise<{
     // Ensure storage is loaded before getting config
     await storageManager.load();
     const config = storageManager.getConfig();
-    const state = isInitialized ? stateMachine.getState() : null;
-    const pendingMetricsCount = storageManager.getPendingMetrics().length;
+    const state = isInitialized ? activityTracker.getState() : null;
+    const pendingMetricsCount = storageManager.getPendingMetricsCount();
+    const destinationStates = storageManager.getDestinationStates();
+    const destinations = config.destinations.map((destination) => {
+      const destinationState = destinationStates[destination.id];
+      const outbox = destinationState?.outbox ?? [];
+      return {
+        id: destination.id,
+        name: destination.name,
+        enabled: destination.enabled,
+        pendingBatches: outbox.length,
+        pendingMetricsCount: countOutboxMetrics(outbox),
+        pendingBytes: outbox.reduce((bytes, batch) => bytes + batch.bytes, 0),
+        oldestBatchTime: outbox[0]?.createdAt ?? null,
+        consecutiveFailures: destinationState?.consecutiveFailures ?? 0,
+        nextAttemptTime: destinationState?.nextAttemptTime ?? null,
+        deadLetterCount: destinationState?.deadLetterCount ?? 0,
+        lastAttemptTime: destinationState?.lastAttemptTime ?? null,
+        lastSuccessTime: destinationState?.lastSuccessTime ?? null,
+      };
+    });
+    // Archive size is informational only; an unavailable IndexedDB shows as null
+    const archivedMetricsCount = isInitialized ? await metricArchive.count().catch(() => null) : null;
 
     return {
       success: true,
       debugInfo: {
-        config,
+        config: maskConfigSecrets(config),
         state,
+        tabStates: isInitialized ? activityTracker.getTabStates() : {},
         pendingMetricsCount,
+        deadLetterCount: destinations.reduce((count, destination) => count + destination.deadLetterCount, 0),
+        destinations,
+        archivedMetricsCount,
+        apiRequests: isInitialized ? requestScheduler.getStats() : null,
+        taskSnapshotAgeMs: isInitialized ? taskSnapshotStore.getAgeMs() : null,
+        taskStreams: isInitialized ? taskSnapshotStore.getStreamStats() : null,
+        compatibilityWarnings: isInitialized ? compatibilityLog.getWarnings() : [],
+        openTaskEfforts: isInitialized ? taskEffortLedger.getOpenTaskCount() : null,
         isInitialized,
       },
     };
@@ -270,54 +707,189 @@ async function handleGetDebugInfo(): Promise<{
   }
 }
 
+/**
+ * Handle EXPORT_ARCHIVE message from options page
+ * Returns archived metrics in the time range serialized as NDJSON or CSV
+ */
+async function handleExportArchive(message: OptionsMessage): Promise<{
+  success: boolean;
+  content?: string;
+  count?: number;
+  error?: string;
+}> {
+  try {
+    if (!isInitialized) {
+      return { success: false, error: 'Extension not initialized yet' };
+    }
+    if (message.from === undefined || message.to === undefined || message.from > message.to) {
+      return { success: false, error: 'Invalid date range' };
+    }
+
+    const metrics = await metricArchive.query(message.from, message.to);
+    return {
+      success: true,
+      content: formatArchive(metrics, message.format ?? 'ndjson'),
+      count: metrics.length,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Handle GET_TIMELINE message from options page
+ * Returns the session timeline entries in the time range, starting a day earlier so the
+ * state each tab was in at the start of the range is known
+ */
+async function handleGetTimeline(message: OptionsMessage): Promise<{
+  success: boolean;
+  entries?: TimelineEntry[];
+  error?: string;
+}> {
+  try {
+    if (!isInitialized) {
+      return { success: false, error: 'Extension not initialized yet' };
+    }
+    if (message.from === undefined || message.to === undefined || message.from > message.to) {
+      return { success: false, error: 'Invalid date range' };
+    }
+
+    const entries = await sessionTimeline.query(message.from - TIMELINE_LOOKBACK_MS, message.to);
+    return { success: true, entries };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
 /**
  * Handle GET_ACTIVE_TASKS message from sidebar
- * Fetches all projects and their tasks, filters to active tasks
+ * Reads the active tasks of every enabled instance from the task snapshot; an instance
+ * whose latest refresh failed still shows its previous tasks, with a warning
  */
 async function handleGetActiveTasks(): Promise<ActiveTasksResponse> {
   try {
-    // Fetch all projects
-    const projects = await apiClient.fetchProjects();
-    console.log('[vibe-tracker] Fetching active tasks from ' + projects.length + ' projects');
+    if (!isInitialized) {
+      return { success: false, error: 'Extension not initialized yet' };
+    }
+    if (instanceRegistry.getEnabled().length === 0) {
+      return { success: false, error: 'No vibe-kanban instances are enabled in settings' };
+    }
 
+    const snapshot = await taskSnapshotStore.current();
+    const showInstanceName = snapshot.instances.length > 1;
     const activeTasks: ActiveTaskItem[] = [];
+    const failures: Array<{ instance: VibeKanbanInstance; error: ApiError }> = [];
+    let oldestFetchedAt: number | null = null;
 
-    // For each project, fetch tasks and filter to active ones
-    for (const project of projects) {
-      const tasks = await apiClient.fetchProjectTasks(project.id);
-
-      // Filter to only inprogress and inreview tasks
-      const projectActiveTasks = tasks
-        .filter((task) => task.status === 'inprogress' || task.status === 'inreview')
-        .map((task) => ({
-          taskId: task.id,
-          taskTitle: task.title,
-          projectId: project.id,
-          projectName: project.name,
-          status: task.status as ActiveTaskStatus,
-        }));
-
-      activeTasks.push(...projectActiveTasks);
-    }
-
-    // Fetch latest attempt for each active task
-    for (const task of activeTasks) {
-      const attempts = await apiClient.fetchTaskAttempts(task.taskId);
-      if (attempts.length > 0) {
-        task.latestAttemptId = attempts[0].id; // First is newest (sorted DESC)
-        console.log('[vibe-tracker] Set latestAttemptId for task ' + task.taskId + ': ' + attempts[0].id);
+    for (const instanceSnapshot of snapshot.instances) {
+      const { instance, error, fetchedAt } = instanceSnapshot;
+      if (error) {
+        failures.push({ instance, error });
       }
+      if (fetchedAt === null) {
+        continue;
+      }
+      activeTasks.push(...getActiveTaskItems(instanceSnapshot, showInstanceName));
+      oldestFetchedAt = oldestFetchedAt === null ? fetchedAt : Math.min(oldestFetchedAt, fetchedAt);
+    }
+
+    // When no instance has ever answered, the failures are the whole story
+    if (oldestFetchedAt === null) {
+      return {
+        success: false,
+        error: failures
+          .map(({ instance, error }) =>
+            (showInstanceName ? getInstanceName(instance) + ': ' : '') + describeApiError(error)
+          )
+          .join('\n'),
+        errorKind: failures[0]?.error.kind,
+      };
     }
 
     console.log('[vibe-tracker] Found ' + activeTasks.length + ' active tasks');
-    return { success: true, tasks: activeTasks };
+    return {
+      success: true,
+      tasks: activeTasks,
+      warnings: failures.map(
+        ({ instance, error }) => getInstanceName(instance) + ': ' + describeApiError(error)
+      ),
+      snapshotAgeMs: Date.now() - oldestFetchedAt,
+    };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[vibe-tracker] Failed to fetch active tasks:', errorMessage);
+    console.error('[vibe-tracker] Failed to read active tasks:', errorMessage);
     return { success: false, error: errorMessage };
   }
 }
 
+// Open sidebars, which receive the active tasks whenever the task snapshot changes
+const activeTasksPorts = new Set<browser.Runtime.Port>();
+let activeTasksPushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Delay before pushing, so a burst of stream updates results in one push
+const ACTIVE_TASKS_PUSH_DELAY_MS = 250;
+
+browser.runtime.onConnect.addListener((port: browser.Runtime.Port) => {
+  if (port.name !== ACTIVE_TASKS_PORT_NAME) {
+    return;
+  }
+  activeTasksPorts.add(port);
+  port.onDisconnect.addListener(() => {
+    activeTasksPorts.delete(port);
+  });
+});
+
+/**
+ * Push the active tasks to open sidebars shortly (coalescing further changes)
+ */
+function scheduleActiveTasksPush(): void {
+  if (activeTasksPorts.size === 0 || activeTasksPushTimer !== null) {
+    return;
+  }
+  activeTasksPushTimer = setTimeout(async () => {
+    activeTasksPushTimer = null;
+    const message: ActiveTasksUpdatedMessage = {
+      type: 'ACTIVE_TASKS_UPDATED',
+      response: await handleGetActiveTasks(),
+    };
+    for (const port of activeTasksPorts) {
+      try {
+        port.postMessage(message);
+      } catch {
+        // Port closed without a disconnect event
+        activeTasksPorts.delete(port);
+      }
+    }
+  }, ACTIVE_TASKS_PUSH_DELAY_MS);
+}
+
+/**
+ * Build sidebar items for the in-progress and in-review tasks of one instance
+ */
+function getActiveTaskItems(instanceSnapshot: InstanceSnapshot, showInstanceName: boolean): ActiveTaskItem[] {
+  const { instance, projects, tasks, attempts } = instanceSnapshot;
+
+  return projects.flatMap((project) =>
+    (tasks[project.id] ?? []).filter(isActiveTask).map((task) => {
+      const { statusAgeMs, stale } = apiMetricsCollector.getTaskAge(instance, task);
+      return {
+        taskId: task.id,
+        taskTitle: task.title,
+        projectId: project.id,
+        projectName: project.name,
+        status: task.status as ActiveTaskStatus,
+        latestAttemptId: attempts[task.id]?.[0]?.id,
+        instanceUrl: getOrigin(instance.url)!,
+        instanceName: showInstanceName ? getInstanceName(instance) : undefined,
+        statusAgeMs,
+        stale,
+      };
+    })
+  );
+}
+
 // Handle messages from content script and options page
 browser.runtime.onMessage.addListener(
   (message: ContentMessage | OptionsMessage | GetActiveTasksMessage, sender: browser.Runtime.MessageSender) => {
@@ -333,11 +905,17 @@ browser.runtime.onMessage.addListener(
           return handleSaveConfig((message as OptionsMessage).config);
 
         case 'TEST_CONNECTION':
-          return handleTestConnection();
+          return handleTestConnection((message as OptionsMessage).destinationId);
 
         case 'GET_DEBUG_INFO':
           return handleGetDebugInfo();
 
+        case 'EXPORT_ARCHIVE':
+          return handleExportArchive(message as OptionsMessage);
+
+        case 'GET_TIMELINE':
+          return handleGetTimeline(message as OptionsMessage);
+
         case 'GET_ACTIVE_TASKS':
           return handleGetActiveTasks();
       }
@@ -349,45 +927,64 @@ browser.runtime.onMessage.addListener(
       return Promise.resolve({ received: false, error: 'not_initialized' });
     }
 
+    // Attribute activity to the instance serving the sending tab
+    const instanceName = instanceRegistry.resolveInstanceName(sender.tab?.url ?? sender.url);
+    if (!instanceName) {
+      console.log('[vibe-tracker] Message from untracked origin, ignoring:', sender.tab?.url);
+      return Promise.resolve({ received: false, error: 'untracked_origin' });
+    }
+    tagRoutes(message as ContentMessage, instanceName);
+
+    // Activity is tracked per tab
+    const tabId = sender.tab?.id;
+    if (tabId === undefined) {
+      console.log('[vibe-tracker] Content message without a tab, ignoring');
+      return Promise.resolve({ received: false, error: 'no_tab' });
+    }
+
     console.log('[vibe-tracker] Processing content message:', {
       type: message.type,
       from: sender.tab?.url,
+      instance: instanceName,
     });
 
     switch (message.type) {
       case 'FOCUS':
-        stateMachine.transition({ type: 'FOCUS' });
+        activityTracker.transition(tabId, { type: 'FOCUS' });
         // Update route context if provided
         if ((message as ContentMessage).payload?.route) {
-          stateMachine.transition({ type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          activityTracker.transition(tabId, { type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          if (isActiveTab(tabId)) {
+            sessionTracer.navigate((message as ContentMessage).payload.route, machineId);
+          }
         }
         break;
 
       case 'BLUR':
-        stateMachine.transition({ type: 'BLUR' });
+        activityTracker.transition(tabId, { type: 'BLUR' });
         break;
 
       case 'ACTIVITY':
         // Any user activity resets the idle timer
-        stateMachine.transition({ type: 'ACTIVITY' });
+        activityTracker.transition(tabId, { type: 'ACTIVITY' });
         // Update route context if provided
         if ((message as ContentMessage).payload?.route) {
-          stateMachine.transition({ type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          activityTracker.transition(tabId, { type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
         }
         break;
 
       case 'SCROLL':
         // Any user activity resets the idle timer
-        stateMachine.transition({ type: 'ACTIVITY' });
+        activityTracker.transition(tabId, { type: 'ACTIVITY' });
         // Update route context if provided
         if ((message as ContentMessage).payload?.route) {
-          stateMachine.transition({ type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          activityTracker.transition(tabId, { type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
         }
         // Record scroll metric
         {
           const scrollMsg = message as ScrollMessage;
           const scrollDistance = Math.abs(scrollMsg.payload.scrollPosition || 0);
-          metricsCollector.recordScroll(scrollDistance, machineId);
+          metricsCollector.recordScroll(scrollDistance, machineId, instanceName);
         }
         break;
 
@@ -395,38 +992,62 @@ browser.runtime.onMessage.addListener(
         // Route change - update current route
         if ((message as ContentMessage).payload?.route) {
           // Record previous view duration before changing routes
-          if (currentViewStartTime !== null && currentView !== null) {
-            const stateContext = stateMachine.getState();
-            if (stateContext.currentRoute) {
-              const viewDurationMs = Date.now() - currentViewStartTime;
-              metricsCollector.recordViewDuration(currentView, viewDurationMs, stateContext.currentRoute, machineId);
+          const currentView = currentViews.get(tabId);
+          if (currentView) {
+            const stateContext = activityTracker.getTabState(tabId);
+            if (stateContext?.currentRoute) {
+              const viewDurationMs = Date.now() - currentView.startTime;
+              metricsCollector.recordViewDuration(currentView.view, viewDurationMs, stateContext.currentRoute, machineId);
+              taskEffortLedger.record(stateContext.currentRoute, { viewTimeMs: viewDurationMs });
             }
           }
 
-          stateMachine.transition({ type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          activityTracker.transition(tabId, { type: 'NAVIGATE', route: (message as ContentMessage).payload.route });
+          if (isActiveTab(tabId)) {
+            sessionTracer.navigate((message as ContentMessage).payload.route, machineId);
+          }
+          recordTimeline(tabId, 'route', (message as ContentMessage).payload.route);
+          {
+            const navMsg = message as NavigationMessage;
+            eventLogger.logNavigation(
+              navMsg.payload.route,
+              machineId,
+              navMsg.payload.timestamp,
+              navMsg.payload.previousRoute,
+              getTabSpanContext(tabId)
+            );
+          }
 
           // Track new view if present
           const newView = (message as ContentMessage).payload.route.view;
           if (newView === 'diffs' || newView === 'preview') {
-            currentView = newView;
-            currentViewStartTime = Date.now();
+            currentViews.set(tabId, { view: newView, startTime: Date.now() });
           } else {
-            currentView = null;
-            currentViewStartTime = null;
+            currentViews.delete(tabId);
           }
         }
         break;
 
       case 'HUMAN_INTERVENTION':
         // Human intervention counts as activity
-        stateMachine.transition({ type: 'ACTIVITY' });
+        activityTracker.transition(tabId, { type: 'ACTIVITY' });
         {
           const hiMsg = message as HumanInterventionMessage;
           // Update route context if provided
           if (hiMsg.payload?.route) {
-            stateMachine.transition({ type: 'NAVIGATE', route: hiMsg.payload.route });
+            activityTracker.transition(tabId, { type: 'NAVIGATE', route: hiMsg.payload.route });
             // Record human intervention metric
             metricsCollector.recordHumanIntervention(hiMsg.payload.route, machineId);
+            taskEffortLedger.record(hiMsg.payload.route, { interventions: 1 });
+            recordTimeline(tabId, 'intervention', hiMsg.payload.route);
+            eventLogger.logHumanIntervention(
+              hiMsg.payload.route,
+              machineId,
+              hiMsg.payload.timestamp,
+              hiMsg.payload.triggerType,
+              hiMsg.payload.buttonText,
+              getTabSpanContext(tabId)
+            );
           }
           console.log('[vibe-tracker] Human intervention detected:', {
             triggerType: hiMsg.payload.triggerType,
@@ -437,13 +1058,14 @@ browser.runtime.onMessage.addListener(
 
       case 'TYPING':
         // Typing counts as activity
-        stateMachine.transition({ type: 'ACTIVITY' });
+        activityTracker.transition(tabId, { type: 'ACTIVITY' });
         {
           const typingMsg = message as TypingMessage;
           if (typingMsg.payload?.route) {
-            stateMachine.transition({ type: 'NAVIGATE', route: typingMsg.payload.route });
+            activityTracker.transition(tabId, { type: 'NAVIGATE', route: typingMsg.payload.route });
             // Record characters typed metric
             metricsCollector.recordCharactersTyped(typingMsg.payload.characterCount, typingMsg.payload.route, machineId);
+            taskEffortLedger.record(typingMsg.payload.route, { charactersTyped: typingMsg.payload.characterCount });
           }
           console.log('[vibe-tracker] Characters typed:', typingMsg.payload.characterCount);
         }
@@ -451,23 +1073,108 @@ browser.runtime.onMessage.addListener(
 
       case 'MESSAGE_SENT':
         // Message sent counts as activity
-        stateMachine.transition({ type: 'ACTIVITY' });
+        activityTracker.transition(tabId, { type: 'ACTIVITY' });
         {
           const msMsg = message as MessageSentMessage;
           if (msMsg.payload?.route) {
-            stateMachine.transition({ type: 'NAVIGATE', route: msMsg.payload.route });
+            activityTracker.transition(tabId, { type: 'NAVIGATE', route: msMsg.payload.route });
             // Record message sent metric with length
             metricsCollector.recordMessageSent(msMsg.payload.messageLength, msMsg.payload.route, machineId);
+            taskEffortLedger.record(msMsg.payload.route, { messagesSent: 1 });
+            recordTimeline(tabId, 'message', msMsg.payload.route);
+            eventLogger.logMessageSent(
+              msMsg.payload.route,
+              machineId,
+              msMsg.payload.timestamp,
+              msMsg.payload.messageLength,
+              msMsg.payload.triggerType,
+              getTabSpanContext(tabId)
+            );
           }
           console.log('[vibe-tracker] Message sent, length:', msMsg.payload.messageLength);
         }
         break;
     }
 
-    return Promise.resolve({ received: true, state: stateMachine.getState() });
+    // Split the tab's time when the message changed its route
+    const tabState = activityTracker.getTabState(tabId);
+    if (tabState) {
+      activityAccountant.update(tabId, tabState.currentState, tabState.currentRoute);
+    }
+
+    return Promise.resolve({ received: true, state: activityTracker.getState() });
   }
 );
 
+// Browser idle state changes (no input on the machine within the threshold, screen locked)
+browser.idle.onStateChanged.addListener((state: SystemIdleState) => {
+  if (!isInitialized) {
+    return;
+  }
+  console.log('[vibe-tracker] Browser idle state:', state);
+  activityTracker.setSystemState(state);
+});
+
+// End the activity session of closed tabs
+browser.tabs.onRemoved.addListener((tabId: number) => {
+  if (!isInitialized) {
+    return;
+  }
+  activityTracker.removeTab(tabId);
+  activityAccountant.removeTab(tabId);
+  recordTimeline(tabId, 'closed', null);
+  currentViews.delete(tabId);
+  currentSubStates.delete(tabId);
+});
+
+/**
+ * Set the instance on the routes carried by a content message
+ */
+function tagRoutes(message: ContentMessage, instance: string): void {
+  if (!message.payload) {
+    return;
+  }
+  if (message.payload.route) {
+    message.payload.route = { ...message.payload.route, instance };
+  }
+  if (message.type === 'NAVIGATION' && message.payload.previousRoute) {
+    message.payload.previousRoute = { ...message.payload.previousRoute, instance };
+  }
+}
+
+// Whether an export cycle is running (a slow destination can outlast the export interval)
+let isExporting = false;
+
+/**
+ * Run one export cycle for all signals
+ * Skipped while the previous cycle is still running: outbox batches are not marked as
+ * in flight, and overlapping cycles would send them twice and mix up running totals
+ */
+async function exportTelemetry(): Promise<void> {
+  if (isExporting) {
+    console.warn('[vibe-tracker] Previous export cycle still running, skipping this one');
+    return;
+  }
+
+  isExporting = true;
+  try {
+    await exportMetrics();
+    await exportTraces();
+    await exportLogs();
+    await flushTimeline();
+  } finally {
+    isExporting = false;
+  }
+}
+
+/**
+ * Save the last known task statuses and the per-task effort ledger
+ */
+async function saveTaskTracking(): Promise<void> {
+  await storageManager.saveTaskFlowState(apiMetricsCollector.getTaskFlowState());
+  await storageManager.saveTaskEfforts(taskEffortLedger.getState());
+}
+
 /**
  * Export metrics with persistence
  * Saves metrics to storage before export to survive browser restart
@@ -479,11 +1186,8 @@ async function exportMetrics(): Promise<void> {
     return;
   }
 
-  // Collect event-based metrics
-  const eventMetrics = metricsCollector.flush();
-
   // Collect API-based metrics (errors are logged but don't block export)
-  let apiMetrics: typeof eventMetrics = [];
+  let apiMetrics: MetricRecord[] = [];
   try {
     apiMetrics = await apiMetricsCollector.collect(machineId);
   } catch (error) {
@@ -491,35 +1195,106 @@ async function exportMetrics(): Promise<void> {
     console.warn('[vibe-tracker] API metrics collection failed, continuing with event metrics:', message);
   }
 
-  // Combine all metrics
-  const metrics = [...eventMetrics, ...apiMetrics];
+  // Report the time of open activity segments so far (long sessions are not held back
+  // until they end) and save where they continue from
+  activityAccountant.checkpoint();
+  await saveActivityHeartbeat();
+
+  // Save transitions seen during collection and task effort recorded since the last cycle
+  taskEffortLedger.prune();
+  await saveTaskTracking();
+
+  // Collect event-based metrics (after API collection, so its api.errors are in this cycle)
+  const eventMetrics = metricsCollector.flush();
 
-  if (metrics.length === 0) {
+  // Keep a local copy regardless of delivery (errors are logged but don't block export)
+  await archiveMetrics([...eventMetrics, ...apiMetrics]);
+
+  // Queue this cycle's metrics as one outbox batch per destination and save before
+  // the export attempt (survives browser crash/restart)
+  destinationExporter.queueMetrics([...eventMetrics, ...apiMetrics]);
+  await storageManager.saveDestinationStates(destinationExporter.getStates());
+
+  console.log('[vibe-tracker] Exporting ' + eventMetrics.length + ' event and ' + apiMetrics.length + ' API metrics');
+
+  // Each destination aggregates and delivers on its own; failed destinations keep
+  // their outbox and back off across cycles without resending to the others
+  const results = await destinationExporter.exportMetrics();
+  if (results.length === 0) {
     console.log('[vibe-tracker] Export cycle - no metrics to export');
-    // Clear any pending metrics in storage
-    await storageManager.clearPendingMetrics();
+  }
+
+  // Save running totals, drained outboxes and backoff state
+  await storageManager.saveDestinationStates(destinationExporter.getStates());
+}
+
+/**
+ * Append metrics to the local archive if enabled
+ */
+async function archiveMetrics(metrics: MetricRecord[]): Promise<void> {
+  if (!storageManager.getConfig().archive.enabled) {
     return;
   }
 
-  // Save to storage before export attempt (survives browser crash/restart)
-  await storageManager.savePendingMetrics(metrics);
+  try {
+    await metricArchive.append(metrics);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('[vibe-tracker] Failed to archive metrics:', message);
+  }
+}
+
+/**
+ * Save the open activity segments with the current time, for recovery after a crash
+ */
+async function saveActivityHeartbeat(): Promise<void> {
+  try {
+    await storageManager.saveActivityHeartbeat(activityAccountant.getSegments());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('[vibe-tracker] Failed to save activity heartbeat:', message);
+  }
+}
+
+/**
+ * Write buffered session timeline entries to IndexedDB
+ * The timeline is only shown on the options page, so a failed write is logged and dropped
+ */
+async function flushTimeline(): Promise<void> {
+  try {
+    await sessionTimeline.flush();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('[vibe-tracker] Failed to write session timeline:', message);
+  }
+}
+
+/**
+ * Export completed session spans to all destinations
+ * Spans are kept in memory only; a failed destination retries them next cycle
+ */
+async function exportTraces(): Promise<void> {
+  if (!isInitialized) {
+    return;
+  }
 
-  console.log('[vibe-tracker] Exporting ' + metrics.length + ' metrics (' + eventMetrics.length + ' event, ' + apiMetrics.length + ' API)');
+  await destinationExporter.exportSpans(sessionTracer.flush());
+}
 
-  const success = await otelExporter.export(metrics);
-  if (success) {
-    // Clear pending metrics from storage on success
-    await storageManager.clearPendingMetrics();
-  } else {
-    // Restore only event metrics to collector for next export attempt
-    // (API metrics will be re-fetched on next cycle)
-    console.warn('[vibe-tracker] Export failed, restoring event metrics for retry');
-    metricsCollector.restore(eventMetrics);
+/**
+ * Export queued event log records to all destinations
+ * Records are kept in memory only; a failed destination retries them next cycle
+ */
+async function exportLogs(): Promise<void> {
+  if (!isInitialized) {
+    return;
   }
+
+  await destinationExporter.exportLogs(eventLogger.flush());
 }
 
 // Start initialization
 initialize();
 
 // Export for potential testing
-export { stateMachine, metricsCollector, otelExporter, storageManager, projectNameCache, apiClient, apiMetricsCollector };
+export { activityTracker, metricsCollector, sessionTracer, eventLogger, destinationExporter, storageManager, projectNameCache, instanceRegistry, taskSnapshotStore, apiMetricsCollector };
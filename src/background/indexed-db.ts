@@ -0,0 +1,62 @@
+/**
+ * IndexedDB helpers for vibe-kanban tracker
+ * Promise wrappers shared by the local stores (metric archive, session timeline)
+ */
+
+/**
+ * Open a database whose single object store is keyed by auto-increment and indexed by timestamp
+ */
+export function openTimestampedStore(name: string, version: number, storeName: string, indexName: string): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(storeName, { autoIncrement: true });
+      store.createIndex(indexName, 'timestamp');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+export function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Resolve with the result of a request
+ */
+export function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Delete the records of a timestamp index older than a cutoff
+ * Returns the number of deleted records
+ */
+export async function deleteBefore(db: IDBDatabase, storeName: string, indexName: string, cutoff: number): Promise<number> {
+  const transaction = db.transaction(storeName, 'readwrite');
+  const index = transaction.objectStore(storeName).index(indexName);
+  const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+  let deleted = 0;
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    }
+  };
+  await completion(transaction);
+  return deleted;
+}
@@ -0,0 +1,179 @@
+/**
+ * vibe-kanban instance registry for vibe-kanban tracker
+ * Keeps one API client per configured instance and resolves which instance
+ * a tab belongs to from its origin
+ */
+
+import { VibeKanbanApiClient, type ApiError } from './api-client';
+import type { ValidationIssue } from './api-validation';
+import type { RequestScheduler } from './request-scheduler';
+
+/**
+ * A vibe-kanban server the tracker reads from and tracks tabs on
+ */
+export interface VibeKanbanInstance {
+  id: string;
+  name: string;
+  // Base URL of the web UI and API (e.g. http://localhost:3069)
+  url: string;
+  enabled: boolean;
+}
+
+/**
+ * An enabled instance with its API client
+ */
+export interface InstanceClient {
+  instance: VibeKanbanInstance;
+  client: VibeKanbanApiClient;
+}
+
+// ID of the instance created for existing installs and first run
+export const DEFAULT_INSTANCE_ID = 'default';
+
+// vibe-kanban's default port; the manifest injects the content script on it for any host
+const DEFAULT_PORT = '3069';
+
+export class InstanceRegistry {
+  private instances: VibeKanbanInstance[] = [];
+  private clients: Map<string, VibeKanbanApiClient> = new Map();
+  private scheduler: RequestScheduler;
+  private onError: ((error: ApiError, instance: VibeKanbanInstance) => void) | null = null;
+  private onValidationIssue: ((issue: ValidationIssue, instance: VibeKanbanInstance) => void) | null = null;
+
+  constructor(instances: VibeKanbanInstance[], scheduler: RequestScheduler) {
+    this.scheduler = scheduler;
+    this.setInstances(instances);
+  }
+
+  /**
+   * Replace the instance list (e.g. after a config change)
+   * Clients are recreated and share the scheduler; instances with an invalid URL are skipped
+   */
+  setInstances(instances: VibeKanbanInstance[]): void {
+    this.instances = instances;
+    this.clients.clear();
+
+    for (const instance of instances) {
+      const origin = getOrigin(instance.url);
+      if (!instance.enabled || !origin) {
+        continue;
+      }
+      const client = new VibeKanbanApiClient(origin, this.scheduler);
+      client.setOnError((error) => this.onError?.(error, instance));
+      client.setOnValidationIssue((issue) => this.onValidationIssue?.(issue, instance));
+      this.clients.set(instance.id, client);
+    }
+  }
+
+  /**
+   * Set callback for failed API requests of any instance
+   */
+  setOnError(callback: (error: ApiError, instance: VibeKanbanInstance) => void): void {
+    this.onError = callback;
+  }
+
+  /**
+   * Set callback for malformed records in API responses of any instance
+   */
+  setOnValidationIssue(callback: (issue: ValidationIssue, instance: VibeKanbanInstance) => void): void {
+    this.onValidationIssue = callback;
+  }
+
+  /**
+   * Get enabled instances with their API clients, in configured order
+   */
+  getEnabled(): InstanceClient[] {
+    return this.instances
+      .filter((instance) => this.clients.has(instance.id))
+      .map((instance) => ({ instance, client: this.clients.get(instance.id)! }));
+  }
+
+  /**
+   * Find the configured instance serving a page URL (matched by origin)
+   */
+  findByUrl(url: string): VibeKanbanInstance | undefined {
+    const origin = getOrigin(url);
+    if (!origin) {
+      return undefined;
+    }
+    return this.instances.find((instance) => getOrigin(instance.url) === origin);
+  }
+
+  /**
+   * Resolve the instance name to attribute a tab's activity to
+   * Unconfigured tabs on the default port are attributed to their origin; other
+   * unconfigured or disabled origins return null and are not tracked
+   */
+  resolveInstanceName(url: string | undefined): string | null {
+    if (!url) {
+      return null;
+    }
+
+    const instance = this.findByUrl(url);
+    if (instance) {
+      return instance.enabled ? getInstanceName(instance) : null;
+    }
+
+    try {
+      const parsed = new URL(url);
+      return parsed.port === DEFAULT_PORT ? parsed.origin : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Get the name used for an instance's vibe_kanban.instance attribute (its URL if unnamed)
+ */
+export function getInstanceName(instance: VibeKanbanInstance): string {
+  return instance.name.trim() || instance.url;
+}
+
+/**
+ * Get the origin (scheme, host and port) of a URL, or null if it is not http(s)
+ */
+export function getOrigin(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether the manifest content script already runs on an instance's pages
+ * Mirrors the manifest include_globs (port 3069 on localhost, 127.0.0.1 or dotted-quad hosts)
+ */
+export function isCoveredByManifest(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === 'http:' &&
+      parsed.port === DEFAULT_PORT &&
+      (parsed.hostname === 'localhost' ||
+        parsed.hostname === '127.0.0.1' ||
+        parsed.hostname.split('.').length >= 4)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build content script match patterns for instances the manifest does not cover
+ * Match patterns cannot carry a port, so each pattern covers the instance's whole
+ * host; tabs on other ports are ignored by resolveInstanceName
+ */
+export function getContentScriptMatches(instances: VibeKanbanInstance[]): string[] {
+  const matches = new Set<string>();
+  for (const instance of instances) {
+    if (!instance.enabled || !getOrigin(instance.url) || isCoveredByManifest(instance.url)) {
+      continue;
+    }
+    const parsed = new URL(instance.url);
+    matches.add(parsed.protocol + '//' + parsed.hostname + '/*');
+  }
+  return Array.from(matches).sort();
+}
@@ -0,0 +1,301 @@
+/**
+ * Metric Aggregator for vibe-kanban tracker
+ * Turns raw counter increments and histogram observations into one data point per
+ * series (metric name + attributes) with proper cumulative or delta temporality.
+ * Running totals and series start times are persisted through StorageManager so
+ * cumulative series survive browser restarts.
+ */
+
+import type { MetricRecord, HistogramData } from './metrics-collector';
+
+export type AggregationTemporality = 'cumulative' | 'delta';
+
+/**
+ * Running state for a single counter or histogram series
+ */
+export interface SeriesState {
+  name: string;
+  attributes: Record<string, string | number>;
+  // Running total of all committed increments (histograms: sum of observations)
+  value: number;
+  // Time the series was first seen (cumulative start time)
+  startTimestamp: number;
+  // Time of the last committed data point (delta window start)
+  lastTimestamp: number;
+  // Running bucket counts (histogram series only)
+  histogram?: HistogramData;
+}
+
+/**
+ * Persisted aggregation state
+ */
+export interface AggregationState {
+  series: Record<string, SeriesState>;
+}
+
+// Series without new data for this long are dropped from the persisted state
+const SERIES_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Build a stable key for a metric series (name + sorted attributes)
+ */
+export function getSeriesKey(name: string, attributes: Record<string, string | number>): string {
+  const sortedAttributes = Object.keys(attributes)
+    .sort()
+    .map((key) => [key, attributes[key]]);
+  return name + '|' + JSON.stringify(sortedAttributes);
+}
+
+export class MetricAggregator {
+  private temporality: AggregationTemporality;
+  private series: Map<string, SeriesState>;
+  private pending: Map<string, SeriesState> | null = null;
+  private histogramBoundaries: Record<string, number[]>;
+
+  constructor(
+    temporality: AggregationTemporality = 'cumulative',
+    state?: AggregationState,
+    histogramBoundaries: Record<string, number[]> = {}
+  ) {
+    this.temporality = temporality;
+    this.series = new Map(Object.entries(state?.series ?? {}));
+    this.histogramBoundaries = histogramBoundaries;
+  }
+
+  /**
+   * Update the aggregation temporality used for counters and histograms
+   */
+  setTemporality(temporality: AggregationTemporality): void {
+    this.temporality = temporality;
+  }
+
+  /**
+   * Update histogram bucket boundaries (metric name -> ascending upper bounds)
+   * Series recorded with different boundaries restart on their next data point
+   */
+  setHistogramBoundaries(histogramBoundaries: Record<string, number[]>): void {
+    this.histogramBoundaries = histogramBoundaries;
+  }
+
+  /**
+   * Aggregate a batch of raw metrics for export
+   * Counters and histograms are merged into one data point per series; gauges pass
+   * through unchanged.
+   * Running totals are not updated until commit() is called after a successful export,
+   * so a failed export can simply re-aggregate the same raw metrics next cycle.
+   * Only series with new data in this batch are emitted.
+   */
+  aggregate(metrics: MetricRecord[]): MetricRecord[] {
+    const gauges: MetricRecord[] = [];
+    const batch = new Map<string, BatchEntry>();
+
+    for (const metric of metrics) {
+      if (metric.type === 'gauge') {
+        gauges.push(metric);
+        continue;
+      }
+
+      const key = getSeriesKey(metric.name, metric.attributes);
+      const entry = batch.get(key);
+      if (entry) {
+        entry.values.push(metric.value);
+        entry.firstTimestamp = Math.min(entry.firstTimestamp, metric.timestamp);
+        entry.lastTimestamp = Math.max(entry.lastTimestamp, metric.timestamp);
+      } else {
+        batch.set(key, {
+          name: metric.name,
+          type: metric.type,
+          attributes: metric.attributes,
+          values: [metric.value],
+          firstTimestamp: metric.timestamp,
+          lastTimestamp: metric.timestamp,
+        });
+      }
+    }
+
+    const pending = new Map<string, SeriesState>();
+    const aggregated: MetricRecord[] = [];
+
+    for (const [key, entry] of batch) {
+      const next =
+        entry.type === 'histogram'
+          ? this.aggregateHistogram(key, entry, aggregated)
+          : this.aggregateCounter(key, entry, aggregated);
+      pending.set(key, next);
+    }
+
+    this.pending = pending;
+    return [...aggregated, ...gauges];
+  }
+
+  /**
+   * Merge a batch of counter increments into its series
+   */
+  private aggregateCounter(key: string, entry: BatchEntry, output: MetricRecord[]): SeriesState {
+    const previous = this.series.get(key);
+    const batchSum = entry.values.reduce((sum, value) => sum + value, 0);
+    const next: SeriesState = {
+      name: entry.name,
+      attributes: entry.attributes,
+      value: (previous?.value ?? 0) + batchSum,
+      startTimestamp: previous?.startTimestamp ?? entry.firstTimestamp,
+      lastTimestamp: Math.max(entry.lastTimestamp, previous?.lastTimestamp ?? 0),
+    };
+
+    output.push({
+      name: entry.name,
+      type: 'counter',
+      value: this.temporality === 'cumulative' ? next.value : batchSum,
+      timestamp: next.lastTimestamp,
+      startTimestamp:
+        this.temporality === 'cumulative'
+          ? next.startTimestamp
+          : previous?.lastTimestamp ?? entry.firstTimestamp,
+      temporality: this.temporality,
+      attributes: entry.attributes,
+    });
+
+    return next;
+  }
+
+  /**
+   * Merge a batch of histogram observations into its series
+   */
+  private aggregateHistogram(key: string, entry: BatchEntry, output: MetricRecord[]): SeriesState {
+    const explicitBounds = this.histogramBoundaries[entry.name] ?? [];
+    const batchHistogram = buildHistogram(entry.values, explicitBounds);
+
+    // A boundary change makes the running buckets incompatible, so the series restarts
+    let previous = this.series.get(key);
+    if (previous?.histogram && !sameBounds(previous.histogram.explicitBounds, explicitBounds)) {
+      previous = undefined;
+    }
+
+    const histogram = previous?.histogram
+      ? mergeHistograms(previous.histogram, batchHistogram)
+      : batchHistogram;
+    const next: SeriesState = {
+      name: entry.name,
+      attributes: entry.attributes,
+      value: histogram.sum,
+      startTimestamp: previous?.startTimestamp ?? entry.firstTimestamp,
+      lastTimestamp: Math.max(entry.lastTimestamp, previous?.lastTimestamp ?? 0),
+      histogram,
+    };
+
+    const exported = this.temporality === 'cumulative' ? histogram : batchHistogram;
+    output.push({
+      name: entry.name,
+      type: 'histogram',
+      value: exported.sum,
+      timestamp: next.lastTimestamp,
+      startTimestamp:
+        this.temporality === 'cumulative'
+          ? next.startTimestamp
+          : previous?.lastTimestamp ?? entry.firstTimestamp,
+      temporality: this.temporality,
+      attributes: entry.attributes,
+      histogram: exported,
+    });
+
+    return next;
+  }
+
+  /**
+   * Commit the last aggregated batch after a successful export
+   * Also drops series that have not been updated within the retention window
+   */
+  commit(): void {
+    if (this.pending) {
+      for (const [key, state] of this.pending) {
+        this.series.set(key, state);
+      }
+      this.pending = null;
+    }
+
+    const cutoff = Date.now() - SERIES_RETENTION_MS;
+    for (const [key, state] of this.series) {
+      if (state.lastTimestamp < cutoff) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Discard the last aggregated batch (export failed)
+   */
+  discard(): void {
+    this.pending = null;
+  }
+
+  /**
+   * Get the state to persist
+   */
+  getState(): AggregationState {
+    return { series: Object.fromEntries(this.series) };
+  }
+
+  /**
+   * Number of tracked counter series
+   */
+  getSeriesCount(): number {
+    return this.series.size;
+  }
+}
+
+/**
+ * Raw values of one series within a batch
+ */
+interface BatchEntry {
+  name: string;
+  type: 'counter' | 'histogram';
+  attributes: Record<string, string | number>;
+  values: number[];
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+/**
+ * Build a histogram from observations
+ * Bucket i counts values in (bounds[i-1], bounds[i]]; the last bucket is unbounded
+ */
+export function buildHistogram(values: number[], explicitBounds: number[]): HistogramData {
+  const bucketCounts = new Array(explicitBounds.length + 1).fill(0);
+  for (const value of values) {
+    let bucket = explicitBounds.findIndex((bound) => value <= bound);
+    if (bucket === -1) {
+      bucket = explicitBounds.length;
+    }
+    bucketCounts[bucket]++;
+  }
+
+  return {
+    count: values.length,
+    sum: values.reduce((sum, value) => sum + value, 0),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    explicitBounds: [...explicitBounds],
+    bucketCounts,
+  };
+}
+
+/**
+ * Merge two histograms with the same bucket boundaries
+ */
+function mergeHistograms(a: HistogramData, b: HistogramData): HistogramData {
+  return {
+    count: a.count + b.count,
+    sum: a.sum + b.sum,
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+    explicitBounds: [...a.explicitBounds],
+    bucketCounts: a.bucketCounts.map((count, i) => count + b.bucketCounts[i]),
+  };
+}
+
+/**
+ * Compare bucket boundaries
+ */
+function sameBounds(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((bound, i) => bound === b[i]);
+}
@@ -0,0 +1,163 @@
+/**
+ * Local metric archive for vibe-kanban tracker
+ * Appends every metric batch handed to the exporters to IndexedDB, so history survives
+ * successful exports, trimmed queues and long collector outages. Records older than
+ * the retention period are pruned. Ranges can be exported as NDJSON or CSV.
+ */
+
+import type { MetricRecord } from './metrics-collector';
+import { openTimestampedStore, completion, result, deleteBefore } from './indexed-db';
+
+export type ArchiveFormat = 'ndjson' | 'csv';
+
+export interface ArchiveSettings {
+  enabled: boolean;
+  // Days of history to keep (older records are pruned)
+  retentionDays: number;
+}
+
+const DB_NAME = 'vibe-kanban-tracker-archive';
+const DB_VERSION = 1;
+const STORE_NAME = 'metrics';
+const TIMESTAMP_INDEX = 'timestamp';
+
+// Pruning walks the timestamp index, so run it at most once per hour
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed CSV columns; attribute keys follow as extra columns
+const CSV_COLUMNS = ['timestamp', 'time', 'name', 'type', 'value'];
+
+export class MetricArchive {
+  private retentionDays: number;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private lastPruneTime = 0;
+
+  constructor(retentionDays: number) {
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Update the retention period (applied on the next prune)
+   */
+  setRetentionDays(retentionDays: number): void {
+    this.retentionDays = retentionDays;
+    this.lastPruneTime = 0;
+  }
+
+  /**
+   * Append a batch of metrics, pruning expired records when due
+   */
+  async append(metrics: MetricRecord[]): Promise<void> {
+    if (metrics.length > 0) {
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      for (const metric of metrics) {
+        store.add(metric);
+      }
+      await completion(transaction);
+    }
+
+    if (Date.now() - this.lastPruneTime >= PRUNE_INTERVAL_MS) {
+      await this.prune();
+    }
+  }
+
+  /**
+   * Get archived metrics with timestamps in [from, to], oldest first
+   */
+  async query(from: number, to: number): Promise<MetricRecord[]> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+    const request = index.getAll(IDBKeyRange.bound(from, to));
+    return (await result(request)) as MetricRecord[];
+  }
+
+  /**
+   * Count archived metrics
+   */
+  async count(): Promise<number> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    return result(transaction.objectStore(STORE_NAME).count());
+  }
+
+  /**
+   * Delete records older than the retention period
+   * Returns the number of deleted records
+   */
+  async prune(): Promise<number> {
+    this.lastPruneTime = Date.now();
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+
+    const db = await this.open();
+    const deleted = await deleteBefore(db, STORE_NAME, TIMESTAMP_INDEX, cutoff);
+
+    if (deleted > 0) {
+      console.log('[vibe-tracker] Pruned ' + deleted + ' archived metrics older than ' + this.retentionDays + ' days');
+    }
+    return deleted;
+  }
+
+  /**
+   * Open (and create on first use) the archive database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openTimestampedStore(DB_NAME, DB_VERSION, STORE_NAME, TIMESTAMP_INDEX);
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Serialize archived metrics in the requested download format
+ */
+export function formatArchive(metrics: MetricRecord[], format: ArchiveFormat): string {
+  return format === 'csv' ? toCSV(metrics) : toNDJSON(metrics);
+}
+
+/**
+ * One JSON object per line
+ */
+export function toNDJSON(metrics: MetricRecord[]): string {
+  return metrics.map((metric) => JSON.stringify(metric) + '\n').join('');
+}
+
+/**
+ * CSV with a header row; every attribute key seen in the range becomes a column
+ */
+export function toCSV(metrics: MetricRecord[]): string {
+  const attributeKeys = Array.from(
+    new Set(metrics.flatMap((metric) => Object.keys(metric.attributes)))
+  ).sort();
+
+  const rows = [[...CSV_COLUMNS, ...attributeKeys]];
+  for (const metric of metrics) {
+    rows.push([
+      String(metric.timestamp),
+      new Date(metric.timestamp).toISOString(),
+      metric.name,
+      metric.type,
+      String(metric.value),
+      ...attributeKeys.map((key) =>
+        metric.attributes[key] === undefined ? '' : String(metric.attributes[key])
+      ),
+    ]);
+  }
+
+  return rows.map((row) => row.map(escapeCSV).join(',') + '\n').join('');
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ */
+function escapeCSV(value: string): string {
+  return /[",\r\n]/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value;
+}
@@ -5,13 +5,34 @@
 
 import type { ParsedRoute } from '../content/url-parser';
 import type { ProjectNameCache } from './project-name-cache';
+import type { ApiEndpoint, ApiErrorKind } from './api-client';
+import type { TaskEffort } from './task-effort-ledger';
+import type { ActivityState, ActivitySubState } from './state-machine';
+
+/**
+ * Histogram data point (explicit bucket boundaries, OTLP semantics)
+ */
+export interface HistogramData {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  explicitBounds: number[];
+  bucketCounts: number[];
+}
 
 export interface MetricRecord {
   name: string;
-  type: 'counter' | 'gauge';
+  type: 'counter' | 'gauge' | 'histogram';
   value: number;
   timestamp: number;
   attributes: Record<string, string | number>;
+  // Start of the aggregation window (set by MetricAggregator for counters)
+  startTimestamp?: number;
+  // Counter/histogram temporality (set by MetricAggregator, raw records have none)
+  temporality?: 'cumulative' | 'delta';
+  // Bucketed observations (set by MetricAggregator for histograms)
+  histogram?: HistogramData;
 }
 
 export class MetricsCollector {
@@ -24,16 +45,55 @@ export class MetricsCollector {
   }
 
   /**
-   * Record active time duration
+   * Record the duration of one stay in an activity state on a route (histogram observation)
+   * e.g. vibe_kanban.idle_time.duration_ms for idle
+   */
+  recordStateTime(
+    state: ActivityState,
+    durationMs: number,
+    route: ParsedRoute,
+    machineId: string
+  ): void {
+    this.addMetric({
+      name: 'vibe_kanban.' + state + '_time.duration_ms',
+      type: 'histogram',
+      value: durationMs,
+      timestamp: Date.now(),
+      attributes: this.buildRouteAttributes(route, machineId),
+    });
+  }
+
+  /**
+   * Add time spent in an activity state on a route, reported as it passes (counter)
+   * e.g. vibe_kanban.idle_time.total_ms for idle
+   */
+  recordStateTimeTotal(
+    state: ActivityState,
+    durationMs: number,
+    route: ParsedRoute,
+    machineId: string
+  ): void {
+    this.addMetric({
+      name: 'vibe_kanban.' + state + '_time.total_ms',
+      type: 'counter',
+      value: durationMs,
+      timestamp: Date.now(),
+      attributes: this.buildRouteAttributes(route, machineId),
+    });
+  }
+
+  /**
+   * Record time spent in an activity sub-state (waiting on agent or reviewing, histogram observation)
    */
-  recordActiveTime(
+  recordSubStateTime(
+    subState: ActivitySubState,
     durationMs: number,
     route: ParsedRoute,
     machineId: string
   ): void {
     this.addMetric({
-      name: 'vibe_kanban.active_time.duration_ms',
-      type: 'gauge',
+      name: 'vibe_kanban.' + subState + '.duration_ms',
+      type: 'histogram',
       value: durationMs,
       timestamp: Date.now(),
       attributes: this.buildRouteAttributes(route, machineId),
@@ -56,14 +116,14 @@ export class MetricsCollector {
   /**
    * Record scroll event
    */
-  recordScroll(distance: number, machineId: string): void {
+  recordScroll(distance: number, machineId: string, instance?: string): void {
     // Record scroll count
     this.addMetric({
       name: 'vibe_kanban.scroll.count',
       type: 'counter',
       value: 1,
       timestamp: Date.now(),
-      attributes: { machine_id: machineId },
+      attributes: buildInstanceAttributes(machineId, instance),
     });
 
     // Record scroll distance
@@ -72,12 +132,12 @@ export class MetricsCollector {
       type: 'counter',
       value: distance,
       timestamp: Date.now(),
-      attributes: { machine_id: machineId },
+      attributes: buildInstanceAttributes(machineId, instance),
     });
   }
 
   /**
-   * Record view duration (diffs or preview)
+   * Record view duration (diffs or preview, histogram observation)
    */
   recordViewDuration(
     view: 'diffs' | 'preview',
@@ -87,7 +147,7 @@ export class MetricsCollector {
   ): void {
     this.addMetric({
       name: 'vibe_kanban.view.duration_ms',
-      type: 'gauge',
+      type: 'histogram',
       value: durationMs,
       timestamp: Date.now(),
       attributes: {
@@ -131,16 +191,87 @@ export class MetricsCollector {
       attributes: this.buildRouteAttributes(route, machineId),
     });
 
-    // Record message length
+    // Record message length (histogram observation)
     this.addMetric({
       name: 'vibe_kanban.message_sent.length',
-      type: 'gauge',
+      type: 'histogram',
       value: messageLength,
       timestamp: Date.now(),
       attributes: this.buildRouteAttributes(route, machineId),
     });
   }
 
+  /**
+   * Record a failed vibe-kanban API request
+   */
+  recordApiError(
+    endpoint: ApiEndpoint,
+    kind: ApiErrorKind,
+    machineId: string,
+    instance?: string
+  ): void {
+    this.addMetric({
+      name: 'vibe_kanban.api.errors',
+      type: 'counter',
+      value: 1,
+      timestamp: Date.now(),
+      attributes: {
+        ...buildInstanceAttributes(machineId, instance),
+        endpoint,
+        kind,
+      },
+    });
+  }
+
+  /**
+   * Record vibe-kanban API records that failed validation
+   * @param count - Number of affected records in the response
+   * @param dropped - Whether the records were dropped (required field) or kept (flagged)
+   */
+  recordValidationFailure(
+    endpoint: ApiEndpoint,
+    field: string,
+    count: number,
+    dropped: boolean,
+    machineId: string,
+    instance?: string
+  ): void {
+    this.addMetric({
+      name: 'vibe_kanban.api.validation_failures',
+      type: 'counter',
+      value: count,
+      timestamp: Date.now(),
+      attributes: {
+        ...buildInstanceAttributes(machineId, instance),
+        endpoint,
+        field,
+        action: dropped ? 'dropped' : 'flagged',
+      },
+    });
+  }
+
+  /**
+   * Record the effort summary of a task that reached done or cancelled (one gauge point per measure)
+   */
+  recordTaskEffort(effort: TaskEffort, status: 'done' | 'cancelled', machineId: string): void {
+    const timestamp = Date.now();
+    const attributes = {
+      ...buildTaskEffortAttributes(effort, machineId, this.projectNameCache),
+      status,
+    };
+    const measures: Array<[string, number]> = [
+      ['vibe_kanban.task_effort.active_time_ms', effort.activeTimeMs],
+      ['vibe_kanban.task_effort.messages_sent', effort.messagesSent],
+      ['vibe_kanban.task_effort.characters_typed', effort.charactersTyped],
+      ['vibe_kanban.task_effort.view_time_ms', effort.viewTimeMs],
+      ['vibe_kanban.task_effort.interventions', effort.interventions],
+    ];
+
+    for (const [name, value] of measures) {
+      this.addMetric({ name, type: 'gauge', value, timestamp, attributes: { ...attributes } });
+    }
+  }
+
   /**
    * Flush all metrics and clear the queue
    * Returns the flushed metrics
@@ -187,31 +318,77 @@ export class MetricsCollector {
     route: ParsedRoute,
     machineId: string
   ): Record<string, string | number> {
-    const attrs: Record<string, string | number> = {
-      machine_id: machineId,
-      route_type: route.type,
-    };
+    return buildRouteAttributes(route, machineId, this.projectNameCache);
+  }
+}
+
+/**
+ * Build attributes for metrics without a route (machine and, if known, instance)
+ */
+export function buildInstanceAttributes(
+  machineId: string,
+  instance?: string
+): Record<string, string | number> {
+  const attrs: Record<string, string | number> = { machine_id: machineId };
+  if (instance) {
+    attrs['vibe_kanban.instance'] = instance;
+  }
+  return attrs;
+}
 
-    if (route.workspaceId) {
-      attrs.workspace_id = route.workspaceId;
+/**
+ * Build attributes identifying the task of an effort summary (shared by metrics and logs)
+ */
+export function buildTaskEffortAttributes(
+  effort: TaskEffort,
+  machineId: string,
+  projectNameCache?: ProjectNameCache
+): Record<string, string | number> {
+  const attrs = buildInstanceAttributes(machineId, effort.instance);
+  if (effort.projectId) {
+    attrs.project_id = effort.projectId;
+    const projectName = projectNameCache?.get(effort.projectId);
+    if (projectName) {
+      attrs.project_name = projectName;
     }
-    if (route.projectId) {
-      attrs.project_id = route.projectId;
-      // Enrich with project name if cache is available and has the name
-      if (this.projectNameCache) {
-        const projectName = this.projectNameCache.get(route.projectId);
-        if (projectName) {
-          attrs.project_name = projectName;
-        }
+  }
+  attrs.task_id = effort.taskId;
+  return attrs;
+}
+
+/**
+ * Build common route attributes (shared by metrics and spans)
+ * Project names are added when the cache already knows them
+ */
+export function buildRouteAttributes(
+  route: ParsedRoute,
+  machineId: string,
+  projectNameCache?: ProjectNameCache
+): Record<string, string | number> {
+  const attrs: Record<string, string | number> = {
+    ...buildInstanceAttributes(machineId, route.instance),
+    route_type: route.type,
+  };
+
+  if (route.workspaceId) {
+    attrs.workspace_id = route.workspaceId;
+  }
+  if (route.projectId) {
+    attrs.project_id = route.projectId;
+    // Enrich with project name if cache is available and has the name
+    if (projectNameCache) {
+      const projectName = projectNameCache.get(route.projectId);
+      if (projectName) {
+        attrs.project_name = projectName;
       }
     }
-    if (route.taskId) {
-      attrs.task_id = route.taskId;
-    }
-    if (route.view) {
-      attrs.view = route.view;
-    }
-
-    return attrs;
   }
+  if (route.taskId) {
+    attrs.task_id = route.taskId;
+  }
+  if (route.view) {
+    attrs.view = route.view;
+  }
+
+  return attrs;
 }
@@ -1,20 +1,45 @@
 /**
  * OpenTelemetry OTLP/HTTP Exporter for vibe-kanban tracker
- * Exports metrics to OTel collector using OTLP JSON format
+ * Exports metrics, session traces and event logs to OTel collector using OTLP JSON or protobuf format
  */
 
 import type { MetricRecord } from './metrics-collector';
+import type { SpanRecord } from './session-tracer';
+import type { LogRecord } from './event-logger';
+import { encodeMetricsRequest, encodeTracesRequest, encodeLogsRequest } from './otlp-protobuf';
+import { postWithRetry, type ExportResult } from './http-export';
+
+// OTLP/HTTP payload encoding
+export type OTLPEncoding = 'json' | 'protobuf';
+
+// OTLP/HTTP request body compression
+export type OTLPCompression = 'none' | 'gzip';
+
+// Authentication scheme for the OTLP endpoint
+export type OTLPAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string };
 
 export interface OTelExporterConfig {
   endpoint: string;
   serviceName: string;
   serviceVersion: string;
   machineId: string;
+  encoding?: OTLPEncoding;
+  compression?: OTLPCompression;
+  headers?: Record<string, string>;
+  // Attempts per export call (default 3, with 1s/2s backoff in between)
+  maxAttempts?: number;
 }
 
-// Retry configuration
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 1000;
+/**
+ * Encoded OTLP request body with the headers describing it
+ */
+export interface EncodedOTLPRequest {
+  body: string | Uint8Array<ArrayBuffer>;
+  headers: Record<string, string>;
+}
 
 export class OTelExporter {
   private config: OTelExporterConfig;
@@ -30,101 +55,126 @@ export class OTelExporter {
     this.config.machineId = machineId;
   }
 
+  /**
+   * Update the payload encoding and compression
+   */
+  setTransport(encoding: OTLPEncoding, compression: OTLPCompression): void {
+    this.config.encoding = encoding;
+    this.config.compression = compression;
+  }
+
+  /**
+   * Update the custom request headers (auth, tenant, etc.)
+   */
+  setHeaders(headers: Record<string, string>): void {
+    this.config.headers = { ...headers };
+  }
+
   /**
    * Export metrics to OTel collector with retry logic
-   * Returns true if export succeeded, false otherwise
    */
-  async export(metrics: MetricRecord[]): Promise<boolean> {
+  async export(metrics: MetricRecord[]): Promise<ExportResult> {
     if (metrics.length === 0) {
-      return true; // Nothing to export
+      return 'success'; // Nothing to export
     }
 
     const payload = this.formatOTLPPayload(metrics);
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        const body = JSON.stringify(payload);
-        const response = await fetch(this.config.endpoint + '/v1/metrics', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body,
-        });
-
-        if (response.ok) {
-          console.log(
-            '[vibe-tracker] Exported ' + metrics.length + ' metrics successfully'
-          );
-          return true;
-        }
-
-        // Non-retryable HTTP errors (4xx except 429)
-        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-          const responseText = await response.text();
-          console.error(
-            '[vibe-tracker] Export failed with status ' + response.status + ', response:',
-            responseText
-          );
-          console.error('[vibe-tracker] Payload was:', body.substring(0, 2000));
-          return false;
-        }
-
-        lastError = new Error('HTTP ' + response.status + ': ' + response.statusText);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.warn(
-          '[vibe-tracker] Export attempt ' + (attempt + 1) + '/' + MAX_RETRIES + ' failed:',
-          lastError.message
-        );
-      }
+    return this.send(
+      '/v1/metrics',
+      payload,
+      () => encodeMetricsRequest(payload),
+      metrics.length + ' metrics'
+    );
+  }
 
-      // Exponential backoff: 1s, 2s, 4s
-      if (attempt < MAX_RETRIES - 1) {
-        const backoffMs = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-        await this.sleep(backoffMs);
-      }
+  /**
+   * Export completed spans to OTel collector with retry logic
+   */
+  async exportSpans(spans: SpanRecord[]): Promise<ExportResult> {
+    if (spans.length === 0) {
+      return 'success'; // Nothing to export
+    }
+
+    const payload = this.formatTracesPayload(spans);
+    return this.send(
+      '/v1/traces',
+      payload,
+      () => encodeTracesRequest(payload),
+      spans.length + ' spans'
+    );
+  }
+
+  /**
+   * Export event log records to OTel collector with retry logic
+   */
+  async exportLogs(records: LogRecord[]): Promise<ExportResult> {
+    if (records.length === 0) {
+      return 'success'; // Nothing to export
     }
 
-    console.error(
-      '[vibe-tracker] Export failed after ' + MAX_RETRIES + ' attempts:',
-      lastError?.message
+    const payload = this.formatLogsPayload(records);
+    return this.send(
+      '/v1/logs',
+      payload,
+      () => encodeLogsRequest(payload),
+      records.length + ' log records'
+    );
+  }
+
+  /**
+   * POST an OTLP payload to a signal path with retry logic
+   */
+  private async send(
+    path: string,
+    payload: object,
+    encodeProtobuf: () => Uint8Array<ArrayBuffer>,
+    description: string
+  ): Promise<ExportResult> {
+    const { body, headers: encodingHeaders } = await encodeOTLPRequest(
+      payload,
+      encodeProtobuf,
+      this.config.encoding ?? 'json',
+      this.config.compression ?? 'none'
+    );
+    const headers = { ...this.config.headers, ...encodingHeaders };
+
+    return postWithRetry(
+      this.config.endpoint + path,
+      body,
+      headers,
+      description,
+      () => JSON.stringify(payload),
+      this.config.maxAttempts
     );
-    return false;
   }
 
   /**
    * Format metrics into OTLP JSON structure
    */
   private formatOTLPPayload(metrics: MetricRecord[]): OTLPMetricsPayload {
-    const otlpMetrics = metrics.map((metric) => this.formatMetric(metric));
+    // Group data points of the same metric name into a single OTLP metric
+    const otlpMetrics: OTLPMetric[] = [];
+    const metricsByName = new Map<string, OTLPMetric>();
+    for (const metric of metrics) {
+      const otlpMetric = this.formatMetric(metric);
+      const existing = metricsByName.get(this.getGroupKey(metric));
+      if (existing) {
+        existing.sum?.dataPoints.push(...otlpMetric.sum!.dataPoints);
+        existing.gauge?.dataPoints.push(...otlpMetric.gauge!.dataPoints);
+        existing.histogram?.dataPoints.push(...otlpMetric.histogram!.dataPoints);
+      } else {
+        metricsByName.set(this.getGroupKey(metric), otlpMetric);
+        otlpMetrics.push(otlpMetric);
+      }
+    }
 
     return {
       resourceMetrics: [
         {
-          resource: {
-            attributes: [
-              {
-                key: 'service.name',
-                value: { stringValue: this.config.serviceName },
-              },
-              {
-                key: 'service.version',
-                value: { stringValue: this.config.serviceVersion },
-              },
-              {
-                key: 'host.name',
-                value: { stringValue: this.config.machineId },
-              },
-            ],
-          },
+          resource: this.formatResource(),
           scopeMetrics: [
             {
-              scope: {
-                name: this.config.serviceName,
-                version: this.config.serviceVersion,
-              },
+              scope: this.formatScope(),
               metrics: otlpMetrics,
             },
           ],
@@ -133,17 +183,130 @@ export class OTelExporter {
     };
   }
 
+  /**
+   * Format spans into OTLP JSON structure
+   * Trace and span IDs are hex strings, as required by OTLP/JSON
+   */
+  private formatTracesPayload(spans: SpanRecord[]): OTLPTracesPayload {
+    const otlpSpans: OTLPSpan[] = spans.map((span) => {
+      const otlpSpan: OTLPSpan = {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        name: span.name,
+        kind: 1, // SPAN_KIND_INTERNAL
+        startTimeUnixNano: String(span.startTimestamp) + '000000',
+        endTimeUnixNano: String(span.endTimestamp) + '000000',
+        attributes: formatAttributes(span.attributes),
+      };
+      if (span.parentSpanId) {
+        otlpSpan.parentSpanId = span.parentSpanId;
+      }
+      return otlpSpan;
+    });
+
+    return {
+      resourceSpans: [
+        {
+          resource: this.formatResource(),
+          scopeSpans: [
+            {
+              scope: this.formatScope(),
+              spans: otlpSpans,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Format log records into OTLP JSON structure
+   * The event name is sent as the event.name attribute so older collectors keep it
+   */
+  private formatLogsPayload(records: LogRecord[]): OTLPLogsPayload {
+    const logRecords: OTLPLogRecord[] = records.map((record) => {
+      const logRecord: OTLPLogRecord = {
+        timeUnixNano: String(record.timestamp) + '000000',
+        observedTimeUnixNano: String(record.observedTimestamp) + '000000',
+        severityNumber: 9, // SEVERITY_NUMBER_INFO
+        severityText: 'INFO',
+        body: { stringValue: record.body },
+        attributes: [
+          { key: 'event.name', value: { stringValue: record.eventName } },
+          ...formatAttributes(record.attributes),
+        ],
+      };
+      if (record.traceId && record.spanId) {
+        logRecord.traceId = record.traceId;
+        logRecord.spanId = record.spanId;
+      }
+      return logRecord;
+    });
+
+    return {
+      resourceLogs: [
+        {
+          resource: this.formatResource(),
+          scopeLogs: [
+            {
+              scope: this.formatScope(),
+              logRecords,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Resource describing this extension instance (shared by all signals)
+   */
+  private formatResource(): OTLPResource {
+    return {
+      attributes: [
+        {
+          key: 'service.name',
+          value: { stringValue: this.config.serviceName },
+        },
+        {
+          key: 'service.version',
+          value: { stringValue: this.config.serviceVersion },
+        },
+        {
+          key: 'host.name',
+          value: { stringValue: this.config.machineId },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Instrumentation scope (shared by all signals)
+   */
+  private formatScope(): OTLPScope {
+    return {
+      name: this.config.serviceName,
+      version: this.config.serviceVersion,
+    };
+  }
+
+  /**
+   * Key for grouping data points into one OTLP metric
+   * Points with different temporality cannot share a sum or histogram
+   */
+  private getGroupKey(metric: MetricRecord): string {
+    return metric.name + '|' + metric.type + '|' + (metric.temporality ?? 'cumulative');
+  }
+
   /**
    * Format a single metric to OTLP format
    */
   private formatMetric(metric: MetricRecord): OTLPMetric {
-    const attributes = Object.entries(metric.attributes).map(([key, value]) => ({
-      key,
-      value:
-        typeof value === 'string'
-          ? { stringValue: value }
-          : { intValue: String(value) },
-    }));
+    const attributes = formatAttributes(metric.attributes);
+
+    if (metric.type === 'histogram') {
+      return this.formatHistogram(metric, attributes);
+    }
 
     // Use asDouble for float values, asInt for integers
     const isFloat = !Number.isInteger(metric.value);
@@ -153,6 +316,9 @@ export class OTelExporter {
       attributes,
       timeUnixNano,
     };
+    if (metric.startTimestamp !== undefined) {
+      dataPoint.startTimeUnixNano = String(metric.startTimestamp) + '000000';
+    }
 
     if (isFloat) {
       dataPoint.asDouble = metric.value;
@@ -165,7 +331,10 @@ export class OTelExporter {
         name: metric.name,
         sum: {
           dataPoints: [dataPoint],
-          aggregationTemporality: 2, // AGGREGATION_TEMPORALITY_CUMULATIVE
+          aggregationTemporality:
+            metric.temporality === 'delta'
+              ? 1 // AGGREGATION_TEMPORALITY_DELTA
+              : 2, // AGGREGATION_TEMPORALITY_CUMULATIVE
           isMonotonic: true,
         },
       };
@@ -181,27 +350,158 @@ export class OTelExporter {
   }
 
   /**
-   * Sleep helper for backoff
+   * Format a histogram metric to OTLP format
+   * Raw observations without aggregated buckets are sent as a single-observation point
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private formatHistogram(metric: MetricRecord, attributes: OTLPAttribute[]): OTLPMetric {
+    const histogram = metric.histogram ?? {
+      count: 1,
+      sum: metric.value,
+      min: metric.value,
+      max: metric.value,
+      explicitBounds: [],
+      bucketCounts: [1],
+    };
+
+    const dataPoint: OTLPHistogramDataPoint = {
+      attributes,
+      timeUnixNano: String(metric.timestamp) + '000000',
+      count: String(histogram.count),
+      sum: histogram.sum,
+      min: histogram.min,
+      max: histogram.max,
+      bucketCounts: histogram.bucketCounts.map(String),
+      explicitBounds: histogram.explicitBounds,
+    };
+    if (metric.startTimestamp !== undefined) {
+      dataPoint.startTimeUnixNano = String(metric.startTimestamp) + '000000';
+    }
+
+    return {
+      name: metric.name,
+      histogram: {
+        dataPoints: [dataPoint],
+        aggregationTemporality: metric.temporality === 'delta' ? 1 : 2,
+      },
+    };
   }
 }
 
+/**
+ * Encode an OTLP metrics payload for OTLP/HTTP
+ * Shared by the exporter and the options page connection test
+ */
+export function encodeOTLPMetricsRequest(
+  payload: OTLPMetricsPayload,
+  encoding: OTLPEncoding,
+  compression: OTLPCompression
+): Promise<EncodedOTLPRequest> {
+  return encodeOTLPRequest(payload, () => encodeMetricsRequest(payload), encoding, compression);
+}
+
+/**
+ * Encode an OTLP payload of any signal for OTLP/HTTP
+ */
+async function encodeOTLPRequest(
+  payload: object,
+  encodeProtobuf: () => Uint8Array<ArrayBuffer>,
+  encoding: OTLPEncoding,
+  compression: OTLPCompression
+): Promise<EncodedOTLPRequest> {
+  const headers: Record<string, string> = {
+    'Content-Type': encoding === 'protobuf' ? 'application/x-protobuf' : 'application/json',
+  };
+  const body = encoding === 'protobuf' ? encodeProtobuf() : JSON.stringify(payload);
+
+  if (compression === 'gzip') {
+    if (typeof CompressionStream === 'undefined') {
+      console.warn('[vibe-tracker] CompressionStream unavailable, sending uncompressed payload');
+      return { body, headers };
+    }
+    headers['Content-Encoding'] = 'gzip';
+    return { body: await gzip(body), headers };
+  }
+
+  return { body, headers };
+}
+
+/**
+ * Build the custom request headers for the OTLP endpoint
+ * Combines the configured header map with the Authorization header for the auth scheme
+ */
+export function buildOTLPHeaders(
+  headers: Record<string, string>,
+  auth: OTLPAuth
+): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.trim()) {
+      result[name.trim()] = value;
+    }
+  }
+
+  if (auth.type === 'bearer' && auth.token) {
+    result['Authorization'] = 'Bearer ' + auth.token;
+  } else if (auth.type === 'basic' && auth.username) {
+    const credentials = new TextEncoder().encode(auth.username + ':' + auth.password);
+    result['Authorization'] = 'Basic ' + btoa(String.fromCharCode(...credentials));
+  }
+
+  return result;
+}
+
+/**
+ * Format record attributes as OTLP key/value pairs
+ */
+function formatAttributes(attributes: Record<string, string | number>): OTLPAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : Number.isInteger(value)
+          ? { intValue: String(value) }
+          : { doubleValue: value },
+  }));
+}
+
+/**
+ * Gzip a request body using the CompressionStream API
+ */
+async function gzip(body: string | Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  const stream = new Response(bytes).body!.pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
 // OTLP Type definitions
-interface OTLPAttribute {
+export interface OTLPAttribute {
   key: string;
-  value: { stringValue: string } | { intValue: string };
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number };
 }
 
-interface OTLPDataPoint {
+export interface OTLPDataPoint {
   attributes: OTLPAttribute[];
+  startTimeUnixNano?: string;
   timeUnixNano: string;
   asInt?: string;
   asDouble?: number;
 }
 
-interface OTLPMetric {
+export interface OTLPHistogramDataPoint {
+  attributes: OTLPAttribute[];
+  startTimeUnixNano?: string;
+  timeUnixNano: string;
+  count: string;
+  sum: number;
+  min: number;
+  max: number;
+  bucketCounts: string[];
+  explicitBounds: number[];
+}
+
+export interface OTLPMetric {
   name: string;
   sum?: {
     dataPoints: OTLPDataPoint[];
@@ -211,23 +511,81 @@ interface OTLPMetric {
   gauge?: {
     dataPoints: OTLPDataPoint[];
   };
+  histogram?: {
+    dataPoints: OTLPHistogramDataPoint[];
+    aggregationTemporality: number;
+  };
 }
 
-interface OTLPScopeMetrics {
-  scope: {
-    name: string;
-    version: string;
-  };
+export interface OTLPResource {
+  attributes: OTLPAttribute[];
+}
+
+export interface OTLPScope {
+  name: string;
+  version: string;
+}
+
+export interface OTLPScopeMetrics {
+  scope: OTLPScope;
   metrics: OTLPMetric[];
 }
 
-interface OTLPResourceMetrics {
-  resource: {
-    attributes: OTLPAttribute[];
-  };
+export interface OTLPResourceMetrics {
+  resource: OTLPResource;
   scopeMetrics: OTLPScopeMetrics[];
 }
 
-interface OTLPMetricsPayload {
+export interface OTLPMetricsPayload {
   resourceMetrics: OTLPResourceMetrics[];
 }
+
+export interface OTLPSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OTLPAttribute[];
+}
+
+export interface OTLPScopeSpans {
+  scope: OTLPScope;
+  spans: OTLPSpan[];
+}
+
+export interface OTLPResourceSpans {
+  resource: OTLPResource;
+  scopeSpans: OTLPScopeSpans[];
+}
+
+export interface OTLPTracesPayload {
+  resourceSpans: OTLPResourceSpans[];
+}
+
+export interface OTLPLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: { stringValue: string };
+  attributes: OTLPAttribute[];
+  traceId?: string;
+  spanId?: string;
+}
+
+export interface OTLPScopeLogs {
+  scope: OTLPScope;
+  logRecords: OTLPLogRecord[];
+}
+
+export interface OTLPResourceLogs {
+  resource: OTLPResource;
+  scopeLogs: OTLPScopeLogs[];
+}
+
+export interface OTLPLogsPayload {
+  resourceLogs: OTLPResourceLogs[];
+}
@@ -0,0 +1,394 @@
+/**
+ * Minimal protobuf encoder for OTLP payloads
+ * Encodes the same structures OTelExporter builds for OTLP/JSON into the
+ * binary wire format defined by opentelemetry-proto (no runtime dependency)
+ */
+
+import type {
+  OTLPAttribute,
+  OTLPDataPoint,
+  OTLPHistogramDataPoint,
+  OTLPLogRecord,
+  OTLPLogsPayload,
+  OTLPMetric,
+  OTLPMetricsPayload,
+  OTLPResource,
+  OTLPScope,
+  OTLPSpan,
+  OTLPTracesPayload,
+} from './otel-exporter';
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Append-only protobuf writer
+ * Field helpers skip undefined values so optional OTLP fields can be passed through as-is
+ */
+export class ProtobufWriter {
+  private bytes: number[] = [];
+
+  /**
+   * Write a field tag (field number + wire type)
+   */
+  private tag(field: number, wireType: number): void {
+    this.rawVarint(BigInt((field << 3) | wireType));
+  }
+
+  /**
+   * Write an unsigned 64-bit varint (negative values are two's complement encoded)
+   */
+  private rawVarint(value: bigint): void {
+    let remaining = BigInt.asUintN(64, value);
+    while (remaining > 0x7fn) {
+      this.bytes.push(Number(remaining & 0x7fn) | 0x80);
+      remaining >>= 7n;
+    }
+    this.bytes.push(Number(remaining));
+  }
+
+  /**
+   * Write little-endian 8 bytes from a DataView setter
+   */
+  private rawFixed64(write: (view: DataView) => void): void {
+    const view = new DataView(new ArrayBuffer(8));
+    write(view);
+    for (let i = 0; i < 8; i++) {
+      this.bytes.push(view.getUint8(i));
+    }
+  }
+
+  /**
+   * Write a varint field (uint32, uint64, int64, enum)
+   */
+  varint(field: number, value: number | bigint | string | undefined): void {
+    if (value === undefined) return;
+    this.tag(field, WIRE_VARINT);
+    this.rawVarint(BigInt(value));
+  }
+
+  /**
+   * Write a bool field
+   */
+  bool(field: number, value: boolean | undefined): void {
+    if (value === undefined) return;
+    this.varint(field, value ? 1 : 0);
+  }
+
+  /**
+   * Write a fixed64 field (unsigned, e.g. timestamps in nanoseconds)
+   */
+  fixed64(field: number, value: number | bigint | string | undefined): void {
+    if (value === undefined) return;
+    this.tag(field, WIRE_FIXED64);
+    const bigValue = BigInt.asUintN(64, BigInt(value));
+    this.rawFixed64((view) => view.setBigUint64(0, bigValue, true));
+  }
+
+  /**
+   * Write an sfixed64 field (signed)
+   */
+  sfixed64(field: number, value: number | bigint | string | undefined): void {
+    if (value === undefined) return;
+    this.tag(field, WIRE_FIXED64);
+    const bigValue = BigInt.asIntN(64, BigInt(value));
+    this.rawFixed64((view) => view.setBigInt64(0, bigValue, true));
+  }
+
+  /**
+   * Write a double field
+   */
+  double(field: number, value: number | undefined): void {
+    if (value === undefined) return;
+    this.tag(field, WIRE_FIXED64);
+    this.rawFixed64((view) => view.setFloat64(0, value, true));
+  }
+
+  /**
+   * Write a string field (UTF-8)
+   */
+  string(field: number, value: string | undefined): void {
+    if (value === undefined) return;
+    this.bytesField(field, textEncoder.encode(value));
+  }
+
+  /**
+   * Write a bytes field
+   */
+  bytesField(field: number, value: Uint8Array | undefined): void {
+    if (value === undefined) return;
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.rawVarint(BigInt(value.length));
+    for (let i = 0; i < value.length; i++) {
+      this.bytes.push(value[i]);
+    }
+  }
+
+  /**
+   * Write an embedded message field
+   */
+  message(field: number, encode: (writer: ProtobufWriter) => void): void {
+    const nested = new ProtobufWriter();
+    encode(nested);
+    this.bytesField(field, nested.finish());
+  }
+
+  /**
+   * Write a packed repeated fixed64 field
+   */
+  packedFixed64(field: number, values: Array<number | string> | undefined): void {
+    if (!values || values.length === 0) return;
+    const nested = new ProtobufWriter();
+    for (const value of values) {
+      const bigValue = BigInt.asUintN(64, BigInt(value));
+      nested.rawFixed64((view) => view.setBigUint64(0, bigValue, true));
+    }
+    this.bytesField(field, nested.finish());
+  }
+
+  /**
+   * Write a packed repeated double field
+   */
+  packedDouble(field: number, values: number[] | undefined): void {
+    if (!values || values.length === 0) return;
+    const nested = new ProtobufWriter();
+    for (const value of values) {
+      nested.rawFixed64((view) => view.setFloat64(0, value, true));
+    }
+    this.bytesField(field, nested.finish());
+  }
+
+  /**
+   * Get the encoded bytes
+   */
+  finish(): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Encode a KeyValue attribute (opentelemetry.proto.common.v1.KeyValue)
+ */
+export function encodeAttribute(writer: ProtobufWriter, attribute: OTLPAttribute): void {
+  writer.string(1, attribute.key);
+  writer.message(2, (anyValue) => {
+    const value = attribute.value;
+    if ('stringValue' in value) {
+      anyValue.string(1, value.stringValue);
+    } else if ('intValue' in value) {
+      anyValue.varint(3, value.intValue);
+    } else if ('doubleValue' in value) {
+      anyValue.double(4, value.doubleValue);
+    }
+  });
+}
+
+/**
+ * Encode a Resource (opentelemetry.proto.resource.v1.Resource)
+ */
+function encodeResource(writer: ProtobufWriter, resource: OTLPResource): void {
+  for (const attribute of resource.attributes) {
+    writer.message(1, (w) => encodeAttribute(w, attribute));
+  }
+}
+
+/**
+ * Encode an InstrumentationScope (opentelemetry.proto.common.v1.InstrumentationScope)
+ */
+function encodeScope(writer: ProtobufWriter, scope: OTLPScope): void {
+  writer.string(1, scope.name);
+  writer.string(2, scope.version);
+}
+
+/**
+ * Encode a NumberDataPoint (opentelemetry.proto.metrics.v1.NumberDataPoint)
+ */
+function encodeNumberDataPoint(writer: ProtobufWriter, dataPoint: OTLPDataPoint): void {
+  writer.fixed64(2, dataPoint.startTimeUnixNano);
+  writer.fixed64(3, dataPoint.timeUnixNano);
+  writer.double(4, dataPoint.asDouble);
+  writer.sfixed64(6, dataPoint.asInt);
+  for (const attribute of dataPoint.attributes) {
+    writer.message(7, (w) => encodeAttribute(w, attribute));
+  }
+}
+
+/**
+ * Encode a HistogramDataPoint (opentelemetry.proto.metrics.v1.HistogramDataPoint)
+ */
+function encodeHistogramDataPoint(writer: ProtobufWriter, dataPoint: OTLPHistogramDataPoint): void {
+  writer.fixed64(2, dataPoint.startTimeUnixNano);
+  writer.fixed64(3, dataPoint.timeUnixNano);
+  writer.fixed64(4, dataPoint.count);
+  writer.double(5, dataPoint.sum);
+  writer.packedFixed64(6, dataPoint.bucketCounts);
+  writer.packedDouble(7, dataPoint.explicitBounds);
+  for (const attribute of dataPoint.attributes) {
+    writer.message(9, (w) => encodeAttribute(w, attribute));
+  }
+  writer.double(11, dataPoint.min);
+  writer.double(12, dataPoint.max);
+}
+
+/**
+ * Encode a Metric (opentelemetry.proto.metrics.v1.Metric)
+ */
+function encodeMetric(writer: ProtobufWriter, metric: OTLPMetric): void {
+  writer.string(1, metric.name);
+
+  if (metric.gauge) {
+    const gauge = metric.gauge;
+    writer.message(5, (w) => {
+      for (const dataPoint of gauge.dataPoints) {
+        w.message(1, (dp) => encodeNumberDataPoint(dp, dataPoint));
+      }
+    });
+  }
+
+  if (metric.sum) {
+    const sum = metric.sum;
+    writer.message(7, (w) => {
+      for (const dataPoint of sum.dataPoints) {
+        w.message(1, (dp) => encodeNumberDataPoint(dp, dataPoint));
+      }
+      w.varint(2, sum.aggregationTemporality);
+      w.bool(3, sum.isMonotonic);
+    });
+  }
+
+  if (metric.histogram) {
+    const histogram = metric.histogram;
+    writer.message(9, (w) => {
+      for (const dataPoint of histogram.dataPoints) {
+        w.message(1, (dp) => encodeHistogramDataPoint(dp, dataPoint));
+      }
+      w.varint(2, histogram.aggregationTemporality);
+    });
+  }
+}
+
+/**
+ * Encode an ExportMetricsServiceRequest
+ * (opentelemetry.proto.collector.metrics.v1.ExportMetricsServiceRequest)
+ */
+export function encodeMetricsRequest(payload: OTLPMetricsPayload): Uint8Array<ArrayBuffer> {
+  const writer = new ProtobufWriter();
+
+  for (const resourceMetrics of payload.resourceMetrics) {
+    writer.message(1, (rm) => {
+      rm.message(1, (w) => encodeResource(w, resourceMetrics.resource));
+
+      for (const scopeMetrics of resourceMetrics.scopeMetrics) {
+        rm.message(2, (sm) => {
+          sm.message(1, (w) => encodeScope(w, scopeMetrics.scope));
+          for (const metric of scopeMetrics.metrics) {
+            sm.message(2, (w) => encodeMetric(w, metric));
+          }
+        });
+      }
+    });
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Encode a Span (opentelemetry.proto.trace.v1.Span)
+ */
+function encodeSpan(writer: ProtobufWriter, span: OTLPSpan): void {
+  writer.bytesField(1, hexToBytes(span.traceId));
+  writer.bytesField(2, hexToBytes(span.spanId));
+  if (span.parentSpanId) {
+    writer.bytesField(4, hexToBytes(span.parentSpanId));
+  }
+  writer.string(5, span.name);
+  writer.varint(6, span.kind);
+  writer.fixed64(7, span.startTimeUnixNano);
+  writer.fixed64(8, span.endTimeUnixNano);
+  for (const attribute of span.attributes) {
+    writer.message(9, (w) => encodeAttribute(w, attribute));
+  }
+}
+
+/**
+ * Encode an ExportTraceServiceRequest
+ * (opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest)
+ */
+export function encodeTracesRequest(payload: OTLPTracesPayload): Uint8Array<ArrayBuffer> {
+  const writer = new ProtobufWriter();
+
+  for (const resourceSpans of payload.resourceSpans) {
+    writer.message(1, (rs) => {
+      rs.message(1, (w) => encodeResource(w, resourceSpans.resource));
+
+      for (const scopeSpans of resourceSpans.scopeSpans) {
+        rs.message(2, (ss) => {
+          ss.message(1, (w) => encodeScope(w, scopeSpans.scope));
+          for (const span of scopeSpans.spans) {
+            ss.message(2, (w) => encodeSpan(w, span));
+          }
+        });
+      }
+    });
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Encode a LogRecord (opentelemetry.proto.logs.v1.LogRecord)
+ */
+function encodeLogRecord(writer: ProtobufWriter, record: OTLPLogRecord): void {
+  writer.fixed64(1, record.timeUnixNano);
+  writer.varint(2, record.severityNumber);
+  writer.string(3, record.severityText);
+  writer.message(5, (body) => body.string(1, record.body.stringValue));
+  for (const attribute of record.attributes) {
+    writer.message(6, (w) => encodeAttribute(w, attribute));
+  }
+  if (record.traceId && record.spanId) {
+    writer.bytesField(9, hexToBytes(record.traceId));
+    writer.bytesField(10, hexToBytes(record.spanId));
+  }
+  writer.fixed64(11, record.observedTimeUnixNano);
+}
+
+/**
+ * Encode an ExportLogsServiceRequest
+ * (opentelemetry.proto.collector.logs.v1.ExportLogsServiceRequest)
+ */
+export function encodeLogsRequest(payload: OTLPLogsPayload): Uint8Array<ArrayBuffer> {
+  const writer = new ProtobufWriter();
+
+  for (const resourceLogs of payload.resourceLogs) {
+    writer.message(1, (rl) => {
+      rl.message(1, (w) => encodeResource(w, resourceLogs.resource));
+
+      for (const scopeLogs of resourceLogs.scopeLogs) {
+        rl.message(2, (sl) => {
+          sl.message(1, (w) => encodeScope(w, scopeLogs.scope));
+          for (const record of scopeLogs.logRecords) {
+            sl.message(2, (w) => encodeLogRecord(w, record));
+          }
+        });
+      }
+    });
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Convert a hex ID (OTLP/JSON form) to raw bytes (protobuf form)
+ */
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
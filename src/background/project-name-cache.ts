@@ -1,7 +1,7 @@
 /**
  * Project Name Cache for vibe-kanban tracker
  * In-memory cache that maps project UUIDs to human-readable names
- * Refreshed by ApiMetricsCollector during each polling cycle
+ * Refreshed by TaskSnapshotStore on each snapshot refresh
  */
 
 export class ProjectNameCache {
@@ -0,0 +1,236 @@
+/**
+ * Prometheus remote-write exporter for vibe-kanban tracker
+ * Sends aggregated metrics as a snappy-compressed protobuf WriteRequest (remote-write 1.0),
+ * for setups that run Prometheus without an OTel collector
+ */
+
+import type { MetricRecord } from './metrics-collector';
+import { ProtobufWriter } from './otlp-protobuf';
+import { snappyCompress } from './snappy';
+import { postWithRetry, type ExportResult } from './http-export';
+
+export interface PrometheusExporterConfig {
+  // Full remote-write URL (e.g. http://localhost:9090/api/v1/write)
+  endpoint: string;
+  serviceName: string;
+  machineId: string;
+  headers?: Record<string, string>;
+  // Attempts per export call (default 3, with 1s/2s backoff in between)
+  maxAttempts?: number;
+}
+
+export interface PrometheusLabel {
+  name: string;
+  value: string;
+}
+
+export interface PrometheusSample {
+  value: number;
+  // Milliseconds since epoch
+  timestamp: number;
+}
+
+export interface PrometheusTimeSeries {
+  labels: PrometheusLabel[];
+  samples: PrometheusSample[];
+}
+
+export interface PrometheusMetricMetadata {
+  type: 'counter' | 'gauge' | 'histogram';
+  metricFamilyName: string;
+}
+
+export interface PrometheusWriteRequest {
+  timeseries: PrometheusTimeSeries[];
+  metadata: PrometheusMetricMetadata[];
+}
+
+// prometheus.MetricMetadata.MetricType values
+const METADATA_TYPES: Record<PrometheusMetricMetadata['type'], number> = {
+  counter: 1,
+  gauge: 2,
+  histogram: 3,
+};
+
+// Headers required by the remote-write 1.0 protocol
+export const REMOTE_WRITE_HEADERS: Record<string, string> = {
+  'Content-Type': 'application/x-protobuf',
+  'Content-Encoding': 'snappy',
+  'X-Prometheus-Remote-Write-Version': '0.1.0',
+};
+
+export class PrometheusRemoteWriteExporter {
+  private config: PrometheusExporterConfig;
+
+  constructor(config: PrometheusExporterConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Update the machine ID (sent as the instance label)
+   */
+  setMachineId(machineId: string): void {
+    this.config.machineId = machineId;
+  }
+
+  /**
+   * Update the custom request headers (auth, tenant, etc.)
+   */
+  setHeaders(headers: Record<string, string>): void {
+    this.config.headers = { ...headers };
+  }
+
+  /**
+   * Export metrics with retry logic
+   * Counters and histograms must already be aggregated with cumulative temporality
+   */
+  async export(metrics: MetricRecord[]): Promise<ExportResult> {
+    if (metrics.length === 0) {
+      return 'success'; // Nothing to export
+    }
+
+    const request = this.formatWriteRequest(metrics);
+    return postWithRetry(
+      this.config.endpoint,
+      snappyCompress(encodeRemoteWriteRequest(request)),
+      { ...this.config.headers, ...REMOTE_WRITE_HEADERS },
+      metrics.length + ' metrics to Prometheus',
+      () => JSON.stringify(request),
+      this.config.maxAttempts
+    );
+  }
+
+  /**
+   * Convert metric records to Prometheus time series
+   * Records with the same name and labels are merged into one series ordered by time
+   */
+  private formatWriteRequest(metrics: MetricRecord[]): PrometheusWriteRequest {
+    const series = new Map<string, PrometheusTimeSeries>();
+    const metadata = new Map<string, PrometheusMetricMetadata>();
+
+    const addSample = (name: string, labels: PrometheusLabel[], value: number, timestamp: number) => {
+      const allLabels = [{ name: '__name__', value: name }, ...labels].sort((a, b) =>
+        a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+      );
+      const key = allLabels.map((label) => label.name + '=' + label.value).join('\u0000');
+      const existing = series.get(key);
+      if (existing) {
+        existing.samples.push({ value, timestamp });
+      } else {
+        series.set(key, { labels: allLabels, samples: [{ value, timestamp }] });
+      }
+    };
+
+    for (const metric of metrics) {
+      const name = toPrometheusName(metric.name, metric.type);
+      const labels = this.buildLabels(metric.attributes);
+      metadata.set(name, { type: metric.type, metricFamilyName: name });
+
+      if (metric.type === 'histogram') {
+        const histogram = metric.histogram ?? {
+          count: 1,
+          sum: metric.value,
+          explicitBounds: [],
+          bucketCounts: [1],
+        };
+        // Prometheus buckets are cumulative and end with +Inf
+        let cumulative = 0;
+        histogram.bucketCounts.forEach((count, index) => {
+          cumulative += count;
+          const bound =
+            index < histogram.explicitBounds.length ? String(histogram.explicitBounds[index]) : '+Inf';
+          const bucketLabels = [...labels, { name: 'le', value: bound }];
+          addSample(name + '_bucket', bucketLabels, cumulative, metric.timestamp);
+        });
+        addSample(name + '_sum', labels, histogram.sum, metric.timestamp);
+        addSample(name + '_count', labels, histogram.count, metric.timestamp);
+      } else {
+        addSample(name, labels, metric.value, metric.timestamp);
+      }
+    }
+
+    // Samples must be in timestamp order; keep the last value for duplicate timestamps
+    for (const timeSeries of series.values()) {
+      const byTimestamp = new Map<number, number>();
+      for (const sample of timeSeries.samples) {
+        byTimestamp.set(sample.timestamp, sample.value);
+      }
+      timeSeries.samples = Array.from(byTimestamp, ([timestamp, value]) => ({ value, timestamp }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    return {
+      timeseries: Array.from(series.values()),
+      metadata: Array.from(metadata.values()),
+    };
+  }
+
+  /**
+   * Build series labels from the job/instance identity and metric attributes
+   */
+  private buildLabels(attributes: Record<string, string | number>): PrometheusLabel[] {
+    const labels: PrometheusLabel[] = [
+      { name: 'job', value: this.config.serviceName },
+      { name: 'instance', value: this.config.machineId },
+    ];
+    for (const [key, value] of Object.entries(attributes)) {
+      const name = sanitizeName(key);
+      if (name === 'job' || name === 'instance' || name.startsWith('__')) {
+        continue; // Reserved labels
+      }
+      labels.push({ name, value: String(value) });
+    }
+    return labels;
+  }
+}
+
+/**
+ * Map a dotted metric name to a Prometheus metric name
+ * Counters get the conventional _total suffix (replacing a trailing .count)
+ * e.g. vibe_kanban.human_intervention.count -> vibe_kanban_human_intervention_total
+ */
+export function toPrometheusName(name: string, type: MetricRecord['type']): string {
+  if (type !== 'counter') {
+    return sanitizeName(name);
+  }
+  const base = name.endsWith('.count') ? name.slice(0, -'.count'.length) : name;
+  return sanitizeName(base) + '_total';
+}
+
+/**
+ * Replace characters not allowed in Prometheus metric and label names
+ */
+function sanitizeName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? '_' + sanitized : sanitized;
+}
+
+/**
+ * Encode a remote-write WriteRequest (prometheus.WriteRequest) to protobuf
+ */
+export function encodeRemoteWriteRequest(request: PrometheusWriteRequest): Uint8Array<ArrayBuffer> {
+  const writer = new ProtobufWriter();
+  for (const timeSeries of request.timeseries) {
+    writer.message(1, (series) => {
+      for (const label of timeSeries.labels) {
+        series.message(1, (labelWriter) => {
+          labelWriter.string(1, label.name);
+          labelWriter.string(2, label.value);
+        });
+      }
+      for (const sample of timeSeries.samples) {
+        series.message(2, (sampleWriter) => {
+          sampleWriter.double(1, sample.value);
+          sampleWriter.varint(2, sample.timestamp);
+        });
+      }
+    });
+  }
+  for (const entry of request.metadata) {
+    writer.message(3, (metadataWriter) => {
+      metadataWriter.varint(1, METADATA_TYPES[entry.type]);
+      metadataWriter.string(2, entry.metricFamilyName);
+    });
+  }
+  return writer.finish();
+}
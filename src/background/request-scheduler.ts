@@ -0,0 +1,115 @@
+/**
+ * Request scheduler for vibe-kanban tracker
+ * Shared by all vibe-kanban API clients: limits how many requests run at once,
+ * aborts requests that exceed a timeout, and lets callers asking for the same
+ * resource while it is in flight (e.g. the sidebar and the metrics collector)
+ * share one request
+ */
+
+export interface RequestLimits {
+  // Maximum number of requests running at once
+  concurrency: number;
+  // Per-request timeout (ms), counted from when the request starts, not while queued
+  timeoutMs: number;
+}
+
+export interface RequestSchedulerStats {
+  active: number;
+  queued: number;
+  inFlight: number;
+}
+
+export class RequestScheduler {
+  private limits: RequestLimits;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+
+  constructor(limits: RequestLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Update concurrency and timeout (applies to requests started from now on)
+   */
+  setLimits(limits: RequestLimits): void {
+    this.limits = limits;
+    // A higher limit can start queued requests right away
+    while (this.waiting.length > 0 && this.active < this.limits.concurrency) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+
+  /**
+   * Run a request once a slot is free, or join the in-flight request with the same key
+   * The request receives an AbortSignal that fires when the timeout elapses
+   */
+  run<T>(key: string, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = this.execute(request).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Get current load (for debug info)
+   */
+  getStats(): RequestSchedulerStats {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  /**
+   * Wait for a slot, then run the request with a timeout
+   */
+  private async execute<T>(request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    const timeoutMs = this.limits.timeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      // fetch rejects with the abort reason, so this is the error callers see
+      controller.abort(new Error('Request timed out after ' + timeoutMs + ' ms'));
+    }, timeoutMs);
+
+    try {
+      return await request(controller.signal);
+    } finally {
+      clearTimeout(timer);
+      this.release();
+    }
+  }
+
+  /**
+   * Take a slot, waiting in FIFO order while all are busy
+   */
+  private acquire(): Promise<void> {
+    if (this.active < this.limits.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Free a slot, handing it to the next waiting request if any
+   */
+  private release(): void {
+    const next = this.active <= this.limits.concurrency ? this.waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
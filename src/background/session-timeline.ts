@@ -0,0 +1,130 @@
+/**
+ * Session timeline for vibe-kanban tracker
+ * Keeps a compact log of what the tracker saw per tab (activity state transitions, route
+ * changes, human interventions, sent messages, closed tabs, restarts) in IndexedDB for the last
+ * few days, so the options page can replay a day and show what was recorded.
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import type { ActivityState } from './state-machine';
+import { openTimestampedStore, completion, result, deleteBefore } from './indexed-db';
+
+// 'startup' marks a background start (tabs of the previous run are gone; tabId is -1)
+export type TimelineEntryKind = 'startup' | 'state' | 'route' | 'intervention' | 'message' | 'closed';
+
+/**
+ * One timeline event of a tab
+ */
+export interface TimelineEntry {
+  timestamp: number;
+  tabId: number;
+  kind: TimelineEntryKind;
+  // New state of the tab (state entries)
+  state?: ActivityState;
+  // Route of the tab at the time, and its task's title if known
+  route?: ParsedRoute | null;
+  taskTitle?: string;
+}
+
+const DB_NAME = 'vibe-kanban-tracker-timeline';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const TIMESTAMP_INDEX = 'timestamp';
+
+// Pruning walks the timestamp index, so run it at most once per hour
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SessionTimeline {
+  private retentionDays: number;
+  private pending: TimelineEntry[] = [];
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private lastPruneTime = 0;
+
+  constructor(retentionDays: number) {
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Update the retention period (applied on the next prune)
+   */
+  setRetentionDays(retentionDays: number): void {
+    this.retentionDays = retentionDays;
+    this.lastPruneTime = 0;
+  }
+
+  /**
+   * Add an entry (written on the next flush)
+   */
+  record(entry: TimelineEntry): void {
+    this.pending.push(entry);
+  }
+
+  /**
+   * Write pending entries, pruning expired ones when due
+   * Entries that could not be written stay pending for the next flush
+   */
+  async flush(): Promise<void> {
+    if (this.pending.length > 0) {
+      const entries = this.pending;
+      this.pending = [];
+      try {
+        const db = await this.open();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        for (const entry of entries) {
+          store.add(entry);
+        }
+        await completion(transaction);
+      } catch (error) {
+        // Entries recorded during the attempt come after these
+        this.pending = [...entries, ...this.pending];
+        throw error;
+      }
+    }
+
+    if (Date.now() - this.lastPruneTime >= PRUNE_INTERVAL_MS) {
+      await this.prune();
+    }
+  }
+
+  /**
+   * Get entries with timestamps in [from, to], oldest first (including unwritten ones)
+   */
+  async query(from: number, to: number): Promise<TimelineEntry[]> {
+    await this.flush();
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+    return (await result(index.getAll(IDBKeyRange.bound(from, to)))) as TimelineEntry[];
+  }
+
+  /**
+   * Delete entries older than the retention period
+   * Returns the number of deleted entries
+   */
+  async prune(): Promise<number> {
+    this.lastPruneTime = Date.now();
+    const db = await this.open();
+    const deleted = await deleteBefore(db, STORE_NAME, TIMESTAMP_INDEX, Date.now() - this.retentionDays * DAY_MS);
+
+    if (deleted > 0) {
+      console.log('[vibe-tracker] Pruned ' + deleted + ' timeline entries older than ' + this.retentionDays + ' days');
+    }
+    return deleted;
+  }
+
+  /**
+   * Open (and create on first use) the timeline database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openTimestampedStore(DB_NAME, DB_VERSION, STORE_NAME, TIMESTAMP_INDEX);
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Session Tracer for vibe-kanban tracker
+ * Turns active periods into traces: each session is a root span, with child spans
+ * for task_detail visits and diffs/preview views inside it
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import type { ProjectNameCache } from './project-name-cache';
+import { buildRouteAttributes, buildInstanceAttributes } from './metrics-collector';
+
+/**
+ * Completed span, ready for OTLP export
+ */
+export interface SpanRecord {
+  // 16-byte trace ID as lowercase hex
+  traceId: string;
+  // 8-byte span ID as lowercase hex
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimestamp: number;
+  endTimestamp: number;
+  attributes: Record<string, string | number>;
+}
+
+/**
+ * Span that has started but not ended yet
+ */
+interface OpenSpan {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimestamp: number;
+  attributes: Record<string, string | number>;
+  // Task or view this span covers (used to detect changes on navigation)
+  key: string;
+}
+
+/**
+ * Spans of the current session
+ */
+interface ActiveSession {
+  traceId: string;
+  root: OpenSpan;
+  task: OpenSpan | null;
+  view: OpenSpan | null;
+}
+
+export class SessionTracer {
+  private spans: SpanRecord[] = [];
+  private maxQueueSize: number = 500;
+  private session: ActiveSession | null = null;
+  private projectNameCache?: ProjectNameCache;
+
+  constructor(projectNameCache?: ProjectNameCache) {
+    this.projectNameCache = projectNameCache;
+  }
+
+  /**
+   * Start a session root span (entering active state)
+   * Ends any session still open
+   */
+  startSession(route: ParsedRoute | null, machineId: string): void {
+    if (this.session) {
+      this.endSession();
+    }
+
+    const attributes = buildInstanceAttributes(machineId, route?.instance);
+    if (route) {
+      attributes.route_type = route.type;
+    }
+
+    this.session = {
+      traceId: randomHex(16),
+      root: {
+        spanId: randomHex(8),
+        name: 'vibe_kanban.session',
+        startTimestamp: Date.now(),
+        attributes,
+        key: 'session',
+      },
+      task: null,
+      view: null,
+    };
+
+    if (route) {
+      this.navigate(route, machineId);
+    }
+  }
+
+  /**
+   * End the current session (leaving active state)
+   * Closes open child spans first so they end within the root span
+   */
+  endSession(): void {
+    if (!this.session) {
+      return;
+    }
+
+    this.endView();
+    this.endTask();
+    this.endSpan(this.session.root);
+    this.session = null;
+  }
+
+  /**
+   * Update child spans for a route change within the current session
+   * Routes outside a session are ignored; startSession() picks up the current route
+   */
+  navigate(route: ParsedRoute, machineId: string): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    const taskKey = route.type === 'task_detail' && route.taskId ? route.taskId : null;
+    if (session.task?.key !== taskKey) {
+      // Views belong to the task span, so they end with it
+      this.endView();
+      this.endTask();
+      if (taskKey) {
+        session.task = this.openSpan(
+          'vibe_kanban.task_detail',
+          taskKey,
+          session.root.spanId,
+          buildRouteAttributes({ ...route, view: null }, machineId, this.projectNameCache)
+        );
+      }
+    }
+
+    const viewKey = route.view === 'diffs' || route.view === 'preview' ? route.view : null;
+    if (session.view?.key !== viewKey) {
+      this.endView();
+      if (viewKey) {
+        session.view = this.openSpan(
+          'vibe_kanban.view.' + viewKey,
+          viewKey,
+          (session.task ?? session.root).spanId,
+          buildRouteAttributes(route, machineId, this.projectNameCache)
+        );
+      }
+    }
+  }
+
+  /**
+   * Check whether a session is currently open
+   */
+  isSessionActive(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Get the innermost open span (view, task or session) for correlating other signals
+   */
+  getSpanContext(): { traceId: string; spanId: string } | null {
+    if (!this.session) {
+      return null;
+    }
+
+    const span = this.session.view ?? this.session.task ?? this.session.root;
+    return { traceId: this.session.traceId, spanId: span.spanId };
+  }
+
+  /**
+   * Get completed spans and clear the queue
+   * Open spans stay open until their session or view ends
+   */
+  flush(): SpanRecord[] {
+    const spans = this.spans;
+    this.spans = [];
+    return spans;
+  }
+
+  /**
+   * Restore spans (e.g., after failed export)
+   */
+  restore(spans: SpanRecord[]): void {
+    // Prepend restored spans, respecting max queue size
+    const combined = [...spans, ...this.spans];
+    this.spans = combined.slice(-this.maxQueueSize);
+  }
+
+  /**
+   * Start a child span in the current session
+   */
+  private openSpan(
+    name: string,
+    key: string,
+    parentSpanId: string,
+    attributes: Record<string, string | number>
+  ): OpenSpan {
+    return {
+      spanId: randomHex(8),
+      parentSpanId,
+      name,
+      startTimestamp: Date.now(),
+      attributes,
+      key,
+    };
+  }
+
+  /**
+   * End the open task span, if any
+   */
+  private endTask(): void {
+    if (this.session?.task) {
+      this.endSpan(this.session.task);
+      this.session.task = null;
+    }
+  }
+
+  /**
+   * End the open view span, if any
+   */
+  private endView(): void {
+    if (this.session?.view) {
+      this.endSpan(this.session.view);
+      this.session.view = null;
+    }
+  }
+
+  /**
+   * Queue a span as completed, enforcing max size
+   */
+  private endSpan(span: OpenSpan): void {
+    this.spans.push({
+      traceId: this.session!.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      name: span.name,
+      startTimestamp: span.startTimestamp,
+      endTimestamp: Date.now(),
+      attributes: span.attributes,
+    });
+
+    // Trim if exceeding max queue size (FIFO - remove oldest)
+    if (this.spans.length > this.maxQueueSize) {
+      this.spans = this.spans.slice(-this.maxQueueSize);
+    }
+  }
+}
+
+/**
+ * Generate a random ID as lowercase hex
+ */
+function randomHex(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
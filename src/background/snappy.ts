@@ -0,0 +1,134 @@
+/**
+ * Minimal snappy block-format compressor (no runtime dependency)
+ * Prometheus remote-write requires snappy block encoding, not the framing format.
+ * Uses a greedy hash-table matcher like the reference implementation; the output is
+ * not byte-identical to it but decodes with any snappy decoder.
+ */
+
+// Element tags (low 2 bits)
+const TAG_LITERAL = 0x00;
+const TAG_COPY_1 = 0x01;
+const TAG_COPY_2 = 0x02;
+
+// Hash table size (2^14 entries) and the max back-reference of a 2-byte offset copy
+const HASH_BITS = 14;
+const MAX_OFFSET = 65535;
+
+/**
+ * Compress bytes into a snappy block
+ */
+export function snappyCompress(input: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out: number[] = [];
+  writeVarint(out, input.length);
+
+  // Positions + 1 of the last occurrence of each 4-byte hash (0 = none)
+  const table = new Int32Array(1 << HASH_BITS);
+  let literalStart = 0;
+  let i = 0;
+
+  while (i + 4 <= input.length) {
+    const key = read32(input, i);
+    const hash = Math.imul(key, 0x1e35a7bd) >>> (32 - HASH_BITS);
+    const candidate = table[hash] - 1;
+    table[hash] = i + 1;
+
+    if (candidate >= 0 && i - candidate <= MAX_OFFSET && read32(input, candidate) === key) {
+      let length = 4;
+      while (i + length < input.length && input[candidate + length] === input[i + length]) {
+        length++;
+      }
+
+      emitLiteral(out, input, literalStart, i);
+      emitCopy(out, i - candidate, length);
+      i += length;
+      literalStart = i;
+    } else {
+      i++;
+    }
+  }
+
+  emitLiteral(out, input, literalStart, input.length);
+  return Uint8Array.from(out);
+}
+
+/**
+ * Append an unsigned varint (used for the uncompressed length preamble)
+ */
+function writeVarint(out: number[], value: number): void {
+  let remaining = value;
+  while (remaining > 0x7f) {
+    out.push((remaining & 0x7f) | 0x80);
+    remaining >>>= 7;
+  }
+  out.push(remaining);
+}
+
+/**
+ * Read 4 bytes as an unsigned little-endian integer
+ */
+function read32(input: Uint8Array, offset: number): number {
+  return (
+    (input[offset] |
+      (input[offset + 1] << 8) |
+      (input[offset + 2] << 16) |
+      (input[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+/**
+ * Append a literal element for input[start, end)
+ */
+function emitLiteral(out: number[], input: Uint8Array, start: number, end: number): void {
+  const length = end - start;
+  if (length === 0) {
+    return;
+  }
+
+  const n = length - 1;
+  if (n < 60) {
+    out.push(TAG_LITERAL | (n << 2));
+  } else if (n < 1 << 8) {
+    out.push(TAG_LITERAL | (60 << 2), n);
+  } else if (n < 1 << 16) {
+    out.push(TAG_LITERAL | (61 << 2), n & 0xff, n >>> 8);
+  } else if (n < 1 << 24) {
+    out.push(TAG_LITERAL | (62 << 2), n & 0xff, (n >>> 8) & 0xff, n >>> 16);
+  } else {
+    out.push(TAG_LITERAL | (63 << 2), n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, n >>> 24);
+  }
+
+  for (let i = start; i < end; i++) {
+    out.push(input[i]);
+  }
+}
+
+/**
+ * Append copy elements for a back-reference (split into chunks of at most 64 bytes)
+ */
+function emitCopy(out: number[], offset: number, length: number): void {
+  let remaining = length;
+
+  // Keep the final chunk at 4+ bytes so it can use the short copy form
+  while (remaining >= 68) {
+    emitCopy2(out, offset, 64);
+    remaining -= 64;
+  }
+  if (remaining > 64) {
+    emitCopy2(out, offset, 60);
+    remaining -= 60;
+  }
+
+  if (remaining >= 4 && remaining <= 11 && offset < 2048) {
+    out.push(TAG_COPY_1 | ((remaining - 4) << 2) | ((offset >>> 8) << 5), offset & 0xff);
+  } else {
+    emitCopy2(out, offset, remaining);
+  }
+}
+
+/**
+ * Append a copy element with a 2-byte offset (length 1-64)
+ */
+function emitCopy2(out: number[], offset: number, length: number): void {
+  out.push(TAG_COPY_2 | ((length - 1) << 2), offset & 0xff, offset >>> 8);
+}
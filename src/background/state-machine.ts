@@ -1,15 +1,26 @@
 /**
  * Activity state machine for tracking user state
- * States: active, idle, unfocused
- * Handles transitions based on focus, blur, activity, and idle timeout events
+ * States: active, idle, unfocused, locked
+ * Sub-states of the focused states: waiting_on_agent, reviewing
+ * Handles transitions based on focus, blur, activity, and idle timeout events, and on
+ * the browser idle state (input anywhere on the machine, screen lock)
  */
 
 import type { ParsedRoute } from '../content/url-parser';
 
-export type ActivityState = 'active' | 'idle' | 'unfocused';
+export type ActivityState = 'active' | 'idle' | 'unfocused' | 'locked';
+
+// Context-aware refinement of a focused state:
+// - waiting_on_agent: active or idle on a task whose attempt is in progress
+// - reviewing: active on the diffs view with low but non-zero activity
+export type ActivitySubState = 'waiting_on_agent' | 'reviewing';
+
+// State reported by the browser idle API
+export type SystemIdleState = 'active' | 'idle' | 'locked';
 
 export interface StateContext {
   currentState: ActivityState;
+  subState: ActivitySubState | null;
   lastActivityTime: number;
   lastStateChangeTime: number;
   currentRoute: ParsedRoute | null;
@@ -20,25 +31,44 @@ export type StateEvent =
   | { type: 'BLUR' }
   | { type: 'ACTIVITY' }
   | { type: 'IDLE_TIMEOUT' }
+  | { type: 'SYSTEM_STATE'; state: SystemIdleState }
+  | { type: 'AGENT_STATUS'; running: boolean }
   | { type: 'NAVIGATE'; route: ParsedRoute };
 
 // Idle check interval: 5 seconds
-const IDLE_CHECK_INTERVAL_MS = 5000;
+export const IDLE_CHECK_INTERVAL_MS = 5000;
+
+// Reviewing: at most this many activity events in the last minute (content scripts send
+// about one per second of continuous mouse or keyboard use)
+const REVIEWING_WINDOW_MS = 60000;
+const REVIEWING_MAX_ACTIVITY_EVENTS = 20;
 
 export class StateMachine {
   private state: StateContext;
   private idleTimeoutMs: number;
+  // Last browser idle state (null until reported: in-page activity alone decides idleness)
+  private systemState: SystemIdleState | null = null;
+  // Whether the current route's task has an attempt in progress (from the task snapshot)
+  private agentRunning = false;
+  // Times of activity events within the reviewing window
+  private recentActivityTimes: number[] = [];
   private idleCheckInterval: ReturnType<typeof setInterval> | null = null;
   private onStateChange?: (
     prev: ActivityState,
     next: ActivityState,
     context: StateContext
   ) => void;
+  private onSubStateChange?: (
+    prev: ActivitySubState | null,
+    next: ActivitySubState | null,
+    context: StateContext
+  ) => void;
 
   constructor(idleTimeoutMs: number = 60000) {
     this.idleTimeoutMs = idleTimeoutMs;
     this.state = {
       currentState: 'unfocused',
+      subState: null,
       lastActivityTime: Date.now(),
       lastStateChangeTime: Date.now(),
       currentRoute: null,
@@ -54,23 +84,24 @@ export class StateMachine {
 
     switch (event.type) {
       case 'FOCUS':
-        // UNFOCUSED -> ACTIVE
-        if (prevState === 'unfocused') {
-          nextState = 'active';
+        // UNFOCUSED -> ACTIVE (or LOCKED while the screen is locked)
+        if (prevState === 'unfocused' || prevState === 'locked') {
+          nextState = this.systemState === 'locked' ? 'locked' : 'active';
           this.state.lastActivityTime = Date.now();
         }
         break;
 
       case 'BLUR':
-        // ACTIVE -> UNFOCUSED or IDLE -> UNFOCUSED
-        if (prevState === 'active' || prevState === 'idle') {
+        // ACTIVE, IDLE or LOCKED -> UNFOCUSED
+        if (prevState === 'active' || prevState === 'idle' || prevState === 'locked') {
           nextState = 'unfocused';
         }
         break;
 
       case 'ACTIVITY':
-        // IDLE -> ACTIVE
-        if (prevState === 'idle') {
+        this.recentActivityTimes.push(Date.now());
+        // IDLE -> ACTIVE or LOCKED -> ACTIVE (input in the page means the screen is unlocked)
+        if (prevState === 'idle' || prevState === 'locked') {
           nextState = 'active';
         }
         // Reset idle timer when in ACTIVE state
@@ -80,17 +111,41 @@ export class StateMachine {
         break;
 
       case 'IDLE_TIMEOUT':
-        // ACTIVE -> IDLE (only if no activity for idleTimeoutMs)
-        if (prevState === 'active') {
-          const timeSinceActivity = Date.now() - this.state.lastActivityTime;
-          if (timeSinceActivity >= this.idleTimeoutMs) {
-            nextState = 'idle';
+        // ACTIVE -> IDLE (only if no activity for idleTimeoutMs, and the browser does not
+        // report input within its own threshold, e.g. while reading a long diff)
+        if (prevState === 'active' && this.systemState !== 'active' && this.isPastIdleTimeout()) {
+          nextState = 'idle';
+        }
+        break;
+
+      case 'SYSTEM_STATE':
+        this.systemState = event.state;
+        if (event.state === 'locked') {
+          // ACTIVE -> LOCKED or IDLE -> LOCKED (never counted as active)
+          if (prevState === 'active' || prevState === 'idle') {
+            nextState = 'locked';
           }
+        } else if (event.state === 'active') {
+          // LOCKED -> ACTIVE (unlocked while the tab kept focus)
+          if (prevState === 'locked') {
+            nextState = 'active';
+            this.state.lastActivityTime = Date.now();
+          }
+        } else if (prevState === 'active' && this.isPastIdleTimeout()) {
+          // ACTIVE -> IDLE (the in-page timeout passed while the browser reported input)
+          nextState = 'idle';
         }
         break;
 
+      case 'AGENT_STATUS':
+        this.agentRunning = event.running;
+        break;
+
       case 'NAVIGATE':
-        // Update route context without changing state
+        // Update route context without changing state (the agent status was the previous task's)
+        if (event.route.taskId !== this.state.currentRoute?.taskId) {
+          this.agentRunning = false;
+        }
         this.state.currentRoute = event.route;
         break;
     }
@@ -104,6 +159,8 @@ export class StateMachine {
         this.onStateChange(prevState, nextState, { ...this.state });
       }
     }
+
+    this.updateSubState();
   }
 
   /**
@@ -123,12 +180,9 @@ export class StateMachine {
     }
 
     this.idleCheckInterval = setInterval(() => {
-      // Only check for idle timeout when in active state
+      // Only check for idle timeout (and the reviewing activity window) when in active state
       if (this.state.currentState === 'active') {
-        const timeSinceActivity = Date.now() - this.state.lastActivityTime;
-        if (timeSinceActivity >= this.idleTimeoutMs) {
-          this.transition({ type: 'IDLE_TIMEOUT' });
-        }
+        this.transition({ type: 'IDLE_TIMEOUT' });
       }
     }, IDLE_CHECK_INTERVAL_MS);
   }
@@ -155,4 +209,55 @@ export class StateMachine {
   ): void {
     this.onStateChange = callback;
   }
+
+  /**
+   * Set callback for sub-state changes
+   */
+  setOnSubStateChange(
+    callback: (
+      prev: ActivitySubState | null,
+      next: ActivitySubState | null,
+      context: StateContext
+    ) => void
+  ): void {
+    this.onSubStateChange = callback;
+  }
+
+  /**
+   * Derive the sub-state from the state, route, agent status and recent activity
+   * Watching an agent on the diffs view counts as waiting, not reviewing.
+   */
+  private updateSubState(): void {
+    const cutoff = Date.now() - REVIEWING_WINDOW_MS;
+    this.recentActivityTimes = this.recentActivityTimes.filter((time) => time > cutoff);
+
+    const { currentState, currentRoute } = this.state;
+    const activityCount = this.recentActivityTimes.length;
+    let nextSubState: ActivitySubState | null = null;
+    if ((currentState === 'active' || currentState === 'idle') && this.agentRunning) {
+      nextSubState = 'waiting_on_agent';
+    } else if (
+      currentState === 'active' &&
+      currentRoute?.view === 'diffs' &&
+      activityCount > 0 &&
+      activityCount <= REVIEWING_MAX_ACTIVITY_EVENTS
+    ) {
+      nextSubState = 'reviewing';
+    }
+
+    const prevSubState = this.state.subState;
+    if (nextSubState !== prevSubState) {
+      this.state.subState = nextSubState;
+      if (this.onSubStateChange) {
+        this.onSubStateChange(prevSubState, nextSubState, { ...this.state });
+      }
+    }
+  }
+
+  /**
+   * Check whether no in-page activity was seen for the idle timeout
+   */
+  private isPastIdleTimeout(): boolean {
+    return Date.now() - this.state.lastActivityTime >= this.idleTimeoutMs;
+  }
 }
@@ -1,33 +1,125 @@
 /**
  * Storage Manager for vibe-kanban tracker
- * Persists configuration and pending metrics across browser restarts
- * using browser.storage.local API
+ * Persists configuration and per-destination pending metrics across browser restarts
+ * using browser.storage.local API. Each destination's delivery state (with its outbox)
+ * is stored under its own key and only written when it changed, so saving one part
+ * does not rewrite every outbox.
  */
 
 import browser from 'webextension-polyfill';
 import type { MetricRecord } from './metrics-collector';
-import { IDLE_TIMEOUT_MS, OTEL_ENDPOINT } from '../shared/constants';
+import type { OTLPEncoding, OTLPCompression, OTLPAuth } from './otel-exporter';
+import type { AggregationState, AggregationTemporality } from './metric-aggregator';
+import type { ArchiveSettings } from './metric-archive';
+import { DEFAULT_INSTANCE_ID, type VibeKanbanInstance } from './instance-registry';
+import type { RequestLimits } from './request-scheduler';
+import { createTaskFlowState, type TaskFlowState } from './task-flow-tracker';
+import type { TaskEffortState } from './task-effort-ledger';
+import type { StaleThresholds } from './task-aging';
+import type { ActivitySegments } from './activity-accountant';
+import {
+  DEFAULT_DESTINATION_ID,
+  createDestinationState,
+  countOutboxMetrics,
+  type ExportDestination,
+  type DestinationState,
+  type OutboxPolicy,
+} from './destination-exporter';
+import {
+  IDLE_TIMEOUT_MS,
+  SYSTEM_IDLE_THRESHOLD_MS,
+  OTEL_ENDPOINT,
+  VIBE_KANBAN_API_URL,
+  DEFAULT_API_CONCURRENCY,
+  DEFAULT_API_TIMEOUT_MS,
+  DEFAULT_DURATION_BUCKETS_MS,
+  DEFAULT_MESSAGE_LENGTH_BUCKETS,
+  DEFAULT_FLOW_TIME_BUCKETS_HOURS,
+  DEFAULT_STALE_THRESHOLDS_HOURS,
+  DEFAULT_ARCHIVE_RETENTION_DAYS,
+  DEFAULT_TIMELINE_RETENTION_DAYS,
+  DEFAULT_OUTBOX_MAX_AGE_MS,
+  DEFAULT_OUTBOX_MAX_BYTES,
+} from '../shared/constants';
 
 export interface StoredConfig {
   machineId: string;
   idleTimeoutMs: number;
-  otelEndpoint: string;
+  // No input on the machine for this long makes the browser idle API report idle
+  systemIdleThresholdMs: number;
+  instances: VibeKanbanInstance[];
+  apiRequests: RequestLimits;
+  destinations: ExportDestination[];
+  otelEncoding: OTLPEncoding;
+  otelCompression: OTLPCompression;
+  counterTemporality: AggregationTemporality;
+  histogramBoundaries: HistogramBoundaries;
+  // Hours in a status after which a task counts as stale
+  staleThresholds: StaleThresholds;
+  archive: ArchiveSettings;
+  // Days of session timeline to keep
+  timelineRetentionDays: number;
+  outboxPolicy: OutboxPolicy;
   enabled: boolean;
   sidebarOpen: boolean;
 }
 
+// Histogram bucket boundaries (ascending upper bounds)
+export interface HistogramBoundaries {
+  durationMs: number[];
+  messageLength: number[];
+  flowHours: number[];
+}
+
 export interface StoredState {
   version: number;
   lastUpdated: number;
   config: StoredConfig;
-  pendingMetrics: MetricRecord[];
+  // Last known status of each task, for detecting status transitions
+  taskFlowState: TaskFlowState;
+  // Human effort per task not yet done or cancelled
+  taskEfforts: TaskEffortState;
+}
+
+/**
+ * Open activity segments and the time they were saved (recovered after a crash)
+ * Saved under its own key every few seconds, so the heartbeat does not rewrite the
+ * whole state (with its outboxes)
+ */
+export interface ActivityHeartbeat {
+  segments: ActivitySegments;
+  savedAt: number;
+}
+
+// Delivery states kept in the state before V21, with the flat pending queue before V10
+type LegacyDestinationStates = Record<string, DestinationState & { pendingMetrics?: MetricRecord[] }>;
+
+// Fields of schema versions before V7 (single OTel endpoint), V10 (flat pending queue)
+// and V21 (destination states under their own keys)
+interface LegacyStoredState extends StoredState {
+  config: StoredConfig & {
+    otelEndpoint?: string;
+    otelHeaders?: Record<string, string>;
+    otelAuth?: OTLPAuth;
+  };
+  pendingMetrics?: MetricRecord[];
+  aggregationState?: AggregationState;
+  destinationStates?: LegacyDestinationStates;
+  // Open activity segments (V18 to V19; now saved with the activity heartbeat)
+  activitySegments?: ActivitySegments;
 }
 
 const STORAGE_KEY = 'vibe_kanban_tracker';
-const STORAGE_VERSION = 2;
+const HEARTBEAT_KEY = 'vibe_kanban_tracker_heartbeat';
+// Followed by the destination ID
+const DESTINATION_KEY_PREFIX = 'vibe_kanban_tracker_destination_';
+const STORAGE_VERSION = 21;
 
 export class StorageManager {
   private state: StoredState | null = null;
+  private destinationStates: Record<string, DestinationState> = {};
+  // Serialized destination states as last read or written, by destination ID
+  private storedDestinationStates = new Map<string, string>();
 
   /**
    * Load state from browser storage
@@ -46,16 +138,20 @@ export class StorageManager {
         return this.state;
       }
 
+      await this.readDestinationStates(storedData.config.destinations ?? []);
+
       // Migrate if needed
       if (storedData.version < STORAGE_VERSION) {
         this.state = this.migrate(storedData);
+        // Destination states moved out of the state are written before the state drops them
+        await this.writeDestinationStates();
         await this.save();
         console.log('[vibe-tracker] Migrated storage from version ' + storedData.version + ' to ' + STORAGE_VERSION);
       } else {
         this.state = storedData;
       }
 
-      console.log('[vibe-tracker] Loaded storage state, pending metrics: ' + this.state.pendingMetrics.length);
+      console.log('[vibe-tracker] Loaded storage state, destinations: ' + this.state.config.destinations.length);
       return this.state;
     } catch (error) {
       console.error('[vibe-tracker] Failed to load storage:', error);
@@ -100,18 +196,59 @@ export class StorageManager {
   }
 
   /**
-   * Save pending metrics to storage
-   * Called before export to ensure metrics survive browser restart
+   * Save per-destination delivery state (outbox, running totals)
+   * Called before and after export to ensure metrics survive browser restart. Only
+   * destinations whose state changed are written; removed destinations are deleted.
    */
-  async savePendingMetrics(metrics: MetricRecord[]): Promise<void> {
+  async saveDestinationStates(destinationStates: Record<string, DestinationState>): Promise<void> {
     if (!this.state) {
       await this.load();
     }
 
-    this.state!.pendingMetrics = metrics;
+    this.destinationStates = { ...destinationStates };
+    await this.writeDestinationStates();
+  }
+
+  /**
+   * Save the last known task statuses (task flow tracking)
+   */
+  async saveTaskFlowState(taskFlowState: TaskFlowState): Promise<void> {
+    if (!this.state) {
+      await this.load();
+    }
+
+    this.state!.taskFlowState = taskFlowState;
     await this.save();
   }
 
+  /**
+   * Save the per-task effort ledger
+   */
+  async saveTaskEfforts(taskEfforts: TaskEffortState): Promise<void> {
+    if (!this.state) {
+      await this.load();
+    }
+
+    this.state!.taskEfforts = taskEfforts;
+    await this.save();
+  }
+
+  /**
+   * Save the open activity segments with the current time (heartbeat and checkpoints)
+   */
+  async saveActivityHeartbeat(segments: ActivitySegments): Promise<void> {
+    const heartbeat: ActivityHeartbeat = { segments, savedAt: Date.now() };
+    await browser.storage.local.set({ [HEARTBEAT_KEY]: heartbeat });
+  }
+
+  /**
+   * Load the last saved activity heartbeat (null if none was saved)
+   */
+  async loadActivityHeartbeat(): Promise<ActivityHeartbeat | null> {
+    const result = await browser.storage.local.get(HEARTBEAT_KEY);
+    return (result[HEARTBEAT_KEY] as ActivityHeartbeat | undefined) ?? null;
+  }
+
   /**
    * Get current configuration
    * Throws if state not loaded
@@ -124,25 +261,40 @@ export class StorageManager {
   }
 
   /**
-   * Get pending metrics that were not exported
+   * Get persisted per-destination delivery state
+   */
+  getDestinationStates(): Record<string, DestinationState> {
+    return { ...this.destinationStates };
+  }
+
+  /**
+   * Get persisted task flow state (last known task statuses)
    */
-  getPendingMetrics(): MetricRecord[] {
+  getTaskFlowState(): TaskFlowState {
     if (!this.state) {
-      return [];
+      return createTaskFlowState();
     }
-    return [...this.state.pendingMetrics];
+    return this.state.taskFlowState;
   }
 
   /**
-   * Clear pending metrics after successful export
+   * Get persisted per-task effort ledger
    */
-  async clearPendingMetrics(): Promise<void> {
+  getTaskEfforts(): TaskEffortState {
     if (!this.state) {
-      return;
+      return {};
     }
+    return this.state.taskEfforts;
+  }
 
-    this.state.pendingMetrics = [];
-    await this.save();
+  /**
+   * Count metrics waiting for delivery across destinations
+   */
+  getPendingMetricsCount(): number {
+    return Object.values(this.destinationStates).reduce(
+      (count, state) => count + countOutboxMetrics(state.outbox),
+      0
+    );
   }
 
   /**
@@ -155,11 +307,53 @@ export class StorageManager {
       config: {
         machineId: this.generateMachineId(),
         idleTimeoutMs: IDLE_TIMEOUT_MS,
-        otelEndpoint: OTEL_ENDPOINT,
+        systemIdleThresholdMs: SYSTEM_IDLE_THRESHOLD_MS,
+        instances: [
+          {
+            id: DEFAULT_INSTANCE_ID,
+            name: 'Local',
+            url: VIBE_KANBAN_API_URL,
+            enabled: true,
+          },
+        ],
+        apiRequests: {
+          concurrency: DEFAULT_API_CONCURRENCY,
+          timeoutMs: DEFAULT_API_TIMEOUT_MS,
+        },
+        destinations: [
+          {
+            id: DEFAULT_DESTINATION_ID,
+            name: 'Local collector',
+            protocol: 'otlp',
+            endpoint: OTEL_ENDPOINT,
+            headers: {},
+            auth: { type: 'none' },
+            enabled: true,
+          },
+        ],
+        otelEncoding: 'json',
+        otelCompression: 'none',
+        counterTemporality: 'cumulative',
+        histogramBoundaries: {
+          durationMs: DEFAULT_DURATION_BUCKETS_MS,
+          messageLength: DEFAULT_MESSAGE_LENGTH_BUCKETS,
+          flowHours: DEFAULT_FLOW_TIME_BUCKETS_HOURS,
+        },
+        staleThresholds: { ...DEFAULT_STALE_THRESHOLDS_HOURS },
+        archive: {
+          enabled: true,
+          retentionDays: DEFAULT_ARCHIVE_RETENTION_DAYS,
+        },
+        timelineRetentionDays: DEFAULT_TIMELINE_RETENTION_DAYS,
+        outboxPolicy: {
+          maxAgeMs: DEFAULT_OUTBOX_MAX_AGE_MS,
+          maxBytes: DEFAULT_OUTBOX_MAX_BYTES,
+        },
         enabled: true,
         sidebarOpen: false,
       },
-      pendingMetrics: [],
+      taskFlowState: createTaskFlowState(),
+      taskEfforts: {},
     };
   }
 
@@ -183,8 +377,8 @@ export class StorageManager {
    * Migrate from older schema versions
    * Handles backwards compatibility for existing installations
    */
-  private migrate(oldState: StoredState): StoredState {
-    let state = { ...oldState };
+  private migrate(oldState: LegacyStoredState): StoredState {
+    const state = { ...oldState };
 
     // V1 -> V2: Add sidebarOpen field with default value
     if (state.version < 2) {
@@ -195,9 +389,294 @@ export class StorageManager {
       state.version = 2;
     }
 
+    // V2 -> V3: Add OTLP encoding and compression (keep previous JSON behaviour)
+    if (state.version < 3) {
+      state.config = {
+        ...state.config,
+        otelEncoding: 'json',
+        otelCompression: 'none',
+      };
+      state.version = 3;
+    }
+
+    // V3 -> V4: Add custom OTLP headers and auth
+    if (state.version < 4) {
+      state.config = {
+        ...state.config,
+        otelHeaders: {},
+        otelAuth: { type: 'none' },
+      };
+      state.version = 4;
+    }
+
+    // V4 -> V5: Add counter aggregation (temporality config + running totals)
+    if (state.version < 5) {
+      state.config = {
+        ...state.config,
+        counterTemporality: 'cumulative',
+      };
+      state.aggregationState = { series: {} };
+      state.version = 5;
+    }
+
+    // V5 -> V6: Add histogram bucket boundaries
+    if (state.version < 6) {
+      state.config = {
+        ...state.config,
+        histogramBoundaries: {
+          durationMs: DEFAULT_DURATION_BUCKETS_MS,
+          messageLength: DEFAULT_MESSAGE_LENGTH_BUCKETS,
+          flowHours: DEFAULT_FLOW_TIME_BUCKETS_HOURS,
+        },
+      };
+      state.version = 6;
+    }
+
+    // V6 -> V7: Move the single OTel endpoint (and its pending data) into a destination list
+    if (state.version < 7) {
+      const { otelEndpoint, otelHeaders, otelAuth, ...config } = state.config;
+      state.config = {
+        ...config,
+        destinations: [
+          {
+            id: DEFAULT_DESTINATION_ID,
+            name: 'Default',
+            protocol: 'otlp',
+            endpoint: otelEndpoint ?? OTEL_ENDPOINT,
+            headers: otelHeaders ?? {},
+            auth: otelAuth ?? { type: 'none' },
+            enabled: true,
+          },
+        ],
+      };
+      state.destinationStates = {
+        [DEFAULT_DESTINATION_ID]: {
+          ...createDestinationState(),
+          pendingMetrics: state.pendingMetrics ?? [],
+          aggregationState: state.aggregationState ?? { series: {} },
+        },
+      };
+      delete state.pendingMetrics;
+      delete state.aggregationState;
+      state.version = 7;
+    }
+
+    // V7 -> V8: Add the export protocol (all existing destinations are OTLP)
+    if (state.version < 8) {
+      state.config = {
+        ...state.config,
+        destinations: state.config.destinations.map((destination) => ({
+          ...destination,
+          protocol: destination.protocol ?? 'otlp',
+        })),
+      };
+      state.version = 8;
+    }
+
+    // V8 -> V9: Add the local metric archive
+    if (state.version < 9) {
+      state.config = {
+        ...state.config,
+        archive: {
+          enabled: true,
+          retentionDays: DEFAULT_ARCHIVE_RETENTION_DAYS,
+        },
+      };
+      state.version = 9;
+    }
+
+    // V9 -> V10: Turn each flat pending queue into a durable outbox batch with backoff state
+    if (state.version < 10) {
+      const destinationStates: LegacyDestinationStates = {};
+      for (const [id, { pendingMetrics, ...destinationState }] of Object.entries(
+        state.destinationStates ?? {}
+      )) {
+        const metrics = pendingMetrics ?? [];
+        destinationStates[id] = {
+          ...destinationState,
+          outbox:
+            metrics.length > 0
+              ? [
+                  {
+                    id: crypto.randomUUID(),
+                    createdAt: Date.now(),
+                    bytes: JSON.stringify(metrics).length,
+                    metrics,
+                  },
+                ]
+              : [],
+          nextAttemptTime: null,
+          deadLetterCount: 0,
+        };
+      }
+      state.destinationStates = destinationStates;
+      state.config = {
+        ...state.config,
+        outboxPolicy: {
+          maxAgeMs: DEFAULT_OUTBOX_MAX_AGE_MS,
+          maxBytes: DEFAULT_OUTBOX_MAX_BYTES,
+        },
+      };
+      state.version = 10;
+    }
+
+    // V10 -> V11: Add the vibe-kanban instance list (the previously hardcoded local instance)
+    if (state.version < 11) {
+      state.config = {
+        ...state.config,
+        instances: [
+          {
+            id: DEFAULT_INSTANCE_ID,
+            name: 'Local',
+            url: VIBE_KANBAN_API_URL,
+            enabled: true,
+          },
+        ],
+      };
+      state.version = 11;
+    }
+
+    // V11 -> V12: Add API request limits (concurrency, timeout)
+    if (state.version < 12) {
+      state.config = {
+        ...state.config,
+        apiRequests: {
+          concurrency: DEFAULT_API_CONCURRENCY,
+          timeoutMs: DEFAULT_API_TIMEOUT_MS,
+        },
+      };
+      state.version = 12;
+    }
+
+    // V12 -> V13: Add task flow tracking (last known task statuses, flow time buckets)
+    if (state.version < 13) {
+      state.config = {
+        ...state.config,
+        histogramBoundaries: {
+          ...state.config.histogramBoundaries,
+          flowHours: DEFAULT_FLOW_TIME_BUCKETS_HOURS,
+        },
+      };
+      state.taskFlowState = createTaskFlowState();
+      state.version = 13;
+    }
+
+    // V13 -> V14: Track reported finished attempts per task (existing tasks' attempts are history)
+    if (state.version < 14) {
+      for (const trackedTask of Object.values(state.taskFlowState.tasks)) {
+        trackedTask.finishedAttemptIds = null;
+      }
+      state.version = 14;
+    }
+
+    // V14 -> V15: Add the per-task effort ledger
+    if (state.version < 15) {
+      state.taskEfforts = {};
+      state.version = 15;
+    }
+
+    // V15 -> V16: Add per-status staleness thresholds
+    if (state.version < 16) {
+      state.config = {
+        ...state.config,
+        staleThresholds: { ...DEFAULT_STALE_THRESHOLDS_HOURS },
+      };
+      state.version = 16;
+    }
+
+    // V16 -> V17: Add the browser idle API threshold
+    if (state.version < 17) {
+      state.config = {
+        ...state.config,
+        systemIdleThresholdMs: SYSTEM_IDLE_THRESHOLD_MS,
+      };
+      state.version = 17;
+    }
+
+    // V17 -> V18: Add open activity segments
+    if (state.version < 18) {
+      state.activitySegments = {};
+      state.version = 18;
+    }
+
+    // V18 -> V19: Add session timeline retention
+    if (state.version < 19) {
+      state.config = {
+        ...state.config,
+        timelineRetentionDays: DEFAULT_TIMELINE_RETENTION_DAYS,
+      };
+      state.version = 19;
+    }
+
+    // V19 -> V20: Open activity segments moved to the activity heartbeat
+    if (state.version < 20) {
+      delete state.activitySegments;
+      state.version = 20;
+    }
+
+    // V20 -> V21: Destination states moved to their own keys (written by load)
+    if (state.version < 21) {
+      this.destinationStates = state.destinationStates ?? {};
+      delete state.destinationStates;
+      state.version = 21;
+    }
+
     // Ensure version is current
     state.version = STORAGE_VERSION;
 
     return state;
   }
+
+  /**
+   * Read the stored delivery states of the given destinations
+   */
+  private async readDestinationStates(destinations: ExportDestination[]): Promise<void> {
+    const keys = destinations.map((destination) => DESTINATION_KEY_PREFIX + destination.id);
+    const result = keys.length > 0 ? await browser.storage.local.get(keys) : {};
+    this.destinationStates = {};
+    this.storedDestinationStates.clear();
+    for (const destination of destinations) {
+      const destinationState = result[DESTINATION_KEY_PREFIX + destination.id] as DestinationState | undefined;
+      if (destinationState) {
+        this.destinationStates[destination.id] = destinationState;
+        this.storedDestinationStates.set(destination.id, JSON.stringify(destinationState));
+      }
+    }
+  }
+
+  /**
+   * Write the destination states that changed since last read or written, and delete
+   * the keys of destinations that no longer exist
+   */
+  private async writeDestinationStates(): Promise<void> {
+    const changed: Record<string, DestinationState> = {};
+    const serialized = new Map<string, string>();
+    for (const [id, destinationState] of Object.entries(this.destinationStates)) {
+      const json = JSON.stringify(destinationState);
+      if (this.storedDestinationStates.get(id) !== json) {
+        changed[DESTINATION_KEY_PREFIX + id] = destinationState;
+        serialized.set(id, json);
+      }
+    }
+    const removed = [...this.storedDestinationStates.keys()].filter((id) => !(id in this.destinationStates));
+
+    try {
+      if (Object.keys(changed).length > 0) {
+        await browser.storage.local.set(changed);
+      }
+      if (removed.length > 0) {
+        await browser.storage.local.remove(removed.map((id) => DESTINATION_KEY_PREFIX + id));
+      }
+    } catch (error) {
+      console.error('[vibe-tracker] Failed to save destination states:', error);
+      throw error;
+    }
+
+    for (const [id, json] of serialized) {
+      this.storedDestinationStates.set(id, json);
+    }
+    for (const id of removed) {
+      this.storedDestinationStates.delete(id);
+    }
+  }
 }
@@ -0,0 +1,251 @@
+/**
+ * Per-tab activity tracking for vibe-kanban tracker
+ * Runs one activity state machine per browser tab (keyed by tab ID), so a BLUR from one
+ * vibe-kanban tab no longer ends the activity in another, and each tab keeps its own
+ * route. The combined state is active while the user is active in any tab. The browser
+ * idle state is shared by all tabs.
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import {
+  StateMachine,
+  IDLE_CHECK_INTERVAL_MS,
+  type ActivityState,
+  type ActivitySubState,
+  type StateContext,
+  type StateEvent,
+  type SystemIdleState,
+} from './state-machine';
+
+export class TabActivityTracker {
+  private tabs = new Map<number, StateMachine>();
+  private idleTimeoutMs: number;
+  private combinedState: ActivityState = 'unfocused';
+  private combinedStateChangeTime = Date.now();
+  private systemState: SystemIdleState | null = null;
+  private isAgentRunning: (route: ParsedRoute) => boolean = () => false;
+  private idleCheckInterval: ReturnType<typeof setInterval> | null = null;
+  private onTabStateChange?: (
+    tabId: number,
+    prev: ActivityState,
+    next: ActivityState,
+    context: StateContext
+  ) => void;
+  private onTabSubStateChange?: (
+    tabId: number,
+    prev: ActivitySubState | null,
+    next: ActivitySubState | null,
+    context: StateContext
+  ) => void;
+  private onCombinedStateChange?: (prev: ActivityState, next: ActivityState) => void;
+
+  constructor(idleTimeoutMs: number = 60000) {
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+
+  /**
+   * Process a state event from a tab
+   * Focus moving to a tab blurs the others first: only one tab has focus at a time, and
+   * the BLUR of the tab that lost it may arrive after this FOCUS.
+   */
+  transition(tabId: number, event: StateEvent): void {
+    if (event.type === 'FOCUS') {
+      for (const [otherTabId, machine] of this.tabs) {
+        if (otherTabId !== tabId) {
+          machine.transition({ type: 'BLUR' });
+        }
+      }
+    }
+    const machine = this.getTab(tabId);
+    machine.transition(event);
+    if (event.type === 'NAVIGATE') {
+      machine.transition({ type: 'AGENT_STATUS', running: this.isAgentRunning(event.route) });
+    }
+    this.updateCombinedState();
+  }
+
+  /**
+   * Re-check whether the task of each tab has an attempt in progress (after snapshot changes)
+   */
+  refreshAgentStatus(): void {
+    for (const machine of this.tabs.values()) {
+      const { currentRoute } = machine.getState();
+      machine.transition({ type: 'AGENT_STATUS', running: currentRoute ? this.isAgentRunning(currentRoute) : false });
+    }
+  }
+
+  /**
+   * End a closed tab's session (leaving active records its time) and forget the tab
+   */
+  removeTab(tabId: number): void {
+    const machine = this.tabs.get(tabId);
+    if (!machine) {
+      return;
+    }
+    machine.transition({ type: 'BLUR' });
+    this.tabs.delete(tabId);
+    this.updateCombinedState();
+  }
+
+  /**
+   * Pass a browser idle state change (active, idle or locked) to every tab
+   */
+  setSystemState(state: SystemIdleState): void {
+    this.systemState = state;
+    for (const machine of this.tabs.values()) {
+      machine.transition({ type: 'SYSTEM_STATE', state });
+    }
+    this.updateCombinedState();
+  }
+
+  /**
+   * Get a tab's state context (null for tabs that have not sent events)
+   */
+  getTabState(tabId: number): StateContext | null {
+    return this.tabs.get(tabId)?.getState() ?? null;
+  }
+
+  /**
+   * Get the state context of every tracked tab (for debug info)
+   */
+  getTabStates(): Record<number, StateContext> {
+    const states: Record<number, StateContext> = {};
+    for (const [tabId, machine] of this.tabs) {
+      states[tabId] = machine.getState();
+    }
+    return states;
+  }
+
+  /**
+   * Get the combined state context
+   * The route is the one of the focused tab (active, idle or locked), if any.
+   */
+  getState(): StateContext {
+    const contexts = [...this.tabs.values()].map((machine) => machine.getState());
+    const focused =
+      contexts.find((context) => context.currentState === 'active') ??
+      contexts.find((context) => context.currentState === 'idle') ??
+      contexts.find((context) => context.currentState === 'locked');
+
+    return {
+      currentState: this.combinedState,
+      subState: focused?.subState ?? null,
+      lastActivityTime: Math.max(this.combinedStateChangeTime, ...contexts.map((context) => context.lastActivityTime)),
+      lastStateChangeTime: this.combinedStateChangeTime,
+      currentRoute: focused?.currentRoute ?? null,
+    };
+  }
+
+  /**
+   * Start the idle check interval
+   * Checks every 5 seconds if any tab's idle threshold has been reached
+   */
+  startIdleCheck(): void {
+    if (this.idleCheckInterval) {
+      return; // Already running
+    }
+
+    this.idleCheckInterval = setInterval(() => {
+      // The machines only go idle once no activity was seen for the idle timeout
+      for (const machine of this.tabs.values()) {
+        machine.transition({ type: 'IDLE_TIMEOUT' });
+      }
+      this.updateCombinedState();
+    }, IDLE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the idle check interval
+   */
+  stopIdleCheck(): void {
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
+    }
+  }
+
+  /**
+   * Set callback for state changes of a single tab
+   */
+  setOnTabStateChange(
+    callback: (
+      tabId: number,
+      prev: ActivityState,
+      next: ActivityState,
+      context: StateContext
+    ) => void
+  ): void {
+    this.onTabStateChange = callback;
+  }
+
+  /**
+   * Set callback for sub-state changes (waiting_on_agent, reviewing) of a single tab
+   */
+  setOnTabSubStateChange(
+    callback: (
+      tabId: number,
+      prev: ActivitySubState | null,
+      next: ActivitySubState | null,
+      context: StateContext
+    ) => void
+  ): void {
+    this.onTabSubStateChange = callback;
+  }
+
+  /**
+   * Set the check whether a route's task has an attempt in progress
+   */
+  setAgentRunningCheck(check: (route: ParsedRoute) => boolean): void {
+    this.isAgentRunning = check;
+  }
+
+  /**
+   * Set callback for changes of the combined state
+   */
+  setOnCombinedStateChange(callback: (prev: ActivityState, next: ActivityState) => void): void {
+    this.onCombinedStateChange = callback;
+  }
+
+  /**
+   * Get a tab's state machine, creating it on the tab's first event
+   */
+  private getTab(tabId: number): StateMachine {
+    let machine = this.tabs.get(tabId);
+    if (!machine) {
+      machine = new StateMachine(this.idleTimeoutMs);
+      machine.setOnStateChange((prev, next, context) => {
+        this.onTabStateChange?.(tabId, prev, next, context);
+      });
+      machine.setOnSubStateChange((prev, next, context) => {
+        this.onTabSubStateChange?.(tabId, prev, next, context);
+      });
+      if (this.systemState) {
+        machine.transition({ type: 'SYSTEM_STATE', state: this.systemState });
+      }
+      this.tabs.set(tabId, machine);
+    }
+    return machine;
+  }
+
+  /**
+   * Derive the combined state (active in any tab, else idle, else locked, else unfocused)
+   * Called once per event, so focus moving between tabs does not pass through unfocused.
+   */
+  private updateCombinedState(): void {
+    const states = [...this.tabs.values()].map((machine) => machine.getState().currentState);
+    const next: ActivityState = states.includes('active')
+      ? 'active'
+      : states.includes('idle')
+        ? 'idle'
+        : states.includes('locked')
+          ? 'locked'
+          : 'unfocused';
+
+    const prev = this.combinedState;
+    if (next !== prev) {
+      this.combinedState = next;
+      this.combinedStateChangeTime = Date.now();
+      this.onCombinedStateChange?.(prev, next);
+    }
+  }
+}
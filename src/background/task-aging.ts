@@ -0,0 +1,52 @@
+/**
+ * Task aging for vibe-kanban tracker
+ * Measures how long open tasks have been in their current status and flags those
+ * past a per-status staleness threshold (e.g. a task stuck in review for a week,
+ * which the average age per status hides)
+ */
+
+import type { Task } from './api-client';
+
+/**
+ * Statuses a task can get stuck in
+ */
+export type OpenTaskStatus = 'todo' | 'inprogress' | 'inreview';
+
+/**
+ * Hours in a status after which a task is stale, per status (0 disables the check)
+ */
+export type StaleThresholds = Record<OpenTaskStatus, number>;
+
+/**
+ * Age of a task in its current status
+ */
+export interface TaskAge {
+  // Time since the task entered its current status
+  statusAgeMs: number;
+  stale: boolean;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Check whether a task is in a status it can get stuck in
+ */
+export function isOpenTask(task: Task): task is Task & { status: OpenTaskStatus } {
+  return task.status === 'todo' || task.status === 'inprogress' || task.status === 'inreview';
+}
+
+/**
+ * Get how long a task has been in its current status
+ * @param statusSince - Observed time the task entered its status (null if not observed:
+ *   updated_at is used instead, which any later edit of the task moves forward)
+ */
+export function getTaskAge(task: Task, statusSince: number | null, thresholds: StaleThresholds): TaskAge {
+  const since = statusSince ?? Date.parse(task.updated_at);
+  const statusAgeMs = Number.isNaN(since) ? 0 : Math.max(0, Date.now() - since);
+  const thresholdHours = isOpenTask(task) ? thresholds[task.status] : 0;
+
+  return {
+    statusAgeMs,
+    stale: thresholdHours > 0 && statusAgeMs >= thresholdHours * MS_PER_HOUR,
+  };
+}
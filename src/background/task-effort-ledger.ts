@@ -0,0 +1,127 @@
+/**
+ * Task effort ledger for vibe-kanban tracker
+ * Accumulates human effort per task (active time, messages, typing, diff/preview
+ * view time, interventions) from the activity events attributed to the task's route,
+ * until the task reaches done or cancelled and its summary is reported. The ledger is
+ * persisted, so effort spread over several browser sessions adds up.
+ */
+
+import type { ParsedRoute } from '../content/url-parser';
+import { TASK_EFFORT_RETENTION_DAYS } from '../shared/constants';
+
+/**
+ * Effort counts of one task
+ */
+export interface TaskEffortCounts {
+  activeTimeMs: number;
+  messagesSent: number;
+  charactersTyped: number;
+  // Time in the diffs and preview views
+  viewTimeMs: number;
+  interventions: number;
+}
+
+/**
+ * Accumulated effort of one task
+ */
+export interface TaskEffort extends TaskEffortCounts {
+  // Instance name (route.instance) and IDs of the task
+  instance: string;
+  projectId: string | null;
+  taskId: string;
+  firstActivityAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Persisted ledger state, keyed by instance name + '/' + task ID
+ */
+export type TaskEffortState = Record<string, TaskEffort>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class TaskEffortLedger {
+  private efforts: TaskEffortState;
+
+  constructor(state: TaskEffortState = {}) {
+    this.efforts = state;
+  }
+
+  /**
+   * Add effort to the task of a route (routes without a task are ignored)
+   */
+  record(route: ParsedRoute, increment: Partial<TaskEffortCounts>): void {
+    if (!route.taskId || !route.instance) {
+      return;
+    }
+
+    const key = route.instance + '/' + route.taskId;
+    const now = Date.now();
+    const effort = this.efforts[key] ?? {
+      instance: route.instance,
+      projectId: route.projectId ?? null,
+      taskId: route.taskId,
+      activeTimeMs: 0,
+      messagesSent: 0,
+      charactersTyped: 0,
+      viewTimeMs: 0,
+      interventions: 0,
+      firstActivityAt: now,
+      lastActivityAt: now,
+    };
+
+    this.efforts[key] = {
+      ...effort,
+      activeTimeMs: effort.activeTimeMs + (increment.activeTimeMs ?? 0),
+      messagesSent: effort.messagesSent + (increment.messagesSent ?? 0),
+      charactersTyped: effort.charactersTyped + (increment.charactersTyped ?? 0),
+      viewTimeMs: effort.viewTimeMs + (increment.viewTimeMs ?? 0),
+      interventions: effort.interventions + (increment.interventions ?? 0),
+      lastActivityAt: now,
+    };
+  }
+
+  /**
+   * Close a task's entry (the task reached done or cancelled)
+   * Returns the accumulated effort, or null if no effort was recorded for the task
+   */
+  complete(instance: string, taskId: string): TaskEffort | null {
+    const key = instance + '/' + taskId;
+    const effort = this.efforts[key];
+    if (!effort) {
+      return null;
+    }
+    delete this.efforts[key];
+    return effort;
+  }
+
+  /**
+   * Drop entries without activity within the retention period (e.g. deleted tasks)
+   * @returns Number of dropped entries
+   */
+  prune(): number {
+    const cutoff = Date.now() - TASK_EFFORT_RETENTION_DAYS * MS_PER_DAY;
+    let dropped = 0;
+    for (const [key, effort] of Object.entries(this.efforts)) {
+      if (effort.lastActivityAt < cutoff) {
+        delete this.efforts[key];
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  /**
+   * Number of tasks with recorded effort (for debug info)
+   */
+  getOpenTaskCount(): number {
+    return Object.keys(this.efforts).length;
+  }
+
+  /**
+   * Get state for persistence
+   */
+  getState(): TaskEffortState {
+    return this.efforts;
+  }
+}
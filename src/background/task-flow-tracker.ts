@@ -0,0 +1,251 @@
+/**
+ * Task flow tracker for vibe-kanban tracker
+ * Diffs successive task snapshots to detect status transitions (e.g. todo -> inprogress
+ * -> inreview -> done) and measure time in status, lead time (created -> done) and
+ * cycle time (first inprogress -> done), and to report each task attempt once when it
+ * finishes. The last known status of each task is persisted, so transitions made while
+ * the browser was closed are still detected.
+ */
+
+import type { Project, Task, TaskAttempt } from './api-client';
+import type { InstanceSnapshot } from './task-snapshot-store';
+
+type TaskStatus = Task['status'];
+
+/**
+ * Last known status of a task
+ */
+export interface TrackedTask {
+  status: TaskStatus;
+  // When the task entered its current status (null if that was not observed)
+  since: number | null;
+  // When the task first entered inprogress (null if not observed, or reset by moving back to todo)
+  startedAt: number | null;
+  createdAt: number;
+  // Finished attempts already reported (null until the task's attempts are first seen)
+  finishedAttemptIds: string[] | null;
+}
+
+/**
+ * Persisted tracker state
+ */
+export interface TaskFlowState {
+  // Tracked tasks keyed by instance ID + '/' + task ID
+  tasks: Record<string, TrackedTask>;
+  // Time of the last observation per instance ID
+  observedAt: Record<string, number>;
+}
+
+/**
+ * Detected status change of a task
+ */
+export interface StatusTransition {
+  project: Project;
+  task: Task;
+  from: TaskStatus;
+  to: TaskStatus;
+  // Estimated time of the change (see observe)
+  at: number;
+  // Time spent in the previous status (null if its start was not observed)
+  timeInStatusMs: number | null;
+  // Created -> done (only for transitions to done)
+  leadTimeMs: number | null;
+  // First inprogress -> done (only for transitions to done whose start was observed)
+  cycleTimeMs: number | null;
+  // Number of attempts (only for transitions to done whose attempts are known)
+  attemptCount: number | null;
+}
+
+/**
+ * Task attempt seen finished for the first time
+ */
+export interface FinishedAttempt {
+  project: Project;
+  task: Task;
+  attempt: TaskAttempt;
+  // Created -> completed_at (null if the server does not send completed_at)
+  durationMs: number | null;
+}
+
+/**
+ * Check whether an attempt's coding agent has finished
+ */
+export function isFinishedAttempt(attempt: TaskAttempt): boolean {
+  return attempt.status === 'completed' || attempt.status === 'failed' || attempt.status === 'killed';
+}
+
+/**
+ * Create empty tracker state (first run)
+ */
+export function createTaskFlowState(): TaskFlowState {
+  return { tasks: {}, observedAt: {} };
+}
+
+export class TaskFlowTracker {
+  private state: TaskFlowState;
+
+  constructor(state: TaskFlowState = createTaskFlowState()) {
+    this.state = state;
+  }
+
+  /**
+   * Get state for persistence
+   */
+  getState(): TaskFlowState {
+    return this.state;
+  }
+
+  /**
+   * Diff an instance's tasks against their last known status (pass fresh snapshots only)
+   * A change is dated by the task's updated_at, kept within the time since the previous
+   * observation. Newly seen tasks are tracked without a transition; their status start is
+   * known only if they were created since the previous observation, or are still in todo.
+   * Attempts that finished before a task was first seen are not reported, like its earlier
+   * statuses. Returns the transitions and finished attempts, and whether any task changed
+   * (and the state should be saved).
+   */
+  observe(snapshot: InstanceSnapshot): {
+    transitions: StatusTransition[];
+    finishedAttempts: FinishedAttempt[];
+    changed: boolean;
+  } {
+    const transitions: StatusTransition[] = [];
+    const finishedAttempts: FinishedAttempt[] = [];
+    const { instance } = snapshot;
+    const now = Date.now();
+    const previousObservation = this.state.observedAt[instance.id] ?? null;
+    const seen = new Set<string>();
+    let changed = false;
+
+    for (const project of snapshot.projects) {
+      for (const task of snapshot.tasks[project.id] ?? []) {
+        const key = instance.id + '/' + task.id;
+        seen.add(key);
+        const attempts = snapshot.attempts[task.id];
+        let tracked = this.state.tasks[key];
+        const createdAt = Date.parse(task.created_at);
+
+        if (!tracked) {
+          const createdSinceLastLook = previousObservation !== null && createdAt > previousObservation;
+          this.state.tasks[key] = {
+            status: task.status,
+            since: createdSinceLastLook || task.status === 'todo' ? createdAt : null,
+            startedAt: createdSinceLastLook && task.status === 'inprogress' ? createdAt : null,
+            createdAt,
+            // A new task's attempts are all reported; an existing task's finished ones are history
+            finishedAttemptIds: createdSinceLastLook ? [] : null,
+          };
+          tracked = this.state.tasks[key];
+          changed = true;
+        }
+
+        if (attempts) {
+          const newlyFinished = attempts.filter(
+            (attempt) => isFinishedAttempt(attempt) && !tracked.finishedAttemptIds?.includes(attempt.id)
+          );
+          if (tracked.finishedAttemptIds !== null) {
+            for (const attempt of newlyFinished) {
+              const completedAt = attempt.completed_at ? Date.parse(attempt.completed_at) : NaN;
+              finishedAttempts.push({
+                project,
+                task,
+                attempt,
+                durationMs: Number.isNaN(completedAt) ? null : Math.max(0, completedAt - Date.parse(attempt.created_at)),
+              });
+            }
+          }
+          if (tracked.finishedAttemptIds === null || newlyFinished.length > 0) {
+            tracked.finishedAttemptIds = [
+              ...(tracked.finishedAttemptIds ?? []),
+              ...newlyFinished.map((attempt) => attempt.id),
+            ];
+            changed = true;
+          }
+        }
+
+        if (tracked.status === task.status) {
+          continue;
+        }
+
+        const at = this.estimateTransitionTime(task, previousObservation, now);
+        const toDone = task.status === 'done';
+        transitions.push({
+          project,
+          task,
+          from: tracked.status,
+          to: task.status,
+          at,
+          timeInStatusMs: tracked.since !== null ? Math.max(0, at - tracked.since) : null,
+          leadTimeMs: toDone ? Math.max(0, at - tracked.createdAt) : null,
+          cycleTimeMs: toDone && tracked.startedAt !== null ? Math.max(0, at - tracked.startedAt) : null,
+          attemptCount: toDone && attempts ? attempts.length : null,
+        });
+
+        this.state.tasks[key] = {
+          ...tracked,
+          status: task.status,
+          since: at,
+          startedAt:
+            task.status === 'todo'
+              ? null
+              : task.status === 'inprogress' && tracked.startedAt === null
+                ? at
+                : tracked.startedAt,
+        };
+        changed = true;
+      }
+    }
+
+    // Forget deleted tasks
+    for (const key of Object.keys(this.state.tasks)) {
+      if (key.startsWith(instance.id + '/') && !seen.has(key)) {
+        delete this.state.tasks[key];
+        changed = true;
+      }
+    }
+
+    this.state.observedAt[instance.id] = now;
+    return { transitions, finishedAttempts, changed };
+  }
+
+  /**
+   * Get the observed time a task entered its current status
+   * Returns null if that was not observed, or the task's status changed since the last observation
+   */
+  getStatusSince(instanceId: string, task: Task): number | null {
+    const tracked = this.state.tasks[instanceId + '/' + task.id];
+    return tracked && tracked.status === task.status ? tracked.since : null;
+  }
+
+  /**
+   * Forget tasks of instances that are no longer configured
+   */
+  retainInstances(instanceIds: string[]): boolean {
+    const retained = new Set(instanceIds);
+    let changed = false;
+    for (const key of Object.keys(this.state.tasks)) {
+      if (!retained.has(key.slice(0, key.indexOf('/')))) {
+        delete this.state.tasks[key];
+        changed = true;
+      }
+    }
+    for (const instanceId of Object.keys(this.state.observedAt)) {
+      if (!retained.has(instanceId)) {
+        delete this.state.observedAt[instanceId];
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Date a status change by updated_at, clamped to the window since the previous observation
+   */
+  private estimateTransitionTime(task: Task, previousObservation: number | null, now: number): number {
+    const updatedAt = Date.parse(task.updated_at);
+    if (Number.isNaN(updatedAt)) {
+      return now;
+    }
+    return Math.min(now, Math.max(previousObservation ?? updatedAt, updatedAt));
+  }
+}
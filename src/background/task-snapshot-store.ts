@@ -0,0 +1,514 @@
+/**
+ * Task snapshot store for vibe-kanban tracker
+ * Holds the latest projects, tasks and task attempts of every enabled instance,
+ * refreshed on one schedule, so the sidebar and the API metrics collector read the
+ * same data instead of each fetching the whole tree. An instance that fails to
+ * refresh keeps its previous data (with the error) so the sidebar can show it as stale.
+ *
+ * Up to MAX_STREAMS_PER_INSTANCE projects of an instance also get a task event stream.
+ * While a project's stream is open its tasks are updated incrementally from the stream
+ * and no longer polled; the other projects, and those of servers without streams (or
+ * with a dropped stream), keep being polled.
+ */
+
+import {
+  describeApiError,
+  type ApiError,
+  type Project,
+  type Task,
+  type TaskAttempt,
+  type TaskStreamChange,
+} from './api-client';
+import { getInstanceName, type InstanceRegistry, type VibeKanbanInstance } from './instance-registry';
+import type { VibeKanbanApiClient } from './api-client';
+import type { EventStream, EventStreamState } from './event-stream';
+import type { ProjectNameCache } from './project-name-cache';
+
+// Streams are long-lived connections, and the browser allows about 6 per host: more
+// streams would leave polling and attempt requests to the instance no connection
+const MAX_STREAMS_PER_INSTANCE = 3;
+
+/**
+ * Latest data of one instance
+ */
+export interface InstanceSnapshot {
+  instance: VibeKanbanInstance;
+  projects: Project[];
+  // Tasks by project ID
+  tasks: Record<string, Task[]>;
+  // Attempts by task ID, newest first (missing until fetched)
+  attempts: Record<string, TaskAttempt[]>;
+  // Time of the last successful refresh (null if the instance never answered)
+  fetchedAt: number | null;
+  // Error of the latest refresh, if it failed
+  error: ApiError | null;
+}
+
+/**
+ * Latest data of all enabled instances, in configured order
+ */
+export interface TaskSnapshot {
+  instances: InstanceSnapshot[];
+  // Time the latest refresh finished (null before the first one)
+  refreshedAt: number | null;
+}
+
+/**
+ * Task event stream of one project
+ */
+interface ProjectStream {
+  stream: EventStream;
+  // Task list kept by the stream; null until seeded by a reset event or a poll after opening
+  tasks: Task[] | null;
+}
+
+/**
+ * Task event streams of one instance, by project ID
+ */
+interface InstanceStreams {
+  url: string;
+  client: VibeKanbanApiClient;
+  projects: Map<string, ProjectStream>;
+}
+
+/**
+ * Number of task event streams per state (for debug info)
+ */
+export type TaskStreamStats = Record<EventStreamState, number>;
+
+/**
+ * Apply stream changes to a task list
+ */
+function applyTaskChanges(tasks: Task[], changes: TaskStreamChange[]): Task[] {
+  let result = tasks;
+  for (const change of changes) {
+    switch (change.kind) {
+      case 'reset':
+        result = change.tasks;
+        break;
+      case 'upsert': {
+        const index = result.findIndex((task) => task.id === change.task.id);
+        result = index === -1
+          ? [...result, change.task]
+          : result.map((task, i) => (i === index ? change.task : task));
+        break;
+      }
+      case 'remove':
+        result = result.filter((task) => task.id !== change.taskId);
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether a task is shown as active (in progress or in review)
+ */
+export function isActiveTask(task: Task): boolean {
+  return task.status === 'inprogress' || task.status === 'inreview';
+}
+
+/**
+ * Check whether a task is closed (done or cancelled)
+ */
+function isClosedTask(task: Task): boolean {
+  return task.status === 'done' || task.status === 'cancelled';
+}
+
+export class TaskSnapshotStore {
+  private instanceRegistry: InstanceRegistry;
+  private projectNameCache: ProjectNameCache;
+  private snapshots: Map<string, InstanceSnapshot> = new Map();
+  private refreshedAt: number | null = null;
+  private refreshing: Promise<TaskSnapshot> | null = null;
+  private streams: Map<string, InstanceStreams> = new Map();
+  private onChange: (() => void) | null = null;
+
+  constructor(instanceRegistry: InstanceRegistry, projectNameCache: ProjectNameCache) {
+    this.instanceRegistry = instanceRegistry;
+    this.projectNameCache = projectNameCache;
+  }
+
+  /**
+   * Set callback for snapshot changes (after each refresh and each stream update)
+   */
+  setOnChange(callback: () => void): void {
+    this.onChange = callback;
+  }
+
+  /**
+   * Get the latest snapshot without fetching
+   */
+  getSnapshot(): TaskSnapshot {
+    const instances = this.instanceRegistry
+      .getEnabled()
+      .map(({ instance }) => this.snapshots.get(instance.id))
+      .filter((snapshot): snapshot is InstanceSnapshot => snapshot !== undefined);
+    return { instances, refreshedAt: this.refreshedAt };
+  }
+
+  /**
+   * Get the latest snapshot, waiting for a refresh if none has covered every enabled
+   * instance yet (first run, or an instance was just added)
+   */
+  async current(): Promise<TaskSnapshot> {
+    const snapshot = this.getSnapshot();
+    if (this.refreshedAt === null || snapshot.instances.length < this.instanceRegistry.getEnabled().length) {
+      return this.refresh();
+    }
+    return snapshot;
+  }
+
+  /**
+   * Find a task by instance name and task ID (null if not in the snapshot)
+   */
+  findTask(instanceName: string, taskId: string): { task: Task; snapshot: InstanceSnapshot } | null {
+    for (const snapshot of this.getSnapshot().instances) {
+      if (getInstanceName(snapshot.instance) !== instanceName) {
+        continue;
+      }
+      for (const tasks of Object.values(snapshot.tasks)) {
+        const task = tasks.find((candidate) => candidate.id === taskId);
+        if (task) {
+          return { task, snapshot };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether a task has an attempt in progress, by instance name and task ID
+   * (false for tasks not in the snapshot)
+   */
+  hasRunningAttempt(instanceName: string, taskId: string): boolean {
+    const found = this.findTask(instanceName, taskId);
+    if (!found) {
+      return false;
+    }
+    return found.task.has_in_progress_attempt || found.snapshot.attempts[taskId]?.[0]?.status === 'running';
+  }
+
+  /**
+   * Get the time since the latest refresh finished (null before the first one)
+   */
+  getAgeMs(): number | null {
+    return this.refreshedAt === null ? null : Date.now() - this.refreshedAt;
+  }
+
+  /**
+   * Count task event streams by state
+   */
+  getStreamStats(): TaskStreamStats {
+    const stats: TaskStreamStats = { connecting: 0, open: 0, unavailable: 0, stopped: 0 };
+    for (const { projects } of this.streams.values()) {
+      for (const { stream } of projects.values()) {
+        stats[stream.getState()]++;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Close all task event streams
+   */
+  stopStreams(): void {
+    for (const instanceId of [...this.streams.keys()]) {
+      this.stopInstanceStreams(instanceId);
+    }
+  }
+
+  /**
+   * Refresh all enabled instances
+   * Calls while a refresh is running share it
+   */
+  refresh(): Promise<TaskSnapshot> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshAll().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh every enabled instance in parallel, then update the project name cache
+   */
+  private async refreshAll(): Promise<TaskSnapshot> {
+    const instances = this.instanceRegistry.getEnabled();
+    const snapshots = await Promise.all(
+      instances.map(({ instance, client }) => this.refreshInstance(instance, client))
+    );
+
+    // Drop instances that were removed or disabled
+    this.snapshots = new Map(snapshots.map((snapshot) => [snapshot.instance.id, snapshot]));
+    this.refreshedAt = Date.now();
+    for (const instanceId of [...this.streams.keys()]) {
+      if (!this.snapshots.has(instanceId)) {
+        this.stopInstanceStreams(instanceId);
+      }
+    }
+
+    // Names of an unreachable instance are kept until it answers
+    if (snapshots.every((snapshot) => snapshot.error === null)) {
+      this.projectNameCache.clear();
+    }
+    for (const snapshot of snapshots) {
+      for (const project of snapshot.projects) {
+        this.projectNameCache.set(project.id, project.name);
+      }
+    }
+
+    this.onChange?.();
+    return this.getSnapshot();
+  }
+
+  /**
+   * Fetch projects, tasks and changed attempts of one instance
+   * Tasks of projects with an open stream are taken from the stream instead of fetched.
+   * A failed project or task list keeps the previous data: a partial tree would look like missing tasks
+   */
+  private async refreshInstance(
+    instance: VibeKanbanInstance,
+    client: VibeKanbanApiClient
+  ): Promise<InstanceSnapshot> {
+    const cached = this.snapshots.get(instance.id);
+    // A changed URL is a different server: its old data does not apply
+    const previous = cached && cached.instance.url === instance.url ? cached : undefined;
+    const failed = (error: ApiError): InstanceSnapshot => {
+      console.warn('[vibe-tracker] Snapshot refresh failed for ' + instance.url + ': ' + describeApiError(error));
+      return previous
+        ? { ...previous, instance, error }
+        : { instance, projects: [], tasks: {}, attempts: {}, fetchedAt: null, error };
+    };
+
+    const projectsResult = await client.fetchProjects();
+    if (projectsResult.kind !== 'ok') {
+      return failed(projectsResult);
+    }
+    const projects = projectsResult.data;
+
+    const streams = this.syncStreams(instance, client, projects);
+    const polled = projects.filter((project) => !this.isLive(streams.get(project.id)));
+    const tasksResults = await Promise.all(polled.map((project) => client.fetchProjectTasks(project.id)));
+    const tasks: Record<string, Task[]> = {};
+    for (const [index, project] of polled.entries()) {
+      const tasksResult = tasksResults[index];
+      if (tasksResult.kind !== 'ok') {
+        return failed(tasksResult);
+      }
+      tasks[project.id] = tasksResult.data;
+
+      // Seed a stream that opened without sending the full list
+      const projectStream = streams.get(project.id);
+      if (projectStream && projectStream.tasks === null && projectStream.stream.getState() === 'open') {
+        projectStream.tasks = tasksResult.data;
+      }
+    }
+
+    const attempts = await this.refreshAttempts(
+      client,
+      [...Object.values(tasks).flat(), ...this.getStreamedTasks(streams, projects)],
+      previous
+    );
+
+    // Read streamed tasks last, so stream updates received while fetching are kept
+    for (const project of projects) {
+      const projectStream = streams.get(project.id);
+      if (!tasks[project.id] && projectStream?.tasks) {
+        tasks[project.id] = projectStream.tasks;
+      }
+    }
+
+    return { instance, projects, tasks, attempts, fetchedAt: Date.now(), error: null };
+  }
+
+  /**
+   * Check whether a project's tasks come from its stream
+   */
+  private isLive(projectStream: ProjectStream | undefined): boolean {
+    return projectStream?.stream.getState() === 'open' && projectStream.tasks !== null;
+  }
+
+  /**
+   * Get the tasks of projects whose tasks come from their stream
+   */
+  private getStreamedTasks(streams: Map<string, ProjectStream>, projects: Project[]): Task[] {
+    return projects.flatMap((project) => {
+      const projectStream = streams.get(project.id);
+      return this.isLive(projectStream) ? projectStream!.tasks! : [];
+    });
+  }
+
+  /**
+   * Open streams for new projects (up to MAX_STREAMS_PER_INSTANCE, in project order) and
+   * close those of removed projects
+   * A changed instance URL gets new clients, so its streams are reopened
+   */
+  private syncStreams(
+    instance: VibeKanbanInstance,
+    client: VibeKanbanApiClient,
+    projects: Project[]
+  ): Map<string, ProjectStream> {
+    let instanceStreams = this.streams.get(instance.id);
+    if (instanceStreams && (instanceStreams.url !== instance.url || instanceStreams.client !== client)) {
+      this.stopInstanceStreams(instance.id);
+      instanceStreams = undefined;
+    }
+    if (!instanceStreams) {
+      instanceStreams = { url: instance.url, client, projects: new Map() };
+      this.streams.set(instance.id, instanceStreams);
+    }
+
+    const projectIds = new Set(projects.map((project) => project.id));
+    for (const [projectId, projectStream] of instanceStreams.projects) {
+      if (!projectIds.has(projectId)) {
+        projectStream.stream.stop();
+        instanceStreams.projects.delete(projectId);
+      }
+    }
+
+    for (const project of projects) {
+      if (instanceStreams.projects.size >= MAX_STREAMS_PER_INSTANCE) {
+        break;
+      }
+      if (instanceStreams.projects.has(project.id)) {
+        continue;
+      }
+      const projectStream: ProjectStream = {
+        tasks: null,
+        stream: client.openTaskStream(project.id, {
+          onChanges: (changes) => {
+            this.applyStreamChanges(instance.id, project.id, projectStream, changes).catch((error) => {
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              console.warn('[vibe-tracker] Failed to apply task stream changes for project ' + project.id + ': ' + message);
+            });
+          },
+          onStateChange: (state) => {
+            if (state === 'open') {
+              // Poll once more to seed the stream, unless the server sends the full list first
+              this.refresh().catch((error) => {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.warn('[vibe-tracker] Snapshot refresh after task stream opened failed: ' + message);
+              });
+            } else {
+              // Changes may have been missed while not connected
+              projectStream.tasks = null;
+            }
+          },
+        }),
+      };
+      instanceStreams.projects.set(project.id, projectStream);
+      projectStream.stream.start();
+    }
+
+    return instanceStreams.projects;
+  }
+
+  /**
+   * Close the streams of one instance
+   */
+  private stopInstanceStreams(instanceId: string): void {
+    const instanceStreams = this.streams.get(instanceId);
+    if (!instanceStreams) {
+      return;
+    }
+    this.streams.delete(instanceId);
+    for (const { stream } of instanceStreams.projects.values()) {
+      stream.stop();
+    }
+  }
+
+  /**
+   * Apply task changes from a project's stream to the snapshot, then fetch the
+   * attempts of tasks that changed
+   */
+  private async applyStreamChanges(
+    instanceId: string,
+    projectId: string,
+    projectStream: ProjectStream,
+    changes: TaskStreamChange[]
+  ): Promise<void> {
+    // Until the list is seeded, only a full list applies; other changes are covered by the seeding poll
+    let applicable = changes;
+    if (projectStream.tasks === null) {
+      const resetIndex = changes.map((change) => change.kind).lastIndexOf('reset');
+      if (resetIndex === -1) {
+        return;
+      }
+      applicable = changes.slice(resetIndex);
+    }
+    projectStream.tasks = applyTaskChanges(projectStream.tasks ?? [], applicable);
+
+    const snapshot = this.snapshots.get(instanceId);
+    if (!snapshot || snapshot.fetchedAt === null) {
+      return;
+    }
+    this.snapshots.set(instanceId, {
+      ...snapshot,
+      tasks: { ...snapshot.tasks, [projectId]: projectStream.tasks },
+    });
+    this.onChange?.();
+
+    const client = this.streams.get(instanceId)?.client;
+    if (!client) {
+      return;
+    }
+    const attempts = await this.refreshAttempts(client, projectStream.tasks, snapshot);
+    const current = this.snapshots.get(instanceId);
+    if (current) {
+      this.snapshots.set(instanceId, {
+        ...current,
+        attempts: { ...current.attempts, ...attempts },
+      });
+      this.onChange?.();
+    }
+  }
+
+  /**
+   * Get the attempts of each task
+   * Attempts are only fetched for open tasks not fetched yet, and for tasks whose status,
+   * updated_at or attempt flags changed since the previous snapshot (which includes tasks
+   * that just closed); a failed fetch keeps the previous value
+   */
+  private async refreshAttempts(
+    client: VibeKanbanApiClient,
+    tasks: Task[],
+    previous: InstanceSnapshot | undefined
+  ): Promise<Record<string, TaskAttempt[]>> {
+    const previousTasks = new Map(
+      Object.values(previous?.tasks ?? {})
+        .flat()
+        .map((task) => [task.id, task])
+    );
+    const attempts: Record<string, TaskAttempt[]> = {};
+
+    await Promise.all(
+      tasks.map(async (task) => {
+        const known = previous?.attempts[task.id];
+        const previousTask = previousTasks.get(task.id);
+        const changed =
+          previousTask !== undefined &&
+          (previousTask.status !== task.status ||
+            previousTask.updated_at !== task.updated_at ||
+            previousTask.has_in_progress_attempt !== task.has_in_progress_attempt ||
+            previousTask.last_attempt_failed !== task.last_attempt_failed);
+        if (!changed && (known !== undefined || isClosedTask(task))) {
+          if (known !== undefined) {
+            attempts[task.id] = known;
+          }
+          return;
+        }
+
+        const attemptsResult = await client.fetchTaskAttempts(task.id);
+        if (attemptsResult.kind === 'ok') {
+          attempts[task.id] = attemptsResult.data; // Newest first (sorted DESC)
+        } else if (known !== undefined) {
+          attempts[task.id] = known;
+        }
+      })
+    );
+
+    return attempts;
+  }
+}
@@ -4,14 +4,22 @@
  */
 
 import browser from 'webextension-polyfill';
-import type { ActiveTasksResponse, ActiveTaskItem } from '../../shared/sidebar-messages';
+import {
+  ACTIVE_TASKS_PORT_NAME,
+  type ActiveTasksResponse,
+  type ActiveTasksErrorKind,
+  type ActiveTaskItem,
+  type ActiveTasksUpdatedMessage,
+} from '../../shared/sidebar-messages';
 import { createTaskCard } from './task-card';
 import sidebarStyles from './sidebar.css';
+import { TASK_SNAPSHOT_STALE_MS } from '../../shared/constants';
 
 // Constants
 const STORAGE_KEY_SIDEBAR_OPEN = 'vibe-sidebar-open';
 const STORAGE_KEY_SIDEBAR_LOCKED = 'vibe-sidebar-locked';
 const REFRESH_INTERVAL_MS = 10000; // 10 seconds
+const RECONNECT_DELAY_MS = 5000; // Retry delay after losing the update port
 
 // SVG icons
 const TOGGLE_ICON = `<svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -55,6 +63,8 @@ let refreshIntervalId: ReturnType<typeof setInterval> | null = null;
 let isOpen = false;
 let lastError: string | null = null;
 let isLocked = false;
+let hasLoadedTasks = false;
+let updatesPort: browser.Runtime.Port | null = null;
 
 /**
  * Escapes HTML to prevent XSS
@@ -200,14 +210,35 @@ function renderEmptyState(content: HTMLDivElement): void {
   `;
 }
 
+/**
+ * Headline for the error state, based on why the API could not be read
+ */
+function getErrorTitle(errorKind?: ActiveTasksErrorKind): string {
+  switch (errorKind) {
+    case 'network_error':
+      return 'vibe-kanban is not reachable';
+    case 'http_error':
+    case 'api_error':
+      return 'vibe-kanban returned an error';
+    case 'parse_error':
+      return 'Unexpected response from vibe-kanban';
+    default:
+      return 'Failed to load tasks';
+  }
+}
+
 /**
  * Renders the error state with retry button
  */
-function renderErrorState(content: HTMLDivElement, errorMessage: string): void {
+function renderErrorState(
+  content: HTMLDivElement,
+  errorMessage: string,
+  errorKind?: ActiveTasksErrorKind
+): void {
   content.innerHTML = `
     <div class="vibe-error-state">
       <div class="vibe-error-icon">${ERROR_ICON}</div>
-      <div class="vibe-error-message">Failed to load tasks</div>
+      <div class="vibe-error-message">${getErrorTitle(errorKind)}</div>
       <div class="vibe-error-details">${escapeHtml(errorMessage)}</div>
       <button class="vibe-retry-button">Retry</button>
     </div>
@@ -240,19 +271,34 @@ function renderTasks(content: HTMLDivElement, tasks: ActiveTaskItem[]): void {
 }
 
 /**
- * Updates the last updated timestamp
+ * Prepends a notice for each instance that could not be read
  */
-function updateLastUpdatedTimestamp(): void {
+function renderWarnings(content: HTMLDivElement, warnings: string[]): void {
+  for (const warning of [...warnings].reverse()) {
+    const notice = document.createElement('div');
+    notice.className = 'vibe-warning';
+    notice.textContent = warning;
+    content.prepend(notice);
+  }
+}
+
+/**
+ * Updates the last updated timestamp to when the listed data was fetched
+ * Marks it as stale when the background has not been able to refresh it for a while
+ */
+function updateLastUpdatedTimestamp(snapshotAgeMs = 0): void {
   if (!elements) return;
 
-  const now = new Date();
-  const timeString = now.toLocaleTimeString('en-US', {
+  const updatedAt = new Date(Date.now() - snapshotAgeMs);
+  const timeString = updatedAt.toLocaleTimeString('en-US', {
     hour: '2-digit',
     minute: '2-digit',
     second: '2-digit',
     hour12: false,
   });
-  elements.lastUpdated.textContent = `Last updated: ${timeString}`;
+  const isStale = snapshotAgeMs > TASK_SNAPSHOT_STALE_MS;
+  elements.lastUpdated.textContent = `Last updated: ${timeString}` + (isStale ? ' (stale)' : '');
+  elements.lastUpdated.classList.toggle('stale', isStale);
 }
 
 /**
@@ -277,15 +323,25 @@ async function fetchAndRenderTasks(): Promise<void> {
 
   console.log('[vibe-tracker] Fetching active tasks...');
 
-  // Show loading state
-  renderLoadingState(elements.content);
+  // Show loading state on first load only; afterwards the current list stays until replaced
+  if (!hasLoadedTasks) {
+    renderLoadingState(elements.content);
+  }
 
-  const response = await fetchActiveTasks();
+  renderResponse(await fetchActiveTasks());
+}
+
+/**
+ * Renders tasks, or the error state, from a background response
+ */
+function renderResponse(response: ActiveTasksResponse): void {
+  if (!elements) return;
 
   if (!response.success) {
     lastError = response.error || 'Unknown error';
     console.error('[vibe-tracker] Error fetching tasks:', lastError);
-    renderErrorState(elements.content, lastError);
+    renderErrorState(elements.content, lastError, response.errorKind);
+    hasLoadedTasks = false;
     return;
   }
 
@@ -297,9 +353,38 @@ async function fetchAndRenderTasks(): Promise<void> {
   } else {
     renderTasks(elements.content, tasks);
   }
+  renderWarnings(elements.content, response.warnings || []);
 
-  updateLastUpdatedTimestamp();
+  updateLastUpdatedTimestamp(response.snapshotAgeMs);
   lastError = null;
+  hasLoadedTasks = true;
+}
+
+/**
+ * Connects to the background to receive task updates as they happen
+ * Reconnects after a delay if the background goes away (e.g. extension reload)
+ */
+function connectForUpdates(): void {
+  try {
+    updatesPort = browser.runtime.connect({ name: ACTIVE_TASKS_PORT_NAME });
+  } catch (error) {
+    console.error('[vibe-tracker] Failed to connect for task updates:', error);
+    return;
+  }
+
+  updatesPort.onMessage.addListener((message: unknown) => {
+    const update = message as ActiveTasksUpdatedMessage;
+    if (update.type === 'ACTIVE_TASKS_UPDATED') {
+      console.log('[vibe-tracker] Received task update');
+      renderResponse(update.response);
+    }
+  });
+  updatesPort.onDisconnect.addListener(() => {
+    updatesPort = null;
+    if (elements) {
+      setTimeout(connectForUpdates, RECONNECT_DELAY_MS);
+    }
+  });
 }
 
 /**
@@ -502,6 +587,8 @@ function stopAutoRefresh(): void {
  */
 function cleanup(): void {
   stopAutoRefresh();
+  updatesPort?.disconnect();
+  updatesPort = null;
 
   if (elements) {
     elements.host.remove();
@@ -588,7 +675,8 @@ export function initializeSidebar(): void {
   // Fetch tasks on initialization
   fetchAndRenderTasks();
 
-  // Start auto-refresh
+  // Receive updates pushed by the background, with auto-refresh as a fallback
+  connectForUpdates();
   startAutoRefresh();
 
   // Set up cleanup on page unload
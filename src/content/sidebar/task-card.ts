@@ -31,6 +31,37 @@ function getStatusBadgeText(status: ActiveTaskStatus): string {
   }
 }
 
+/**
+ * Formats an elapsed time compactly (e.g. "45m", "5h", "3d 4h")
+ * @param ms - Elapsed time in milliseconds
+ * @returns Human-readable elapsed time
+ */
+export function formatElapsed(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `${days}d` : `${days}d ${hours % 24}h`;
+}
+
+/**
+ * Builds the task page URL on the task's own instance, with the latest attempt if any
+ * @param task - The task to link to
+ * @returns Absolute URL of the task detail page
+ */
+export function getTaskUrl(task: ActiveTaskItem): string {
+  let url = `${task.instanceUrl}/projects/${task.projectId}/tasks/${task.taskId}`;
+  if (task.latestAttemptId) {
+    url += `/attempts/${task.latestAttemptId}`;
+  }
+  return url;
+}
+
 /**
  * Creates a task card element for displaying in the sidebar
  * @param task - The task data to display
@@ -43,15 +74,22 @@ export function createTaskCard(task: ActiveTaskItem): HTMLElement {
   
   // Escape all user-provided content to prevent XSS
   const escapedTitle = escapeHtml(task.taskTitle);
-  const escapedProjectName = escapeHtml(task.projectName);
+  const escapedProjectName = escapeHtml(
+    task.instanceName ? task.projectName + ' · ' + task.instanceName : task.projectName
+  );
   const escapedStatus = escapeHtml(task.status);
   const statusBadgeText = escapeHtml(getStatusBadgeText(task.status));
+  // Stale marker: how long the task has been in its status
+  const staleMarker = task.stale && task.statusAgeMs !== undefined
+    ? `<div class="vibe-task-stale">Stale · ${formatElapsed(task.statusAgeMs)} ${statusBadgeText.toLowerCase()}</div>`
+    : '';
   
   card.innerHTML = `
     <div class="vibe-task-status-dot ${escapedStatus}"></div>
     <div class="vibe-task-content">
       <div class="vibe-task-title">${escapedTitle}</div>
       <div class="vibe-task-project">${escapedProjectName}</div>
+      ${staleMarker}
     </div>
     <div class="vibe-task-badge vibe-task-badge--${escapedStatus}">
       ${statusBadgeText}
@@ -60,24 +98,14 @@ export function createTaskCard(task: ActiveTaskItem): HTMLElement {
   
   // Click handler for navigation
   card.addEventListener('click', () => {
-    // Build URL with optional attempt
-    let url = `/projects/${task.projectId}/tasks/${task.taskId}`;
-    if (task.latestAttemptId) {
-      url += `/attempts/${task.latestAttemptId}`;
-    }
-    window.location.href = url;
+    window.location.href = getTaskUrl(task);
   });
   
   // Keyboard accessibility - Enter key triggers click
   card.addEventListener('keydown', (event: KeyboardEvent) => {
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
-      // Build URL with optional attempt
-      let url = `/projects/${task.projectId}/tasks/${task.taskId}`;
-      if (task.latestAttemptId) {
-        url += `/attempts/${task.latestAttemptId}`;
-      }
-      window.location.href = url;
+      window.location.href = getTaskUrl(task);
     }
   });
   
@@ -9,6 +9,8 @@ export interface ParsedRoute {
   projectId?: string;
   taskId?: string;
   view?: 'diffs' | 'preview' | null;
+  // vibe-kanban instance name (set by the background from the sending tab's origin)
+  instance?: string;
 }
 
 // UUID pattern for matching IDs in URLs
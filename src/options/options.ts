@@ -4,6 +4,7 @@
  */
 
 import browser from 'webextension-polyfill';
+import { renderTimeline, type TimelineEntry } from './timeline';
 
 console.log('[vibe-tracker-options] Options page loaded');
 
@@ -19,22 +20,92 @@ interface SaveConfigMessage {
 
 interface TestConnectionMessage {
   type: 'TEST_CONNECTION';
+  destinationId: string;
 }
 
 interface GetDebugInfoMessage {
   type: 'GET_DEBUG_INFO';
 }
 
+interface ExportArchiveMessage {
+  type: 'EXPORT_ARCHIVE';
+  from: number;
+  to: number;
+  format: ArchiveFormat;
+}
+
+interface GetTimelineMessage {
+  type: 'GET_TIMELINE';
+  from: number;
+  to: number;
+}
+
 type OptionsMessage =
   | GetConfigMessage
   | SaveConfigMessage
   | TestConnectionMessage
-  | GetDebugInfoMessage;
+  | GetDebugInfoMessage
+  | ExportArchiveMessage
+  | GetTimelineMessage;
+
+type OTLPAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string };
+
+type ExportProtocol = 'otlp' | 'prometheus';
+
+type ArchiveFormat = 'ndjson' | 'csv';
+
+interface ExportDestination {
+  id: string;
+  name: string;
+  protocol: ExportProtocol;
+  endpoint: string;
+  headers: Record<string, string>;
+  auth: OTLPAuth;
+  enabled: boolean;
+}
+
+interface VibeKanbanInstance {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+}
 
 interface StoredConfig {
   machineId: string;
   idleTimeoutMs: number;
-  otelEndpoint: string;
+  systemIdleThresholdMs: number;
+  instances: VibeKanbanInstance[];
+  apiRequests: {
+    concurrency: number;
+    timeoutMs: number;
+  };
+  destinations: ExportDestination[];
+  otelEncoding: 'json' | 'protobuf';
+  otelCompression: 'none' | 'gzip';
+  counterTemporality: 'cumulative' | 'delta';
+  histogramBoundaries: {
+    durationMs: number[];
+    messageLength: number[];
+    flowHours: number[];
+  };
+  staleThresholds: {
+    todo: number;
+    inprogress: number;
+    inreview: number;
+  };
+  archive: {
+    enabled: boolean;
+    retentionDays: number;
+  };
+  timelineRetentionDays: number;
+  outboxPolicy: {
+    maxAgeMs: number;
+    maxBytes: number;
+  };
   enabled: boolean;
 }
 
@@ -49,12 +120,34 @@ interface TestConnectionResponse {
   error?: string;
 }
 
+interface ExportArchiveResponse {
+  success: boolean;
+  content?: string;
+  count?: number;
+  error?: string;
+}
+
+interface GetTimelineResponse {
+  success: boolean;
+  entries?: TimelineEntry[];
+  error?: string;
+}
+
 interface DebugInfoResponse {
   success: boolean;
   debugInfo?: {
     config: StoredConfig;
     state: unknown;
+    tabStates: unknown;
     pendingMetricsCount: number;
+    deadLetterCount: number;
+    destinations: unknown[];
+    archivedMetricsCount: number | null;
+    apiRequests: unknown;
+    taskSnapshotAgeMs: number | null;
+    taskStreams: unknown;
+    compatibilityWarnings: string[];
+    openTaskEfforts: number | null;
     isInitialized: boolean;
   };
   error?: string;
@@ -65,12 +158,46 @@ let enabledCheckbox: HTMLInputElement;
 let machineIdInput: HTMLInputElement;
 let idleTimeoutSlider: HTMLInputElement;
 let idleTimeoutValue: HTMLSpanElement;
-let otelEndpointInput: HTMLInputElement;
-let testConnectionBtn: HTMLButtonElement;
-let connectionStatus: HTMLSpanElement;
+let systemIdleThresholdSlider: HTMLInputElement;
+let systemIdleThresholdValue: HTMLSpanElement;
+let instancesList: HTMLDivElement;
+let addInstanceBtn: HTMLButtonElement;
+let apiConcurrencyInput: HTMLInputElement;
+let apiTimeoutInput: HTMLInputElement;
+let destinationsList: HTMLDivElement;
+let addDestinationBtn: HTMLButtonElement;
+let destinationTemplate: HTMLTemplateElement;
+let otelEncodingSelect: HTMLSelectElement;
+let otelCompressionSelect: HTMLSelectElement;
+let counterTemporalitySelect: HTMLSelectElement;
+let durationBucketsInput: HTMLInputElement;
+let messageLengthBucketsInput: HTMLInputElement;
+let flowTimeBucketsInput: HTMLInputElement;
+let staleTodoInput: HTMLInputElement;
+let staleInProgressInput: HTMLInputElement;
+let staleInReviewInput: HTMLInputElement;
+let outboxMaxAgeInput: HTMLInputElement;
+let outboxMaxSizeInput: HTMLInputElement;
+let archiveEnabledCheckbox: HTMLInputElement;
+let archiveRetentionInput: HTMLInputElement;
+let archiveFromInput: HTMLInputElement;
+let archiveToInput: HTMLInputElement;
+let archiveFormatSelect: HTMLSelectElement;
+let downloadArchiveBtn: HTMLButtonElement;
+let archiveStatus: HTMLSpanElement;
+let timelineRetentionInput: HTMLInputElement;
+let timelineFromInput: HTMLInputElement;
+let timelineToInput: HTMLInputElement;
+let showTimelineBtn: HTMLButtonElement;
+let timelineStatus: HTMLSpanElement;
+let timelineContainer: HTMLDivElement;
 let debugInfoPre: HTMLPreElement;
 let refreshDebugBtn: HTMLButtonElement;
 
+// Retry queue limit units shown in the form
+const HOUR_MS = 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
 // Debounce timer for saving
 let saveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -83,9 +210,39 @@ async function init(): Promise<void> {
   machineIdInput = document.getElementById('machineId') as HTMLInputElement;
   idleTimeoutSlider = document.getElementById('idleTimeout') as HTMLInputElement;
   idleTimeoutValue = document.getElementById('idleTimeoutValue') as HTMLSpanElement;
-  otelEndpointInput = document.getElementById('otelEndpoint') as HTMLInputElement;
-  testConnectionBtn = document.getElementById('testConnection') as HTMLButtonElement;
-  connectionStatus = document.getElementById('connectionStatus') as HTMLSpanElement;
+  systemIdleThresholdSlider = document.getElementById('systemIdleThreshold') as HTMLInputElement;
+  systemIdleThresholdValue = document.getElementById('systemIdleThresholdValue') as HTMLSpanElement;
+  instancesList = document.getElementById('instances') as HTMLDivElement;
+  addInstanceBtn = document.getElementById('addInstance') as HTMLButtonElement;
+  apiConcurrencyInput = document.getElementById('apiConcurrency') as HTMLInputElement;
+  apiTimeoutInput = document.getElementById('apiTimeoutSeconds') as HTMLInputElement;
+  destinationsList = document.getElementById('destinations') as HTMLDivElement;
+  addDestinationBtn = document.getElementById('addDestination') as HTMLButtonElement;
+  destinationTemplate = document.getElementById('destinationTemplate') as HTMLTemplateElement;
+  otelEncodingSelect = document.getElementById('otelEncoding') as HTMLSelectElement;
+  otelCompressionSelect = document.getElementById('otelCompression') as HTMLSelectElement;
+  counterTemporalitySelect = document.getElementById('counterTemporality') as HTMLSelectElement;
+  durationBucketsInput = document.getElementById('durationBuckets') as HTMLInputElement;
+  messageLengthBucketsInput = document.getElementById('messageLengthBuckets') as HTMLInputElement;
+  flowTimeBucketsInput = document.getElementById('flowTimeBuckets') as HTMLInputElement;
+  staleTodoInput = document.getElementById('staleTodoHours') as HTMLInputElement;
+  staleInProgressInput = document.getElementById('staleInProgressHours') as HTMLInputElement;
+  staleInReviewInput = document.getElementById('staleInReviewHours') as HTMLInputElement;
+  outboxMaxAgeInput = document.getElementById('outboxMaxAgeHours') as HTMLInputElement;
+  outboxMaxSizeInput = document.getElementById('outboxMaxSizeMb') as HTMLInputElement;
+  archiveEnabledCheckbox = document.getElementById('archiveEnabled') as HTMLInputElement;
+  archiveRetentionInput = document.getElementById('archiveRetentionDays') as HTMLInputElement;
+  archiveFromInput = document.getElementById('archiveFrom') as HTMLInputElement;
+  archiveToInput = document.getElementById('archiveTo') as HTMLInputElement;
+  archiveFormatSelect = document.getElementById('archiveFormat') as HTMLSelectElement;
+  downloadArchiveBtn = document.getElementById('downloadArchive') as HTMLButtonElement;
+  archiveStatus = document.getElementById('archiveStatus') as HTMLSpanElement;
+  timelineRetentionInput = document.getElementById('timelineRetentionDays') as HTMLInputElement;
+  timelineFromInput = document.getElementById('timelineFrom') as HTMLInputElement;
+  timelineToInput = document.getElementById('timelineTo') as HTMLInputElement;
+  showTimelineBtn = document.getElementById('showTimeline') as HTMLButtonElement;
+  timelineStatus = document.getElementById('timelineStatus') as HTMLSpanElement;
+  timelineContainer = document.getElementById('timeline') as HTMLDivElement;
   debugInfoPre = document.getElementById('debugInfo') as HTMLPreElement;
   refreshDebugBtn = document.getElementById('refreshDebug') as HTMLButtonElement;
 
@@ -120,33 +277,443 @@ function setupEventListeners(): void {
     saveConfig({ idleTimeoutMs });
   });
 
-  // OTel endpoint - debounced save
-  otelEndpointInput.addEventListener('input', () => {
-    debouncedSave({ otelEndpoint: otelEndpointInput.value });
+  // Browser idle threshold slider - save immediately + update label
+  systemIdleThresholdSlider.addEventListener('input', () => {
+    updateSliderLabel(systemIdleThresholdSlider, systemIdleThresholdValue);
+    const systemIdleThresholdMs = parseInt(systemIdleThresholdSlider.value, 10) * 1000;
+    saveConfig({ systemIdleThresholdMs });
+  });
+
+  // Add instance button - new enabled row, saved once a URL is entered
+  addInstanceBtn.addEventListener('click', () => {
+    appendInstanceRow({ id: crypto.randomUUID(), name: '', url: '', enabled: true });
+  });
+
+  // API request limits - debounced save (only when both are whole numbers >= 1)
+  for (const input of [apiConcurrencyInput, apiTimeoutInput]) {
+    input.addEventListener('input', () => {
+      const concurrency = Number(apiConcurrencyInput.value);
+      const timeoutSeconds = Number(apiTimeoutInput.value);
+      const concurrencyValid = Number.isInteger(concurrency) && concurrency >= 1;
+      const timeoutValid = Number.isInteger(timeoutSeconds) && timeoutSeconds >= 1;
+      apiConcurrencyInput.classList.toggle('invalid', !concurrencyValid);
+      apiTimeoutInput.classList.toggle('invalid', !timeoutValid);
+      if (concurrencyValid && timeoutValid) {
+        debouncedSave({ apiRequests: { concurrency, timeoutMs: timeoutSeconds * 1000 } });
+      }
+    });
+  }
+
+  // Add destination button - new enabled card, saved immediately
+  addDestinationBtn.addEventListener('click', () => {
+    appendDestinationCard({
+      id: crypto.randomUUID(),
+      name: '',
+      protocol: 'otlp',
+      endpoint: '',
+      headers: {},
+      auth: { type: 'none' },
+      enabled: true,
+    });
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  // OTel encoding - save immediately
+  otelEncodingSelect.addEventListener('change', () => {
+    saveConfig({ otelEncoding: otelEncodingSelect.value as StoredConfig['otelEncoding'] });
+  });
+
+  // OTel compression - save immediately
+  otelCompressionSelect.addEventListener('change', () => {
+    saveConfig({ otelCompression: otelCompressionSelect.value as StoredConfig['otelCompression'] });
+  });
+
+  // Counter temporality - save immediately
+  counterTemporalitySelect.addEventListener('change', () => {
+    saveConfig({ counterTemporality: counterTemporalitySelect.value as StoredConfig['counterTemporality'] });
+  });
+
+  // Histogram buckets - debounced save (only when all lists parse)
+  for (const input of [durationBucketsInput, messageLengthBucketsInput, flowTimeBucketsInput]) {
+    input.addEventListener('input', () => {
+      const durationMs = parseBuckets(durationBucketsInput.value);
+      const messageLength = parseBuckets(messageLengthBucketsInput.value);
+      const flowHours = parseBuckets(flowTimeBucketsInput.value);
+      durationBucketsInput.classList.toggle('invalid', durationMs === null);
+      messageLengthBucketsInput.classList.toggle('invalid', messageLength === null);
+      flowTimeBucketsInput.classList.toggle('invalid', flowHours === null);
+      if (durationMs && messageLength && flowHours) {
+        debouncedSave({ histogramBoundaries: { durationMs, messageLength, flowHours } });
+      }
+    });
+  }
+
+  // Stale task thresholds - debounced save (only when all are whole numbers >= 0)
+  for (const input of [staleTodoInput, staleInProgressInput, staleInReviewInput]) {
+    input.addEventListener('input', () => {
+      const inputs = [staleTodoInput, staleInProgressInput, staleInReviewInput];
+      const hours = inputs.map((thresholdInput) => (thresholdInput.value === '' ? NaN : Number(thresholdInput.value)));
+      const valid = hours.map((value) => Number.isInteger(value) && value >= 0);
+      inputs.forEach((thresholdInput, i) => thresholdInput.classList.toggle('invalid', !valid[i]));
+      if (valid.every(Boolean)) {
+        const [todo, inprogress, inreview] = hours;
+        debouncedSave({ staleThresholds: { todo, inprogress, inreview } });
+      }
+    });
+  }
+
+  // Retry queue limits - debounced save (only when both are whole numbers >= 1)
+  for (const input of [outboxMaxAgeInput, outboxMaxSizeInput]) {
+    input.addEventListener('input', () => {
+      const maxAgeHours = Number(outboxMaxAgeInput.value);
+      const maxSizeMb = Number(outboxMaxSizeInput.value);
+      const ageValid = Number.isInteger(maxAgeHours) && maxAgeHours >= 1;
+      const sizeValid = Number.isInteger(maxSizeMb) && maxSizeMb >= 1;
+      outboxMaxAgeInput.classList.toggle('invalid', !ageValid);
+      outboxMaxSizeInput.classList.toggle('invalid', !sizeValid);
+      if (ageValid && sizeValid) {
+        debouncedSave({
+          outboxPolicy: { maxAgeMs: maxAgeHours * HOUR_MS, maxBytes: maxSizeMb * MB },
+        });
+      }
+    });
+  }
+
+  // Archive toggle - save immediately
+  archiveEnabledCheckbox.addEventListener('change', () => {
+    saveConfig({ archive: collectArchiveSettings() });
+  });
+
+  // Archive retention - debounced save (only whole days >= 1)
+  archiveRetentionInput.addEventListener('input', () => {
+    const retentionDays = Number(archiveRetentionInput.value);
+    const valid = Number.isInteger(retentionDays) && retentionDays >= 1;
+    archiveRetentionInput.classList.toggle('invalid', !valid);
+    if (valid) {
+      debouncedSave({ archive: collectArchiveSettings() });
+    }
   });
 
-  // Test connection button
-  testConnectionBtn.addEventListener('click', testConnection);
+  // Download archive button
+  downloadArchiveBtn.addEventListener('click', downloadArchive);
+
+  // Timeline retention - debounced save (only whole days >= 1)
+  timelineRetentionInput.addEventListener('input', () => {
+    const retentionDays = Number(timelineRetentionInput.value);
+    const valid = Number.isInteger(retentionDays) && retentionDays >= 1;
+    timelineRetentionInput.classList.toggle('invalid', !valid);
+    if (valid) {
+      debouncedSave({ timelineRetentionDays: retentionDays });
+    }
+  });
+
+  // Show timeline button
+  showTimelineBtn.addEventListener('click', loadTimeline);
 
   // Refresh debug button
   refreshDebugBtn.addEventListener('click', loadDebugInfo);
 }
 
+/**
+ * Build the archive settings from the archive fields
+ */
+function collectArchiveSettings(): StoredConfig['archive'] {
+  return {
+    enabled: archiveEnabledCheckbox.checked,
+    retentionDays: Number(archiveRetentionInput.value),
+  };
+}
+
+/**
+ * Parse a comma-separated list of bucket boundaries
+ * Returns null unless it is a non-empty, strictly ascending list of positive numbers
+ */
+function parseBuckets(text: string): number[] | null {
+  const values = text
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+    .map(Number);
+
+  if (values.length === 0) {
+    return null;
+  }
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isFinite(values[i]) || values[i] <= 0 || (i > 0 && values[i] <= values[i - 1])) {
+      return null;
+    }
+  }
+  return values;
+}
+
+/**
+ * Append an editable instance row (enabled, name, URL, remove button)
+ */
+function appendInstanceRow(instance: VibeKanbanInstance): void {
+  const row = document.createElement('div');
+  row.className = 'instance-row';
+  row.dataset.id = instance.id;
+
+  const enabledInput = document.createElement('input');
+  enabledInput.type = 'checkbox';
+  enabledInput.className = 'instance-enabled';
+  enabledInput.title = 'Enabled';
+  enabledInput.checked = instance.enabled;
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.className = 'instance-name';
+  nameInput.placeholder = 'Name, e.g. devbox';
+  nameInput.value = instance.name;
+
+  const urlInput = document.createElement('input');
+  urlInput.type = 'text';
+  urlInput.className = 'instance-url';
+  urlInput.placeholder = 'http://localhost:3069';
+  urlInput.value = instance.url;
+
+  const removeBtn = document.createElement('button');
+  removeBtn.className = 'btn btn-small btn-secondary';
+  removeBtn.textContent = 'Remove';
+  removeBtn.addEventListener('click', () => {
+    row.remove();
+    saveConfig({ instances: collectInstances() });
+  });
+
+  enabledInput.addEventListener('change', () => {
+    saveConfig({ instances: collectInstances() });
+  });
+  for (const input of [nameInput, urlInput]) {
+    input.addEventListener('input', () => {
+      debouncedSave({ instances: collectInstances() });
+    });
+  }
+
+  row.appendChild(enabledInput);
+  row.appendChild(nameInput);
+  row.appendChild(urlInput);
+  row.appendChild(removeBtn);
+  instancesList.appendChild(row);
+}
+
+/**
+ * Build the instance list from the instance rows (rows without a URL are skipped)
+ */
+function collectInstances(): VibeKanbanInstance[] {
+  return Array.from(instancesList.querySelectorAll<HTMLDivElement>('.instance-row'))
+    .map((row) => ({
+      id: row.dataset.id!,
+      name: (row.querySelector('.instance-name') as HTMLInputElement).value.trim(),
+      url: (row.querySelector('.instance-url') as HTMLInputElement).value.trim().replace(/\/+$/, ''),
+      enabled: (row.querySelector('.instance-enabled') as HTMLInputElement).checked,
+    }))
+    .filter((instance) => instance.url);
+}
+
+/**
+ * Append an editable destination card
+ * Text inputs save debounced; toggles and removals save immediately
+ */
+function appendDestinationCard(destination: ExportDestination): void {
+  const fragment = destinationTemplate.content.cloneNode(true) as DocumentFragment;
+  const card = fragment.querySelector('.destination-card') as HTMLDivElement;
+  card.dataset.id = destination.id;
+
+  const enabledInput = card.querySelector('.destination-enabled-input') as HTMLInputElement;
+  const nameInput = card.querySelector('.destination-name') as HTMLInputElement;
+  const endpointInput = card.querySelector('.destination-endpoint') as HTMLInputElement;
+  const protocolSelect = card.querySelector('.destination-protocol') as HTMLSelectElement;
+  const authTypeSelect = card.querySelector('.destination-auth-type') as HTMLSelectElement;
+  const tokenInput = card.querySelector('.destination-auth-token') as HTMLInputElement;
+  const usernameInput = card.querySelector('.destination-auth-username') as HTMLInputElement;
+  const passwordInput = card.querySelector('.destination-auth-password') as HTMLInputElement;
+  const headerList = card.querySelector('.header-list') as HTMLDivElement;
+
+  enabledInput.checked = destination.enabled;
+  nameInput.value = destination.name;
+  endpointInput.value = destination.endpoint;
+  protocolSelect.value = destination.protocol;
+  updateEndpointPlaceholder(card);
+  authTypeSelect.value = destination.auth.type;
+  if (destination.auth.type === 'bearer') {
+    tokenInput.value = destination.auth.token;
+  } else if (destination.auth.type === 'basic') {
+    usernameInput.value = destination.auth.username;
+    passwordInput.value = destination.auth.password;
+  }
+  updateAuthFieldsVisibility(card);
+  for (const [name, value] of Object.entries(destination.headers)) {
+    appendHeaderRow(headerList, name, value);
+  }
+
+  for (const input of [nameInput, endpointInput, tokenInput, usernameInput, passwordInput]) {
+    input.addEventListener('input', () => {
+      debouncedSave({ destinations: collectDestinations() });
+    });
+  }
+
+  enabledInput.addEventListener('change', () => {
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  protocolSelect.addEventListener('change', () => {
+    updateEndpointPlaceholder(card);
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  authTypeSelect.addEventListener('change', () => {
+    updateAuthFieldsVisibility(card);
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  (card.querySelector('.destination-add-header') as HTMLButtonElement).addEventListener('click', () => {
+    appendHeaderRow(headerList, '', '');
+  });
+
+  (card.querySelector('.destination-test') as HTMLButtonElement).addEventListener('click', () => {
+    testConnection(card);
+  });
+
+  (card.querySelector('.destination-remove') as HTMLButtonElement).addEventListener('click', () => {
+    card.remove();
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  destinationsList.appendChild(card);
+}
+
+/**
+ * Build the destination list from the destination cards
+ */
+function collectDestinations(): ExportDestination[] {
+  return Array.from(destinationsList.querySelectorAll<HTMLDivElement>('.destination-card')).map(
+    (card) => ({
+      id: card.dataset.id!,
+      name: (card.querySelector('.destination-name') as HTMLInputElement).value,
+      protocol: (card.querySelector('.destination-protocol') as HTMLSelectElement).value as ExportProtocol,
+      endpoint: (card.querySelector('.destination-endpoint') as HTMLInputElement).value.trim(),
+      headers: collectHeaders(card.querySelector('.header-list') as HTMLDivElement),
+      auth: collectAuth(card),
+      enabled: (card.querySelector('.destination-enabled-input') as HTMLInputElement).checked,
+    })
+  );
+}
+
+/**
+ * Show the example endpoint for the selected protocol of a destination card
+ */
+function updateEndpointPlaceholder(card: HTMLDivElement): void {
+  const protocol = (card.querySelector('.destination-protocol') as HTMLSelectElement).value;
+  (card.querySelector('.destination-endpoint') as HTMLInputElement).placeholder =
+    protocol === 'prometheus' ? 'http://localhost:9090/api/v1/write' : 'http://localhost:4318';
+}
+
+/**
+ * Show the credential fields matching the selected auth type of a destination card
+ */
+function updateAuthFieldsVisibility(card: HTMLDivElement): void {
+  const authType = (card.querySelector('.destination-auth-type') as HTMLSelectElement).value;
+  (card.querySelector('.destination-auth-bearer') as HTMLDivElement).hidden = authType !== 'bearer';
+  (card.querySelector('.destination-auth-basic') as HTMLDivElement).hidden = authType !== 'basic';
+}
+
+/**
+ * Build the auth config from the fields of a destination card
+ */
+function collectAuth(card: HTMLDivElement): OTLPAuth {
+  const field = (selector: string): string =>
+    (card.querySelector(selector) as HTMLInputElement).value;
+
+  switch ((card.querySelector('.destination-auth-type') as HTMLSelectElement).value) {
+    case 'bearer':
+      return { type: 'bearer', token: field('.destination-auth-token') };
+    case 'basic':
+      return {
+        type: 'basic',
+        username: field('.destination-auth-username'),
+        password: field('.destination-auth-password'),
+      };
+    default:
+      return { type: 'none' };
+  }
+}
+
+/**
+ * Append an editable header row (name, value, remove button)
+ */
+function appendHeaderRow(headerList: HTMLDivElement, name: string, value: string): void {
+  const row = document.createElement('div');
+  row.className = 'header-row';
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.className = 'header-name';
+  nameInput.placeholder = 'Header name';
+  nameInput.value = name;
+
+  const valueInput = document.createElement('input');
+  valueInput.type = 'text';
+  valueInput.className = 'header-value';
+  valueInput.placeholder = 'Value';
+  valueInput.value = value;
+
+  const removeBtn = document.createElement('button');
+  removeBtn.className = 'btn btn-small btn-secondary';
+  removeBtn.textContent = 'Remove';
+  removeBtn.addEventListener('click', () => {
+    row.remove();
+    saveConfig({ destinations: collectDestinations() });
+  });
+
+  for (const input of [nameInput, valueInput]) {
+    input.addEventListener('input', () => {
+      debouncedSave({ destinations: collectDestinations() });
+    });
+  }
+
+  row.appendChild(nameInput);
+  row.appendChild(valueInput);
+  row.appendChild(removeBtn);
+  headerList.appendChild(row);
+}
+
+/**
+ * Build the header map from the header rows (rows without a name are skipped)
+ */
+function collectHeaders(headerList: HTMLDivElement): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const row of Array.from(headerList.querySelectorAll('.header-row'))) {
+    const name = (row.querySelector('.header-name') as HTMLInputElement).value.trim();
+    const value = (row.querySelector('.header-value') as HTMLInputElement).value;
+    if (name) {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
 /**
  * Update the idle timeout label to show current value
  */
 function updateIdleTimeoutLabel(): void {
-  const seconds = parseInt(idleTimeoutSlider.value, 10);
+  updateSliderLabel(idleTimeoutSlider, idleTimeoutValue);
+}
+
+/**
+ * Show a slider's value in seconds as e.g. "45s", "5min" or "1min 30s"
+ */
+function updateSliderLabel(slider: HTMLInputElement, label: HTMLSpanElement): void {
+  const seconds = parseInt(slider.value, 10);
   if (seconds >= 60) {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
     if (remainingSeconds === 0) {
-      idleTimeoutValue.textContent = `${minutes}min`;
+      label.textContent = `${minutes}min`;
     } else {
-      idleTimeoutValue.textContent = `${minutes}min ${remainingSeconds}s`;
+      label.textContent = `${minutes}min ${remainingSeconds}s`;
     }
   } else {
-    idleTimeoutValue.textContent = `${seconds}s`;
+    label.textContent = `${seconds}s`;
   }
 }
 
@@ -175,12 +742,52 @@ async function loadConfig(): Promise<void> {
 function populateForm(config: StoredConfig): void {
   enabledCheckbox.checked = config.enabled;
   machineIdInput.value = config.machineId;
-  otelEndpointInput.value = config.otelEndpoint;
+  otelEncodingSelect.value = config.otelEncoding;
+  otelCompressionSelect.value = config.otelCompression;
+  counterTemporalitySelect.value = config.counterTemporality;
+  durationBucketsInput.value = config.histogramBoundaries.durationMs.join(', ');
+  messageLengthBucketsInput.value = config.histogramBoundaries.messageLength.join(', ');
+  flowTimeBucketsInput.value = config.histogramBoundaries.flowHours.join(', ');
+  staleTodoInput.value = String(config.staleThresholds.todo);
+  staleInProgressInput.value = String(config.staleThresholds.inprogress);
+  staleInReviewInput.value = String(config.staleThresholds.inreview);
+  outboxMaxAgeInput.value = String(Math.round(config.outboxPolicy.maxAgeMs / HOUR_MS));
+  outboxMaxSizeInput.value = String(Math.round(config.outboxPolicy.maxBytes / MB));
+  archiveEnabledCheckbox.checked = config.archive.enabled;
+  archiveRetentionInput.value = String(config.archive.retentionDays);
+
+  // Default download range: the last 7 days
+  const today = new Date();
+  const weekAgo = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6);
+  archiveFromInput.value = toDateInputValue(weekAgo);
+  archiveToInput.value = toDateInputValue(today);
+
+  // Default timeline range: the last 7 days
+  timelineRetentionInput.value = String(config.timelineRetentionDays);
+  timelineFromInput.value = toDateInputValue(weekAgo);
+  timelineToInput.value = toDateInputValue(today);
+
+  apiConcurrencyInput.value = String(config.apiRequests.concurrency);
+  apiTimeoutInput.value = String(Math.round(config.apiRequests.timeoutMs / 1000));
+
+  // Instance rows
+  instancesList.innerHTML = '';
+  for (const instance of config.instances) {
+    appendInstanceRow(instance);
+  }
+
+  // Destination cards
+  destinationsList.innerHTML = '';
+  for (const destination of config.destinations) {
+    appendDestinationCard(destination);
+  }
 
   // Convert milliseconds to seconds for slider
   const idleTimeoutSeconds = Math.round(config.idleTimeoutMs / 1000);
   idleTimeoutSlider.value = String(idleTimeoutSeconds);
   updateIdleTimeoutLabel();
+  systemIdleThresholdSlider.value = String(Math.round(config.systemIdleThresholdMs / 1000));
+  updateSliderLabel(systemIdleThresholdSlider, systemIdleThresholdValue);
 }
 
 /**
@@ -217,35 +824,154 @@ function debouncedSave(config: Partial<StoredConfig>): void {
 }
 
 /**
- * Test connection to OTel endpoint
+ * Test connection to a destination's OTel endpoint
+ * Pending edits are saved first so the test uses what is on screen
  */
-async function testConnection(): Promise<void> {
+async function testConnection(card: HTMLDivElement): Promise<void> {
+  const testConnectionBtn = card.querySelector('.destination-test') as HTMLButtonElement;
+  const connectionStatus = card.querySelector('.destination-status') as HTMLSpanElement;
+
   // Update UI to show loading
   testConnectionBtn.disabled = true;
   connectionStatus.textContent = 'Testing...';
-  connectionStatus.className = 'status-indicator loading';
+  connectionStatus.className = 'status-indicator destination-status loading';
 
   try {
+    await saveConfig({ destinations: collectDestinations() });
+
     const response = (await browser.runtime.sendMessage({
       type: 'TEST_CONNECTION',
+      destinationId: card.dataset.id!,
     } as TestConnectionMessage)) as TestConnectionResponse;
 
     if (response.success) {
       connectionStatus.textContent = 'Connected!';
-      connectionStatus.className = 'status-indicator success';
+      connectionStatus.className = 'status-indicator destination-status success';
     } else {
       connectionStatus.textContent = response.error || 'Connection failed';
-      connectionStatus.className = 'status-indicator error';
+      connectionStatus.className = 'status-indicator destination-status error';
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     connectionStatus.textContent = errorMessage;
-    connectionStatus.className = 'status-indicator error';
+    connectionStatus.className = 'status-indicator destination-status error';
   } finally {
     testConnectionBtn.disabled = false;
   }
 }
 
+/**
+ * Download archived metrics for the selected local date range
+ */
+async function downloadArchive(): Promise<void> {
+  if (!archiveFromInput.value || !archiveToInput.value) {
+    archiveStatus.textContent = 'Select a date range';
+    archiveStatus.className = 'status-indicator error';
+    return;
+  }
+
+  // Whole local days: start of the first day to the end of the last day
+  const from = new Date(archiveFromInput.value + 'T00:00:00').getTime();
+  const to = new Date(archiveToInput.value + 'T00:00:00').getTime() + 24 * 60 * 60 * 1000 - 1;
+  const format = archiveFormatSelect.value as ArchiveFormat;
+
+  downloadArchiveBtn.disabled = true;
+  archiveStatus.textContent = 'Exporting...';
+  archiveStatus.className = 'status-indicator loading';
+
+  try {
+    const response = (await browser.runtime.sendMessage({
+      type: 'EXPORT_ARCHIVE',
+      from,
+      to,
+      format,
+    } as ExportArchiveMessage)) as ExportArchiveResponse;
+
+    if (response.success && response.content !== undefined) {
+      const blob = new Blob([response.content], {
+        type: format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download =
+        'vibe-kanban-metrics-' + archiveFromInput.value + '-to-' + archiveToInput.value + '.' + format;
+      link.click();
+      // Revoke after the download has started
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      archiveStatus.textContent = response.count + ' metrics exported';
+      archiveStatus.className = 'status-indicator success';
+    } else {
+      archiveStatus.textContent = response.error || 'Export failed';
+      archiveStatus.className = 'status-indicator error';
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    archiveStatus.textContent = errorMessage;
+    archiveStatus.className = 'status-indicator error';
+  } finally {
+    downloadArchiveBtn.disabled = false;
+  }
+}
+
+/**
+ * Load and render the session timeline for the selected local date range
+ */
+async function loadTimeline(): Promise<void> {
+  if (!timelineFromInput.value || !timelineToInput.value) {
+    timelineStatus.textContent = 'Select a date range';
+    timelineStatus.className = 'status-indicator error';
+    return;
+  }
+
+  // Whole local days: start of the first day to the end of the last day
+  const firstDay = new Date(timelineFromInput.value + 'T00:00:00');
+  const lastDay = new Date(timelineToInput.value + 'T00:00:00');
+  const from = firstDay.getTime();
+  const to = lastDay.getTime() + 24 * 60 * 60 * 1000 - 1;
+
+  showTimelineBtn.disabled = true;
+  timelineStatus.textContent = 'Loading...';
+  timelineStatus.className = 'status-indicator loading';
+
+  try {
+    const response = (await browser.runtime.sendMessage({
+      type: 'GET_TIMELINE',
+      from,
+      to,
+    } as GetTimelineMessage)) as GetTimelineResponse;
+
+    if (response.success && response.entries) {
+      renderTimeline(timelineContainer, response.entries, firstDay, lastDay, Date.now());
+      timelineStatus.textContent = '';
+      timelineStatus.className = 'status-indicator';
+    } else {
+      timelineStatus.textContent = response.error || 'Failed to load timeline';
+      timelineStatus.className = 'status-indicator error';
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    timelineStatus.textContent = errorMessage;
+    timelineStatus.className = 'status-indicator error';
+  } finally {
+    showTimelineBtn.disabled = false;
+  }
+}
+
+/**
+ * Format a date as YYYY-MM-DD (local time) for date inputs
+ */
+function toDateInputValue(date: Date): string {
+  return (
+    date.getFullYear() +
+    '-' +
+    String(date.getMonth() + 1).padStart(2, '0') +
+    '-' +
+    String(date.getDate()).padStart(2, '0')
+  );
+}
+
 /**
  * Load debug info from background script
  */
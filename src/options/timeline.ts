@@ -0,0 +1,240 @@
+/**
+ * Session timeline view for the options page
+ * Replays the background's timeline entries as one row per day: bands for the best state
+ * of any tracked tab at each moment (active, idle, locked, unfocused) labelled with the
+ * task being worked on, and ticks for human interventions and sent messages.
+ */
+
+// Local copies of the background's timeline types (the options page only imports the polyfill)
+export type TimelineState = 'active' | 'idle' | 'unfocused' | 'locked';
+
+export interface TimelineEntry {
+  timestamp: number;
+  tabId: number;
+  kind: 'startup' | 'state' | 'route' | 'intervention' | 'message' | 'closed';
+  state?: TimelineState;
+  route?: { type: string; taskId?: string; instance?: string } | null;
+  taskTitle?: string;
+}
+
+/**
+ * A period in one combined state
+ */
+export interface TimelineBand {
+  state: TimelineState;
+  start: number;
+  end: number;
+  // Task title (or route type) of the tab that determined the state
+  label: string;
+}
+
+/**
+ * A human intervention or sent message
+ */
+export interface TimelineTick {
+  kind: 'intervention' | 'message';
+  timestamp: number;
+  label: string;
+}
+
+export interface DayTimeline {
+  bands: TimelineBand[];
+  ticks: TimelineTick[];
+}
+
+// The combined state is the highest-ranked state of any tab
+const STATE_RANK: Record<TimelineState, number> = { active: 3, idle: 2, locked: 1, unfocused: 0 };
+
+const STATE_NAMES: Record<TimelineState, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  locked: 'Locked',
+  unfocused: 'Unfocused',
+};
+
+const TICK_NAMES: Record<TimelineTick['kind'], string> = {
+  intervention: 'Intervention',
+  message: 'Message sent',
+};
+
+const AXIS_HOURS = [0, 6, 12, 18];
+
+interface TabTimelineState {
+  state: TimelineState;
+  label: string;
+}
+
+/**
+ * Get the label of an entry's route: the task title if known, else the route type
+ */
+function getLabel(entry: TimelineEntry): string {
+  return entry.taskTitle || entry.route?.type || '';
+}
+
+/**
+ * Get the combined state of the tracked tabs, or null if no tab is tracked
+ */
+function combine(tabs: Map<number, TabTimelineState>): TabTimelineState | null {
+  let best: TabTimelineState | null = null;
+  for (const tab of tabs.values()) {
+    if (!best || STATE_RANK[tab.state] > STATE_RANK[best.state]) {
+      best = tab;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build the bands and ticks of one day from timeline entries
+ * Entries before the day only set the state tabs were in when it starts; bands end at
+ * `now` for the current day.
+ */
+export function buildDayTimeline(entries: TimelineEntry[], dayStart: number, dayEnd: number, now: number): DayTimeline {
+  const bands: TimelineBand[] = [];
+  const ticks: TimelineTick[] = [];
+  const tabs = new Map<number, TabTimelineState>();
+  const end = Math.min(dayEnd, now);
+  let since = dayStart;
+
+  // Add the combined state from `since` to `until`, clipped to the day
+  const addBand = (until: number): void => {
+    const current = combine(tabs);
+    const start = Math.max(since, dayStart);
+    const stop = Math.min(until, end);
+    if (!current || stop <= start) {
+      return;
+    }
+    const last = bands[bands.length - 1];
+    if (last && last.end === start && last.state === current.state && last.label === current.label) {
+      last.end = stop;
+    } else {
+      bands.push({ state: current.state, start, end: stop, label: current.label });
+    }
+  };
+
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  for (const entry of sorted) {
+    if (entry.timestamp >= end) {
+      break;
+    }
+    addBand(entry.timestamp);
+    since = Math.max(since, entry.timestamp);
+
+    switch (entry.kind) {
+      case 'startup':
+        tabs.clear();
+        break;
+      case 'closed':
+        tabs.delete(entry.tabId);
+        break;
+      case 'state':
+        if (entry.state) {
+          tabs.set(entry.tabId, { state: entry.state, label: getLabel(entry) });
+        }
+        break;
+      case 'route':
+      case 'intervention':
+      case 'message': {
+        if (entry.kind !== 'route' && entry.timestamp >= dayStart) {
+          ticks.push({ kind: entry.kind, timestamp: entry.timestamp, label: getLabel(entry) });
+        }
+        // Events carry the tab's current route
+        const tab = tabs.get(entry.tabId);
+        if (tab) {
+          tabs.set(entry.tabId, { state: tab.state, label: getLabel(entry) });
+        }
+        break;
+      }
+    }
+  }
+  addBand(end);
+
+  return { bands, ticks };
+}
+
+/**
+ * Render one row per local day from `firstDay` to `lastDay` into a container
+ */
+export function renderTimeline(
+  container: HTMLElement,
+  entries: TimelineEntry[],
+  firstDay: Date,
+  lastDay: Date,
+  now: number
+): void {
+  container.innerHTML = '';
+
+  const day = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate());
+  while (day.getTime() <= lastDay.getTime()) {
+    const dayStart = day.getTime();
+    day.setDate(day.getDate() + 1);
+    // Next local midnight (days around DST changes are 23 or 25 hours)
+    const dayEnd = day.getTime();
+
+    container.appendChild(createDayRow(buildDayTimeline(entries, dayStart, dayEnd, now), dayStart, dayEnd));
+  }
+}
+
+/**
+ * Create the row of one day: date, track with bands and ticks, hour axis
+ */
+function createDayRow(timeline: DayTimeline, dayStart: number, dayEnd: number): HTMLElement {
+  const dayLength = dayEnd - dayStart;
+  const toPercent = (ms: number): string => ((ms / dayLength) * 100).toFixed(3) + '%';
+
+  const row = document.createElement('div');
+  row.className = 'timeline-day';
+
+  const date = document.createElement('div');
+  date.className = 'timeline-date';
+  date.textContent = new Date(dayStart).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  row.appendChild(date);
+
+  const track = document.createElement('div');
+  track.className = 'timeline-track';
+  for (const band of timeline.bands) {
+    const element = document.createElement('div');
+    element.className = 'timeline-band timeline-band-' + band.state;
+    element.style.left = toPercent(band.start - dayStart);
+    element.style.width = toPercent(band.end - band.start);
+    element.title =
+      STATE_NAMES[band.state] +
+      (band.label ? ' · ' + band.label : '') +
+      ' · ' +
+      formatTime(band.start) +
+      '–' +
+      formatTime(band.end);
+    if (band.state === 'active' && band.label) {
+      element.textContent = band.label;
+    }
+    track.appendChild(element);
+  }
+  for (const tick of timeline.ticks) {
+    const element = document.createElement('div');
+    element.className = 'timeline-tick timeline-tick-' + tick.kind;
+    element.style.left = toPercent(tick.timestamp - dayStart);
+    element.title = TICK_NAMES[tick.kind] + (tick.label ? ' · ' + tick.label : '') + ' · ' + formatTime(tick.timestamp);
+    track.appendChild(element);
+  }
+  row.appendChild(track);
+
+  const axis = document.createElement('div');
+  axis.className = 'timeline-axis';
+  for (const hour of AXIS_HOURS) {
+    const label = document.createElement('span');
+    label.style.left = toPercent((hour / 24) * dayLength);
+    label.textContent = String(hour).padStart(2, '0') + ':00';
+    axis.appendChild(label);
+  }
+  row.appendChild(axis);
+
+  return row;
+}
+
+/**
+ * Format a time of day as HH:MM (local time)
+ */
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return String(date.getHours()).padStart(2, '0') + ':' + String(date.getMinutes()).padStart(2, '0');
+}
@@ -1,11 +1,55 @@
 // Idle timeout in milliseconds (1 minute)
 export const IDLE_TIMEOUT_MS = 60000;
 
+// Browser idle API threshold in milliseconds (5 minutes; the API accepts 15 seconds at least)
+export const SYSTEM_IDLE_THRESHOLD_MS = 300000;
+export const MIN_SYSTEM_IDLE_THRESHOLD_MS = 15000;
+
 // Export interval in milliseconds (30 seconds)
 export const EXPORT_INTERVAL_MS = 30000;
 
+// Interval of the activity heartbeat (open activity segments saved for crash recovery)
+export const ACTIVITY_HEARTBEAT_INTERVAL_MS = 10000;
+
 // OpenTelemetry collector endpoint
 export const OTEL_ENDPOINT = 'http://localhost:4318';
 
-// Vibe Kanban API base URL
+// Default vibe-kanban instance URL (first run and upgrades; more instances are configured in settings)
 export const VIBE_KANBAN_API_URL = 'http://localhost:3069';
+
+// Default vibe-kanban API request limits (shared by all instances)
+export const DEFAULT_API_CONCURRENCY = 4;
+export const DEFAULT_API_TIMEOUT_MS = 10000;
+
+// Task snapshot refresh interval (shared by the sidebar and API metrics), and the age
+// after which the sidebar marks the snapshot as stale (a few missed refreshes)
+export const TASK_SNAPSHOT_INTERVAL_MS = 10000;
+export const TASK_SNAPSHOT_STALE_MS = 30000;
+
+// Default histogram bucket boundaries for durations (1s .. 2h, in ms)
+export const DEFAULT_DURATION_BUCKETS_MS = [1000, 5000, 15000, 30000, 60000, 300000, 900000, 1800000, 3600000, 7200000];
+
+// Default histogram bucket boundaries for message lengths (characters)
+export const DEFAULT_MESSAGE_LENGTH_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000];
+
+// Default histogram bucket boundaries for task flow times (1h .. 30d, in hours)
+export const DEFAULT_FLOW_TIME_BUCKETS_HOURS = [1, 4, 8, 24, 48, 72, 168, 336, 720];
+
+// Default hours in a status after which a task counts as stale (0 disables the check)
+export const DEFAULT_STALE_THRESHOLDS_HOURS = { todo: 336, inprogress: 24, inreview: 48 };
+
+// Histogram bucket boundaries for attempts per completed task
+export const ATTEMPT_COUNT_BUCKETS = [1, 2, 3, 5, 8, 13];
+
+// Default days of history kept in the local metric archive
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 90;
+
+// Default days of session timeline kept for the options page timeline view
+export const DEFAULT_TIMELINE_RETENTION_DAYS = 14;
+
+// Days without activity after which an unfinished task's effort is dropped (e.g. deleted tasks)
+export const TASK_EFFORT_RETENTION_DAYS = 90;
+
+// Default limits on undelivered metrics per export destination (7 days, 5 MB)
+export const DEFAULT_OUTBOX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_OUTBOX_MAX_BYTES = 5 * 1024 * 1024;
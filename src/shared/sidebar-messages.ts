@@ -13,6 +13,10 @@ export interface ActiveTaskItem {
   projectName: string;
   status: ActiveTaskStatus;
   latestAttemptId?: string;  // Optional: ID of the latest attempt, if any
+  instanceUrl: string;  // Origin of the vibe-kanban instance serving the task
+  instanceName?: string;  // Optional: set when several instances are enabled
+  statusAgeMs?: number;  // Time since the task entered its current status
+  stale?: boolean;  // In its status longer than the configured staleness threshold
 }
 
 // Request message to get active tasks
@@ -20,9 +24,24 @@ export interface GetActiveTasksMessage {
   type: 'GET_ACTIVE_TASKS';
 }
 
+// Why the vibe-kanban API could not be read (mirrors ApiErrorKind in the background)
+export type ActiveTasksErrorKind = 'http_error' | 'network_error' | 'api_error' | 'parse_error';
+
 // Response from background with active tasks
 export interface ActiveTasksResponse {
   success: boolean;
   tasks?: ActiveTaskItem[];
   error?: string;
+  errorKind?: ActiveTasksErrorKind;
+  warnings?: string[];  // Instances whose latest refresh failed (their previous tasks are still listed)
+  snapshotAgeMs?: number;  // Age of the oldest data listed (tasks come from a periodically refreshed snapshot)
+}
+
+// Name of the port sidebars open to receive task updates as they happen
+export const ACTIVE_TASKS_PORT_NAME = 'vibe-active-tasks';
+
+// Pushed by the background over the active tasks port when the task snapshot changes
+export interface ActiveTasksUpdatedMessage {
+  type: 'ACTIVE_TASKS_UPDATED';
+  response: ActiveTasksResponse;
 }
@@ -0,0 +1,161 @@
+/**
+ * Test decoders for Prometheus remote-write requests
+ * Independent snappy/protobuf readers so tests check the wire format, not the encoder's own view of it
+ */
+
+export interface DecodedTimeSeries {
+  labels: Record<string, string>;
+  samples: Array<{ value: number; timestamp: number }>;
+}
+
+export interface DecodedWriteRequest {
+  timeseries: DecodedTimeSeries[];
+  metadata: Array<{ type: number; metricFamilyName: string }>;
+}
+
+/**
+ * Read an unsigned varint starting at offset
+ */
+function readVarint(bytes: Uint8Array, offset: number): { value: number; next: number } {
+  let value = 0;
+  let shift = 0;
+  let next = offset;
+  let byte: number;
+  do {
+    byte = bytes[next++];
+    value += (byte & 0x7f) * Math.pow(2, shift);
+    shift += 7;
+  } while (byte & 0x80);
+  return { value, next };
+}
+
+/**
+ * Decompress a snappy block (literals and 1/2/4-byte offset copies)
+ */
+export function snappyDecompress(input: Uint8Array): Uint8Array {
+  const { value: length, next } = readVarint(input, 0);
+  const output = new Uint8Array(length);
+  let inPos = next;
+  let outPos = 0;
+
+  while (inPos < input.length) {
+    const tag = input[inPos++];
+    const type = tag & 0x3;
+
+    if (type === 0) {
+      let literalLength = tag >>> 2;
+      if (literalLength >= 60) {
+        const extraBytes = literalLength - 59;
+        literalLength = 0;
+        for (let i = 0; i < extraBytes; i++) {
+          literalLength |= input[inPos++] << (8 * i);
+        }
+      }
+      literalLength += 1;
+      output.set(input.subarray(inPos, inPos + literalLength), outPos);
+      inPos += literalLength;
+      outPos += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    if (type === 1) {
+      copyLength = ((tag >>> 2) & 0x7) + 4;
+      offset = ((tag >>> 5) << 8) | input[inPos++];
+    } else if (type === 2) {
+      copyLength = (tag >>> 2) + 1;
+      offset = input[inPos] | (input[inPos + 1] << 8);
+      inPos += 2;
+    } else {
+      copyLength = (tag >>> 2) + 1;
+      offset =
+        input[inPos] | (input[inPos + 1] << 8) | (input[inPos + 2] << 16) | (input[inPos + 3] << 24);
+      inPos += 4;
+    }
+
+    if (offset === 0 || offset > outPos) {
+      throw new Error('Invalid snappy copy offset ' + offset + ' at output position ' + outPos);
+    }
+    // Byte by byte: copies may overlap their own output
+    for (let i = 0; i < copyLength; i++) {
+      output[outPos] = output[outPos - offset];
+      outPos++;
+    }
+  }
+
+  if (outPos !== length) {
+    throw new Error('Snappy length mismatch: expected ' + length + ', got ' + outPos);
+  }
+  return output;
+}
+
+/**
+ * Read the fields of a protobuf message as field number -> raw values
+ * Varints are returned as numbers, fixed64 and length-delimited fields as bytes
+ */
+function readFields(bytes: Uint8Array): Array<{ field: number; value: number | Uint8Array }> {
+  const fields: Array<{ field: number; value: number | Uint8Array }> = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const tag = readVarint(bytes, offset);
+    offset = tag.next;
+    const field = Math.floor(tag.value / 8);
+    const wireType = tag.value & 0x7;
+
+    if (wireType === 0) {
+      const varint = readVarint(bytes, offset);
+      fields.push({ field, value: varint.value });
+      offset = varint.next;
+    } else if (wireType === 1) {
+      fields.push({ field, value: bytes.slice(offset, offset + 8) });
+      offset += 8;
+    } else if (wireType === 2) {
+      const length = readVarint(bytes, offset);
+      fields.push({ field, value: bytes.slice(length.next, length.next + length.value) });
+      offset = length.next + length.value;
+    } else {
+      throw new Error('Unexpected wire type ' + wireType);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Decode a prometheus.WriteRequest (snappy-decompressed)
+ */
+export function decodeWriteRequest(bytes: Uint8Array): DecodedWriteRequest {
+  const decoder = new TextDecoder();
+  const request: DecodedWriteRequest = { timeseries: [], metadata: [] };
+
+  for (const { field, value } of readFields(bytes)) {
+    if (field === 1) {
+      const series: DecodedTimeSeries = { labels: {}, samples: [] };
+      for (const entry of readFields(value as Uint8Array)) {
+        const inner = readFields(entry.value as Uint8Array);
+        if (entry.field === 1) {
+          const name = inner.find((f) => f.field === 1)!.value as Uint8Array;
+          const labelValue = inner.find((f) => f.field === 2)!.value as Uint8Array;
+          series.labels[decoder.decode(name)] = decoder.decode(labelValue);
+        } else if (entry.field === 2) {
+          const valueBytes = inner.find((f) => f.field === 1)!.value as Uint8Array;
+          series.samples.push({
+            value: new DataView(valueBytes.buffer).getFloat64(0, true),
+            timestamp: inner.find((f) => f.field === 2)!.value as number,
+          });
+        }
+      }
+      request.timeseries.push(series);
+    } else if (field === 3) {
+      const inner = readFields(value as Uint8Array);
+      request.metadata.push({
+        type: inner.find((f) => f.field === 1)!.value as number,
+        metricFamilyName: decoder.decode(inner.find((f) => f.field === 2)!.value as Uint8Array),
+      });
+    }
+  }
+
+  return request;
+}
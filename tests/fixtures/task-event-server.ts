@@ -0,0 +1,123 @@
+/**
+ * Local stand-in for the vibe-kanban API and its task event stream
+ * Serves the JSON list endpoints from in-memory data and lets tests push
+ * json_patch events to open /api/tasks/stream connections
+ */
+
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Project, Task } from '../../src/background/api-client';
+
+export class TaskEventServerMock {
+  projects: Project[] = [];
+  // Tasks by project ID
+  tasks: Record<string, Task[]> = {};
+  // When false, /api/tasks/stream answers 404 like a server without streams
+  streamAvailable = true;
+  // Paths of all requests received, in order
+  requests: string[] = [];
+
+  private server: Server | null = null;
+  private streams: Map<string, Set<ServerResponse>> = new Map();
+
+  /**
+   * Start listening on a free port
+   */
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      this.requests.push(url.pathname + url.search);
+      const projectId = url.searchParams.get('project_id') ?? '';
+
+      switch (url.pathname) {
+        case '/api/tasks/stream':
+          if (!this.streamAvailable) {
+            res.writeHead(404).end();
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+          res.write(': connected\n\n');
+          if (!this.streams.has(projectId)) {
+            this.streams.set(projectId, new Set());
+          }
+          this.streams.get(projectId)!.add(res);
+          req.on('close', () => this.streams.get(projectId)?.delete(res));
+          return;
+        case '/api/projects':
+          this.respond(res, this.projects);
+          return;
+        case '/api/tasks':
+          this.respond(res, this.tasks[projectId] ?? []);
+          return;
+        case '/api/task-attempts':
+          this.respond(res, [
+            {
+              id: 'attempt-' + url.searchParams.get('task_id'),
+              task_id: url.searchParams.get('task_id'),
+              branch: 'main',
+              created_at: '2025-01-01T00:00:00Z',
+              updated_at: '2025-01-01T00:00:00Z',
+            },
+          ]);
+          return;
+        default:
+          res.writeHead(404).end();
+      }
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+  }
+
+  /**
+   * Close open streams and stop listening
+   */
+  async stop(): Promise<void> {
+    this.closeStreams();
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Base URL of the server
+   */
+  get url(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return 'http://127.0.0.1:' + port;
+  }
+
+  /**
+   * Number of open stream connections for a project
+   */
+  streamCount(projectId: string): number {
+    return this.streams.get(projectId)?.size ?? 0;
+  }
+
+  /**
+   * Send a json_patch event to the open streams of a project
+   */
+  sendPatch(projectId: string, operations: unknown[]): void {
+    for (const res of this.streams.get(projectId) ?? []) {
+      res.write('event: json_patch\ndata: ' + JSON.stringify(operations) + '\n\n');
+    }
+  }
+
+  /**
+   * End all open streams (clients should reconnect)
+   */
+  closeStreams(): void {
+    for (const responses of this.streams.values()) {
+      for (const res of responses) {
+        res.end();
+      }
+    }
+    this.streams.clear();
+  }
+
+  /**
+   * Send a JSON API envelope
+   */
+  private respond(res: ServerResponse, data: unknown[]): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, data, error_data: null, message: null }));
+  }
+}
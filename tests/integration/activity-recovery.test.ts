@@ -0,0 +1,55 @@
+/**
+ * Integration tests for activity time crash recovery
+ * Tests the interaction between ActivityAccountant and the StorageManager activity heartbeat
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import browser from 'webextension-polyfill';
+import { ActivityAccountant } from '../../src/background/activity-accountant';
+import { StorageManager } from '../../src/background/storage-manager';
+import { testRoutes } from '../fixtures/routes';
+
+describe('Activity Recovery Integration', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    // Browser storage that keeps what is saved, as structured clones
+    stored = {};
+    vi.mocked(browser.storage.local.set).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, structuredClone(items));
+    });
+    vi.mocked(browser.storage.local.get).mockImplementation(async (key) => {
+      const name = key as string;
+      return name in stored ? { [name]: structuredClone(stored[name]) } : {};
+    });
+  });
+
+  it('should recover the time after the last checkpoint up to the last heartbeat', async () => {
+    // Previous run: a checkpoint, two heartbeats, then a crash before the next checkpoint
+    const previous = new ActivityAccountant();
+    const previousStorage = new StorageManager();
+    previous.setOnSegment(() => {});
+    previous.update(1, 'active', testRoutes.taskDetail);
+    vi.advanceTimersByTime(30000);
+    previous.checkpoint();
+    await previousStorage.saveActivityHeartbeat(previous.getSegments());
+    vi.advanceTimersByTime(10000);
+    await previousStorage.saveActivityHeartbeat(previous.getSegments());
+    vi.advanceTimersByTime(10000);
+    await previousStorage.saveActivityHeartbeat(previous.getSegments());
+    vi.advanceTimersByTime(5000);
+
+    // Next startup
+    const reported: Array<[string, number]> = [];
+    const accountant = new ActivityAccountant();
+    accountant.setOnSegment((state, durationMs) => reported.push([state, durationMs]));
+    const heartbeat = await new StorageManager().loadActivityHeartbeat();
+    accountant.recover(heartbeat!.segments, heartbeat!.savedAt);
+
+    expect(reported).toEqual([['active', 20000]]);
+  });
+
+  it('should recover nothing before the first heartbeat', async () => {
+    expect(await new StorageManager().loadActivityHeartbeat()).toBeNull();
+  });
+});
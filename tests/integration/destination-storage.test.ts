@@ -0,0 +1,137 @@
+/**
+ * Integration tests for persisting destination delivery states
+ * Tests the interaction between DestinationExporter and the StorageManager per-destination keys
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import browser from 'webextension-polyfill';
+import { StorageManager } from '../../src/background/storage-manager';
+import {
+  DestinationExporter,
+  createDestinationState,
+  type DestinationExporterOptions,
+  type ExportDestination,
+} from '../../src/background/destination-exporter';
+import type { MetricRecord } from '../../src/background/metrics-collector';
+
+describe('Destination Storage Integration', () => {
+  const options: DestinationExporterOptions = {
+    serviceName: 'vibe-kanban-tracker',
+    serviceVersion: '1.0.0',
+    machineId: 'test-machine',
+    encoding: 'json',
+    compression: 'none',
+    temporality: 'cumulative',
+    histogramBoundaries: {},
+    outboxPolicy: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxBytes: 5 * 1024 * 1024 },
+  };
+  const local: ExportDestination = {
+    id: 'local',
+    name: 'Local',
+    protocol: 'otlp',
+    endpoint: 'http://localhost:4318',
+    headers: {},
+    auth: { type: 'none' },
+    enabled: true,
+  };
+  const team: ExportDestination = { ...local, id: 'team', name: 'Team', endpoint: 'https://otel.example.com' };
+  const metric: MetricRecord = {
+    name: 'vibe_kanban.human_intervention.count',
+    type: 'counter',
+    value: 1,
+    timestamp: Date.now(),
+    attributes: { machine_id: 'test-machine' },
+  };
+
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    // Browser storage that keeps what is saved, as structured clones
+    stored = {};
+    vi.mocked(browser.storage.local.set).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, structuredClone(items));
+    });
+    vi.mocked(browser.storage.local.get).mockImplementation(async (keys) => {
+      const result: Record<string, unknown> = {};
+      for (const key of Array.isArray(keys) ? keys : [keys as string]) {
+        if (key in stored) {
+          result[key] = structuredClone(stored[key]);
+        }
+      }
+      return result;
+    });
+    vi.mocked(browser.storage.local.remove).mockImplementation(async (keys) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete stored[key];
+      }
+    });
+  });
+
+  /**
+   * Load a storage manager configured with the given destinations
+   */
+  async function loadWith(destinations: ExportDestination[]): Promise<StorageManager> {
+    const storageManager = new StorageManager();
+    await storageManager.load();
+    await storageManager.saveConfig({ destinations });
+    return storageManager;
+  }
+
+  it('should store each destination under its own key and keep it out of the state', async () => {
+    const storageManager = await loadWith([local, team]);
+    const exporter = new DestinationExporter([local, team], options);
+
+    exporter.queueMetrics([metric]);
+    await storageManager.saveDestinationStates(exporter.getStates());
+
+    expect(stored.vibe_kanban_tracker).not.toHaveProperty('destinationStates');
+    expect(stored).toHaveProperty('vibe_kanban_tracker_destination_local');
+    const reloaded = new StorageManager();
+    await reloaded.load();
+    expect(reloaded.getPendingMetricsCount()).toBe(2);
+    expect(reloaded.getDestinationStates().team.outbox).toHaveLength(1);
+  });
+
+  it('should only write destinations whose state changed and delete removed ones', async () => {
+    const storageManager = await loadWith([local, team]);
+    const exporter = new DestinationExporter([local, team], options);
+    await storageManager.saveDestinationStates(exporter.getStates());
+    vi.mocked(browser.storage.local.set).mockClear();
+
+    exporter.setDestinations([local, { ...team, enabled: false }]);
+    exporter.queueMetrics([metric]);
+    await storageManager.saveDestinationStates(exporter.getStates());
+
+    expect(vi.mocked(browser.storage.local.set).mock.calls.map(([items]) => Object.keys(items))).toEqual([
+      ['vibe_kanban_tracker_destination_local'],
+    ]);
+
+    exporter.setDestinations([local]);
+    await storageManager.saveDestinationStates(exporter.getStates());
+
+    expect(stored).not.toHaveProperty('vibe_kanban_tracker_destination_team');
+    expect(stored).toHaveProperty('vibe_kanban_tracker_destination_local');
+  });
+
+  it('should move destination states out of a V20 state', async () => {
+    await loadWith([local]);
+    const state = stored.vibe_kanban_tracker as Record<string, unknown>;
+    stored.vibe_kanban_tracker = {
+      ...state,
+      version: 20,
+      destinationStates: {
+        local: {
+          ...createDestinationState(),
+          outbox: [{ id: 'b1', createdAt: Date.now(), bytes: 100, metrics: [metric] }],
+        },
+      },
+    };
+
+    const migrated = new StorageManager();
+    await migrated.load();
+
+    expect(migrated.getPendingMetricsCount()).toBe(1);
+    expect(stored.vibe_kanban_tracker).not.toHaveProperty('destinationStates');
+    expect(stored.vibe_kanban_tracker_destination_local).toMatchObject({ outbox: [{ id: 'b1' }] });
+  });
+});
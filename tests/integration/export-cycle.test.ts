@@ -26,7 +26,7 @@ describe('Export Cycle Integration', () => {
   describe('Metrics Collection and Export', () => {
     it('should collect event metrics and prepare for export', () => {
       // Record various metrics
-      metricsCollector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      metricsCollector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
       metricsCollector.recordHumanIntervention(testRoutes.taskDetail, machineId);
       metricsCollector.recordScroll(500, machineId);
       metricsCollector.recordCharactersTyped(100, testRoutes.taskDetail, machineId);
@@ -62,7 +62,7 @@ describe('Export Cycle Integration', () => {
   describe('Export Failure Handling', () => {
     it('should restore metrics after failed export', () => {
       metricsCollector.recordHumanIntervention(testRoutes.taskDetail, machineId);
-      metricsCollector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      metricsCollector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = metricsCollector.flush();
       expect(metricsCollector.getMetrics()).toHaveLength(0);
@@ -76,7 +76,7 @@ describe('Export Cycle Integration', () => {
     it('should preserve metric order after restore', () => {
       metricsCollector.recordHumanIntervention(testRoutes.taskDetail, machineId);
       vi.advanceTimersByTime(1000);
-      metricsCollector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      metricsCollector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = metricsCollector.flush();
       metricsCollector.restore(metrics);
@@ -162,7 +162,7 @@ describe('Export Cycle Integration', () => {
     it('should allow combining event metrics with API metrics', () => {
       // Record event metrics
       metricsCollector.recordHumanIntervention(testRoutes.taskDetail, machineId);
-      metricsCollector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      metricsCollector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const eventMetrics = metricsCollector.flush();
 
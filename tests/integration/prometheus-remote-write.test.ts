@@ -0,0 +1,141 @@
+/**
+ * Integration tests for Prometheus remote-write export
+ * Runs the destination export cycle against a local HTTP stand-in for a Prometheus receiver
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MetricsCollector } from '../../src/background/metrics-collector';
+import {
+  DestinationExporter,
+  countOutboxMetrics,
+  getRetryBackoffMs,
+  type ExportDestination,
+} from '../../src/background/destination-exporter';
+import { testRoutes } from '../fixtures/routes';
+import { snappyDecompress, decodeWriteRequest } from '../fixtures/remote-write';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Uint8Array;
+}
+
+describe('Prometheus Remote-Write Integration', () => {
+  const machineId = 'test-machine';
+  let server: http.Server;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let destination: ExportDestination;
+
+  beforeEach(async () => {
+    // Only fake the clock: the stand-in server needs real timers on the Node event loop
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    received = [];
+    responseStatus = 204;
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({
+          url: req.url ?? '',
+          headers: req.headers,
+          body: new Uint8Array(Buffer.concat(chunks)),
+        });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    destination = {
+      id: 'prom',
+      name: 'Local Prometheus',
+      protocol: 'prometheus',
+      endpoint: 'http://127.0.0.1:' + port + '/api/v1/write',
+      headers: { 'X-Scope-OrgID': 'team-a' },
+      auth: { type: 'none' },
+      enabled: true,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function createExporter(): DestinationExporter {
+    return new DestinationExporter([destination], {
+      serviceName: 'vibe-kanban-tracker',
+      serviceVersion: '1.0.0',
+      machineId,
+      encoding: 'json',
+      compression: 'none',
+      temporality: 'cumulative',
+      histogramBoundaries: {},
+      outboxPolicy: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxBytes: 5 * 1024 * 1024 },
+    });
+  }
+
+  function seriesValue(request: ReceivedRequest, name: string): number | undefined {
+    const decoded = decodeWriteRequest(snappyDecompress(request.body));
+    return decoded.timeseries.find((series) => series.labels.__name__ === name)?.samples[0].value;
+  }
+
+  it('should deliver a snappy-compressed WriteRequest', async () => {
+    const collector = new MetricsCollector();
+    collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+    collector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
+    const exporter = createExporter();
+
+    exporter.queueMetrics(collector.flush());
+    const results = await exporter.exportMetrics();
+
+    expect(results).toEqual([{ id: 'prom', success: true }]);
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.url).toBe('/api/v1/write');
+    expect(request.headers['content-type']).toBe('application/x-protobuf');
+    expect(request.headers['content-encoding']).toBe('snappy');
+    expect(request.headers['x-prometheus-remote-write-version']).toBe('0.1.0');
+    expect(request.headers['x-scope-orgid']).toBe('team-a');
+
+    const decoded = decodeWriteRequest(snappyDecompress(request.body));
+    const names = decoded.timeseries.map((series) => series.labels.__name__);
+    expect(names).toContain('vibe_kanban_human_intervention_total');
+    expect(names).toContain('vibe_kanban_active_time_duration_ms_count');
+    const counter = decoded.timeseries.find(
+      (series) => series.labels.__name__ === 'vibe_kanban_human_intervention_total'
+    )!;
+    expect(counter.labels.instance).toBe(machineId);
+    expect(counter.labels.task_id).toBe(testRoutes.taskDetail.taskId);
+  });
+
+  it('should keep queued metrics after a failed write and resend running totals', async () => {
+    const collector = new MetricsCollector();
+    const exporter = createExporter();
+
+    // Exports make a single attempt, so the failure returns without in-cycle retries
+    responseStatus = 503;
+    collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+    exporter.queueMetrics(collector.flush());
+    expect(await exporter.exportMetrics()).toEqual([{ id: 'prom', success: false }]);
+    expect(countOutboxMetrics(exporter.getStates().prom.outbox)).toBe(1);
+
+    // Retry once the backoff has passed
+    responseStatus = 204;
+    vi.setSystemTime(Date.now() + getRetryBackoffMs(1));
+    collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+    exporter.queueMetrics(collector.flush());
+    expect(await exporter.exportMetrics()).toEqual([{ id: 'prom', success: true }]);
+
+    expect(received).toHaveLength(2);
+    expect(seriesValue(received[1], 'vibe_kanban_human_intervention_total')).toBe(2);
+    expect(exporter.getStates().prom.outbox).toHaveLength(0);
+  });
+});
@@ -29,7 +29,7 @@ describe('State Callback Integration', () => {
         if (prev === 'active' && activeStateStartTime !== null) {
           const durationMs = Date.now() - activeStateStartTime;
           if (context.currentRoute) {
-            metricsCollector.recordActiveTime(durationMs, context.currentRoute, machineId);
+            metricsCollector.recordStateTime('active', durationMs, context.currentRoute, machineId);
           }
           activeStateStartTime = null;
         }
@@ -0,0 +1,195 @@
+// @vitest-environment node
+/**
+ * Integration tests for task event streams
+ * Runs the API client and task snapshot store against a local SSE stand-in server
+ * (node environment: real sockets and Node's fetch and AbortController)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { VibeKanbanApiClient, type TaskStreamChange } from '../../src/background/api-client';
+import { EventStream, type EventStreamState } from '../../src/background/event-stream';
+import { InstanceRegistry } from '../../src/background/instance-registry';
+import { ProjectNameCache } from '../../src/background/project-name-cache';
+import { TaskSnapshotStore } from '../../src/background/task-snapshot-store';
+import type { Task } from '../../src/background/api-client';
+import { TaskEventServerMock } from '../fixtures/task-event-server';
+
+/**
+ * Poll until a condition holds (real timers)
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function task(id: string, status: Task['status'], updatedAt = '2025-01-10T00:00:00Z'): Task {
+  return {
+    id,
+    title: 'Task ' + id,
+    status,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: updatedAt,
+    has_in_progress_attempt: status === 'inprogress',
+    last_attempt_failed: false,
+  };
+}
+
+describe('Task event stream', () => {
+  let server: TaskEventServerMock;
+  const cleanups: Array<() => void> = [];
+
+  beforeEach(async () => {
+    vi.useRealTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = new TaskEventServerMock();
+    server.projects = [{ id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' }];
+    server.tasks = { p1: [task('t1', 'inprogress'), task('t2', 'todo')] };
+    await server.start();
+  });
+
+  afterEach(async () => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe('VibeKanbanApiClient.openTaskStream', () => {
+    it('should translate json_patch events into task changes', async () => {
+      const changes: TaskStreamChange[] = [];
+      const stream = new VibeKanbanApiClient(server.url).openTaskStream('p1', {
+        onChanges: (received) => changes.push(...received),
+      });
+      cleanups.push(() => stream.stop());
+      stream.start();
+      await waitFor(() => server.streamCount('p1') === 1);
+
+      server.sendPatch('p1', [{ op: 'replace', path: '/tasks', value: { t1: task('t1', 'inprogress') } }]);
+      server.sendPatch('p1', [
+        { op: 'add', path: '/tasks/t3', value: task('t3', 'inreview') },
+        { op: 'remove', path: '/tasks/t1' },
+        { op: 'replace', path: '/projects/p1', value: {} },
+      ]);
+      await waitFor(() => changes.length === 3);
+
+      expect(stream.getState()).toBe('open');
+      expect(changes).toEqual([
+        { kind: 'reset', tasks: [task('t1', 'inprogress')] },
+        { kind: 'upsert', task: task('t3', 'inreview') },
+        { kind: 'remove', taskId: 't1' },
+      ]);
+    });
+
+    it('should report servers without a stream as unavailable', async () => {
+      server.streamAvailable = false;
+      const states: EventStreamState[] = [];
+      const stream = new VibeKanbanApiClient(server.url).openTaskStream('p1', {
+        onChanges: () => {},
+        onStateChange: (state) => states.push(state),
+      });
+      cleanups.push(() => stream.stop());
+      stream.start();
+
+      await waitFor(() => stream.getState() === 'unavailable');
+      expect(states).toEqual(['connecting', 'unavailable']);
+    });
+  });
+
+  describe('EventStream', () => {
+    it('should reconnect after the server ends the stream', async () => {
+      const stream = new EventStream(
+        server.url + '/api/tasks/stream?project_id=p1',
+        { onEvent: () => {} },
+        { minDelayMs: 20, maxDelayMs: 100 }
+      );
+      cleanups.push(() => stream.stop());
+      stream.start();
+      await waitFor(() => server.streamCount('p1') === 1);
+
+      server.closeStreams();
+      await waitFor(() => stream.getState() === 'connecting');
+      await waitFor(() => server.streamCount('p1') === 1 && stream.getState() === 'open');
+
+      expect(server.requests.filter((path) => path.startsWith('/api/tasks/stream'))).toHaveLength(2);
+    });
+
+    it('should not reconnect once stopped', async () => {
+      const stream = new EventStream(
+        server.url + '/api/tasks/stream?project_id=p1',
+        { onEvent: () => {} },
+        { minDelayMs: 20, maxDelayMs: 100 }
+      );
+      stream.start();
+      await waitFor(() => server.streamCount('p1') === 1);
+
+      stream.stop();
+      await waitFor(() => server.streamCount('p1') === 0);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(stream.getState()).toBe('stopped');
+      expect(server.requests.filter((path) => path.startsWith('/api/tasks/stream'))).toHaveLength(1);
+    });
+  });
+
+  describe('TaskSnapshotStore', () => {
+    let store: TaskSnapshotStore;
+
+    beforeEach(() => {
+      const registry = new InstanceRegistry([{ id: 'local', name: 'Local', url: server.url, enabled: true }]);
+      store = new TaskSnapshotStore(registry, new ProjectNameCache());
+      cleanups.push(() => store.stopStreams());
+    });
+
+    it('should apply stream updates and stop polling streamed projects', async () => {
+      const onChange = vi.fn();
+      store.setOnChange(onChange);
+      await store.refresh();
+      // The stream opening triggers a refresh that seeds it from the polled list
+      await waitFor(() => store.getStreamStats().open === 1);
+      await store.refresh();
+
+      const attemptPolls = () => server.requests.filter((path) => path === '/api/task-attempts?task_id=t2').length;
+      const attemptPollsBefore = attemptPolls();
+      server.sendPatch('p1', [{ op: 'replace', path: '/tasks/t2', value: task('t2', 'inprogress', '2025-01-11T00:00:00Z') }]);
+      await waitFor(() => attemptPolls() > attemptPollsBefore && store.getSnapshot().instances[0].attempts.t2 !== undefined);
+
+      const [local] = store.getSnapshot().instances;
+      expect(local.tasks.p1.map((t) => t.status)).toEqual(['inprogress', 'inprogress']);
+      expect(local.attempts.t2).toEqual([expect.objectContaining({ id: 'attempt-t2' })]);
+      expect(onChange).toHaveBeenCalled();
+
+      const tasksPolls = server.requests.filter((path) => path.startsWith('/api/tasks?')).length;
+      await store.refresh();
+      expect(server.requests.filter((path) => path.startsWith('/api/tasks?'))).toHaveLength(tasksPolls);
+    });
+
+    it('should log a failed refresh triggered by a stream opening', async () => {
+      const refresh = store.refresh.bind(store);
+      vi.spyOn(store, 'refresh').mockRejectedValue(new Error('Storage unavailable'));
+      await refresh();
+
+      await waitFor(() =>
+        vi.mocked(console.warn).mock.calls.some(([message]) => String(message).includes('Storage unavailable'))
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        '[vibe-tracker] Snapshot refresh after task stream opened failed: Storage unavailable'
+      );
+    });
+
+    it('should keep polling when the server has no stream', async () => {
+      server.streamAvailable = false;
+      await store.refresh();
+      await waitFor(() => store.getStreamStats().unavailable === 1);
+
+      server.tasks.p1 = [task('t1', 'done')];
+      await store.refresh();
+
+      expect(store.getSnapshot().instances[0].tasks.p1).toEqual([task('t1', 'done')]);
+    });
+  });
+});
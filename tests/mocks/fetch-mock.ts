@@ -68,6 +68,7 @@ export function createFetchMock(config: FetchMockConfig = {}): typeof fetch {
       return Promise.resolve({
         ok: true,
         status: 200,
+        headers: new Headers(),
         json: () =>
           Promise.resolve({
             success: true,
@@ -81,6 +82,7 @@ export function createFetchMock(config: FetchMockConfig = {}): typeof fetch {
       return Promise.resolve({
         ok: true,
         status: 200,
+        headers: new Headers(),
         json: () =>
           Promise.resolve({
             success: true,
@@ -94,6 +96,7 @@ export function createFetchMock(config: FetchMockConfig = {}): typeof fetch {
       return Promise.resolve({
         ok: true,
         status: 200,
+        headers: new Headers(),
         json: () =>
           Promise.resolve({
             success: true,
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for ActivityAccountant
+ * Tests splitting time on state and route changes, checkpoints, whole segment durations,
+ * closed tabs and crash recovery
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ActivityAccountant } from '../../../src/background/activity-accountant';
+import type { ActivityState } from '../../../src/background/state-machine';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('ActivityAccountant', () => {
+  let accountant: ActivityAccountant;
+  let reported: Array<{ state: ActivityState; durationMs: number; taskId: string | undefined; view: string | null | undefined }>;
+  let ended: Array<[ActivityState, number]>;
+  const otherTask = { ...testRoutes.taskDetail, taskId: 'other-task' };
+
+  beforeEach(() => {
+    accountant = new ActivityAccountant();
+    reported = [];
+    ended = [];
+    accountant.setOnSegment((state, durationMs, route) => {
+      reported.push({ state, durationMs, taskId: route.taskId, view: route.view });
+    });
+    accountant.setOnSegmentEnd((state, durationMs) => ended.push([state, durationMs]));
+  });
+
+  it('should report the time of a state when the state changes', () => {
+    accountant.update(1, 'active', testRoutes.taskDetail);
+    vi.advanceTimersByTime(60000);
+    accountant.update(1, 'idle', testRoutes.taskDetail);
+    vi.advanceTimersByTime(30000);
+    accountant.update(1, 'unfocused', testRoutes.taskDetail);
+
+    expect(reported).toEqual([
+      { state: 'active', durationMs: 60000, taskId: testRoutes.taskDetail.taskId, view: null },
+      { state: 'idle', durationMs: 30000, taskId: testRoutes.taskDetail.taskId, view: null },
+    ]);
+  });
+
+  it('should split time across route changes', () => {
+    accountant.update(1, 'active', testRoutes.taskDetail);
+    vi.advanceTimersByTime(20000);
+    accountant.update(1, 'active', testRoutes.taskDetailWithDiffs);
+    vi.advanceTimersByTime(10000);
+    accountant.update(1, 'active', otherTask);
+    vi.advanceTimersByTime(5000);
+    accountant.update(1, 'unfocused', otherTask);
+
+    expect(reported.map(({ durationMs, taskId, view }) => [durationMs, taskId, view])).toEqual([
+      [20000, testRoutes.taskDetail.taskId, null],
+      [10000, testRoutes.taskDetailWithDiffs.taskId, 'diffs'],
+      [5000, 'other-task', null],
+    ]);
+  });
+
+  it('should not split time on updates with the same state and route', () => {
+    accountant.update(1, 'active', testRoutes.taskDetail);
+    vi.advanceTimersByTime(10000);
+    accountant.update(1, 'active', { ...testRoutes.taskDetail });
+
+    expect(reported).toEqual([]);
+  });
+
+  it('should report open segments at each checkpoint and keep them open', () => {
+    accountant.update(1, 'active', testRoutes.taskDetail);
+    accountant.update(2, 'unfocused', otherTask);
+    vi.advanceTimersByTime(30000);
+    accountant.checkpoint();
+    vi.advanceTimersByTime(30000);
+    accountant.checkpoint();
+
+    expect(reported.map(({ state, durationMs }) => [state, durationMs])).toEqual([
+      ['active', 30000],
+      ['unfocused', 30000],
+      ['active', 30000],
+      ['unfocused', 30000],
+    ]);
+    expect(accountant.getSegments()[1]).toEqual({
+      state: 'active',
+      route: testRoutes.taskDetail,
+      start: Date.now() - 60000,
+      since: Date.now(),
+    });
+    expect(ended).toEqual([]);
+  });
+
+  it('should report the whole duration of a segment across checkpoints when it ends', () => {
+    accountant.update(1, 'active', testRoutes.taskDetail);
+    vi.advanceTimersByTime(30000);
+    accountant.checkpoint();
+    vi.advanceTimersByTime(45000);
+    accountant.update(1, 'idle', testRoutes.taskDetail);
+
+    expect(reported.map(({ durationMs }) => durationMs)).toEqual([30000, 45000]);
+    expect(ended).toEqual([['active', 75000]]);
+  });
+
+  it('should not count time without a route', () => {
+    accountant.update(1, 'active', null);
+    vi.advanceTimersByTime(30000);
+    accountant.checkpoint();
+
+    expect(reported).toEqual([]);
+  });
+
+  it('should end the segment of a closed tab', () => {
+    accountant.update(1, 'unfocused', testRoutes.taskDetail);
+    vi.advanceTimersByTime(15000);
+    accountant.removeTab(1);
+
+    expect(reported).toEqual([{ state: 'unfocused', durationMs: 15000, taskId: testRoutes.taskDetail.taskId, view: null }]);
+    expect(accountant.getSegments()).toEqual({});
+  });
+
+  it('should recover the segments of a previous run up to its last save', () => {
+    const checkpointAt = Date.now() - 60000;
+    accountant.recover(
+      { 7: { state: 'active', route: testRoutes.taskDetail, start: checkpointAt - 30000, since: checkpointAt } },
+      checkpointAt + 20000
+    );
+
+    expect(reported).toEqual([{ state: 'active', durationMs: 20000, taskId: testRoutes.taskDetail.taskId, view: null }]);
+    expect(ended).toEqual([['active', 50000]]);
+  });
+});
@@ -22,7 +22,7 @@
  * The callback at lines 106-115 drops metrics when route is null:
  * ```typescript
  * if (context.currentRoute) {
- *   metricsCollector.recordActiveTime(...);
+ *   metricsCollector.recordStateTime('active', ...);
  * } else {
  *   console.warn('No currentRoute, skipping active time metric');
  * }
@@ -52,7 +52,7 @@ describe('Activity Metrics Bug - Regression Tests', () => {
         if (prev === 'active' && activeStateStartTime !== null) {
           const durationMs = Date.now() - activeStateStartTime;
           if (context.currentRoute) {
-            metricsCollector.recordActiveTime(durationMs, context.currentRoute, machineId);
+            metricsCollector.recordStateTime('active', durationMs, context.currentRoute, machineId);
           } else {
             // This is the bug - metrics are silently dropped here!
             console.warn('[vibe-tracker] No currentRoute, skipping active time metric');
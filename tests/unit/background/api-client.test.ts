@@ -0,0 +1,221 @@
+/**
+ * Unit tests for VibeKanbanApiClient
+ * Tests that each failure mode comes back as a typed error instead of an empty list
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  VibeKanbanApiClient,
+  describeApiError,
+  type ApiError,
+} from '../../../src/background/api-client';
+import type { ValidationIssue } from '../../../src/background/api-validation';
+
+describe('VibeKanbanApiClient', () => {
+  const baseUrl = 'http://localhost:3069';
+  let client: VibeKanbanApiClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let reported: ApiError[];
+
+  function respond(status: number, body: unknown, headers: Record<string, string> = {}): void {
+    fetchMock.mockResolvedValueOnce({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: new Headers(headers),
+      json: async () => body,
+    });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    reported = [];
+    client = new VibeKanbanApiClient(baseUrl);
+    client.setOnError((error) => reported.push(error));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return data on success', async () => {
+    const project = { id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' };
+    respond(200, { success: true, data: [project], error_data: null, message: null });
+
+    const result = await client.fetchProjects();
+
+    expect(result).toEqual({ kind: 'ok', data: [project] });
+    expect(fetchMock.mock.calls[0][0]).toBe(baseUrl + '/api/projects');
+    expect(reported).toEqual([]);
+  });
+
+  it('should return an empty list as success', async () => {
+    respond(200, { success: true, data: [], error_data: null, message: null });
+
+    expect(await client.fetchProjectTasks('p 1')).toEqual({ kind: 'ok', data: [] });
+    expect(fetchMock.mock.calls[0][0]).toBe(baseUrl + '/api/tasks?project_id=p%201');
+  });
+
+  it('should report HTTP errors with their status', async () => {
+    respond(500, {});
+
+    const result = await client.fetchProjects();
+
+    expect(result).toEqual({
+      kind: 'http_error',
+      endpoint: 'projects',
+      status: 500,
+      message: 'HTTP 500',
+    });
+    expect(reported).toEqual([result]);
+  });
+
+  it('should report network errors', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('NetworkError when attempting to fetch resource.'));
+
+    const result = await client.fetchTaskAttempts('t1');
+
+    expect(result).toEqual({
+      kind: 'network_error',
+      endpoint: 'task_attempts',
+      message: 'NetworkError when attempting to fetch resource.',
+    });
+  });
+
+  it('should report API errors with the server message', async () => {
+    respond(200, { success: false, data: null, error_data: null, message: 'Project not found' });
+
+    const result = await client.fetchProjectTasks('missing');
+
+    expect(result).toEqual({
+      kind: 'api_error',
+      endpoint: 'tasks',
+      status: 200,
+      message: 'Project not found',
+    });
+  });
+
+  it('should report invalid JSON and missing data as parse errors', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => {
+        throw new SyntaxError('Unexpected token < in JSON');
+      },
+    });
+    respond(200, { success: true, data: { id: 'p1' }, error_data: null, message: null });
+
+    const invalidJson = await client.fetchProjects();
+    const notAList = await client.fetchProjects();
+
+    expect(invalidJson).toMatchObject({ kind: 'parse_error', message: 'Unexpected token < in JSON' });
+    expect(notAList).toMatchObject({ kind: 'parse_error', message: 'Response data is not a list' });
+    expect(reported).toHaveLength(2);
+  });
+
+  it('should drop malformed records and report why', async () => {
+    const issues: ValidationIssue[] = [];
+    client.setOnValidationIssue((issue) => issues.push(issue));
+    const task = {
+      id: 't1',
+      title: 'Fix login',
+      status: 'inprogress',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-02T00:00:00Z',
+      has_in_progress_attempt: true,
+      last_attempt_failed: false,
+    };
+    respond(200, {
+      success: true,
+      data: [task, { ...task, id: 't2', status: 'archived' }, { ...task, id: 't3', status: 'archived' }],
+      error_data: null,
+      message: null,
+    });
+
+    const result = await client.fetchProjectTasks('p1');
+
+    expect(result).toEqual({ kind: 'ok', data: [task] });
+    expect(issues).toEqual([
+      { endpoint: 'tasks', field: 'status', problem: "unknown value 'archived'", dropped: true, count: 2 },
+    ]);
+    expect(reported).toEqual([]);
+  });
+
+  it('should share one fetch between concurrent callers', async () => {
+    respond(200, { success: true, data: [], error_data: null, message: null });
+
+    const [first, second] = await Promise.all([client.fetchProjects(), client.fetchProjects()]);
+
+    expect(first).toEqual({ kind: 'ok', data: [] });
+    expect(second).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should revalidate with the ETag and reuse data on 304', async () => {
+    const project = { id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' };
+    respond(200, { success: true, data: [project], error_data: null, message: null }, { ETag: '"v1"' });
+    respond(304, null);
+
+    await client.fetchProjects();
+    const revalidated = await client.fetchProjects();
+
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match');
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+    expect(revalidated).toEqual({ kind: 'ok', data: [project] });
+    expect(reported).toEqual([]);
+  });
+
+  it('should evict the least recently used ETag responses beyond the cache limit', async () => {
+    const list = { success: true, data: [], error_data: null, message: null };
+    respond(200, list, { ETag: '"t1"' });
+    await client.fetchTaskAttempts('t1');
+    for (let i = 2; i <= 500; i++) {
+      respond(200, list, { ETag: '"t' + i + '"' });
+      await client.fetchTaskAttempts('t' + i);
+    }
+    // Revalidating t1 makes t2 the least recently used entry
+    respond(304, null);
+    await client.fetchTaskAttempts('t1');
+    respond(200, list, { ETag: '"t501"' });
+    await client.fetchTaskAttempts('t501');
+    fetchMock.mockClear();
+    respond(304, null);
+    respond(200, list);
+
+    await client.fetchTaskAttempts('t1');
+    await client.fetchTaskAttempts('t2');
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'If-None-Match': '"t1"' });
+    expect(fetchMock.mock.calls[1][1].headers).not.toHaveProperty('If-None-Match');
+  });
+
+  it('should report timed-out requests as network errors', async () => {
+    fetchMock.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+        })
+    );
+
+    const pending = client.fetchProjects();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(await pending).toMatchObject({
+      kind: 'network_error',
+      endpoint: 'projects',
+      message: 'Request timed out after 10000 ms',
+    });
+    expect(reported).toHaveLength(1);
+  });
+
+  it('should describe errors for display', () => {
+    expect(
+      describeApiError({ kind: 'http_error', endpoint: 'projects', status: 502, message: 'HTTP 502' })
+    ).toBe('vibe-kanban returned HTTP 502 for projects');
+    expect(
+      describeApiError({ kind: 'network_error', endpoint: 'projects', message: 'Failed to fetch' })
+    ).toBe('Cannot reach vibe-kanban (Failed to fetch). Is it running?');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for API response validation
+ * Tests which records are dropped or flagged, and the compatibility warnings built from them
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateRecords,
+  describeValidationIssue,
+  CompatibilityLog,
+  type ValidationIssue,
+} from '../../../src/background/api-validation';
+import type { Project, Task } from '../../../src/background/api-client';
+
+describe('validateRecords', () => {
+  const project = { id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-02T00:00:00Z' };
+  const task = {
+    id: 't1',
+    title: 'Fix login',
+    status: 'inreview',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-02T00:00:00Z',
+    has_in_progress_attempt: false,
+    last_attempt_failed: false,
+  };
+
+  it('should keep valid records without issues', () => {
+    expect(validateRecords<Project>('projects', [project])).toEqual({ records: [project], issues: [] });
+    expect(validateRecords<Task>('tasks', [task])).toEqual({ records: [task], issues: [] });
+  });
+
+  it('should drop records with an unusable required field', () => {
+    const renamed = { ...project, id: 'p2', created_at: undefined, createdAt: '2025-01-01T00:00:00Z' };
+
+    const { records, issues } = validateRecords<Project>('projects', [project, renamed]);
+
+    expect(records).toEqual([project]);
+    expect(issues).toEqual([
+      { endpoint: 'projects', field: 'created_at', problem: 'expected timestamp, got missing', dropped: true, count: 1 },
+    ]);
+  });
+
+  it('should keep records with an unexpected optional field and flag it', () => {
+    const retyped = { ...task, has_in_progress_attempt: 'yes' };
+
+    const { records, issues } = validateRecords<Task>('tasks', [retyped, { ...retyped, id: 't2' }]);
+
+    expect(records).toHaveLength(2);
+    expect(issues).toEqual([
+      { endpoint: 'tasks', field: 'has_in_progress_attempt', problem: 'expected boolean, got string', dropped: false, count: 2 },
+    ]);
+  });
+
+  it('should accept attempts without executor and outcome fields but flag unknown outcomes', () => {
+    const attempt = { id: 'a1', task_id: 't1', branch: 'vk/a1', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' };
+
+    const { records, issues } = validateRecords('task_attempts', [
+      attempt,
+      { ...attempt, id: 'a2', executor: null, status: 'cancelled', completed_at: null },
+    ]);
+
+    expect(records).toHaveLength(2);
+    expect(issues.map(describeValidationIssue)).toEqual([
+      "task_attempts.status: unknown value 'cancelled' (1 record flagged)",
+    ]);
+  });
+
+  it('should reject unknown statuses, unparseable timestamps and non-objects', () => {
+    const { records, issues } = validateRecords<Task>('tasks', [
+      { ...task, status: 'archived' },
+      { ...task, created_at: 'yesterday' },
+      null,
+    ]);
+
+    expect(records).toEqual([]);
+    expect(issues.map(describeValidationIssue)).toEqual([
+      "tasks.status: unknown value 'archived' (1 record dropped)",
+      "tasks.created_at: unparseable timestamp 'yesterday' (1 record dropped)",
+      'tasks.(record): expected object, got null (1 record dropped)',
+    ]);
+  });
+});
+
+describe('CompatibilityLog', () => {
+  function issue(field: string): ValidationIssue {
+    return { endpoint: 'tasks', field, problem: 'expected string, got number', dropped: true, count: 1 };
+  }
+
+  it('should list warnings most recently seen first, updating repeated ones', () => {
+    const log = new CompatibilityLog();
+
+    log.record('Local', issue('title'));
+    log.record('Local', issue('status'));
+    log.record('Local', { ...issue('title'), count: 4 });
+
+    expect(log.getWarnings()).toEqual([
+      'Local: tasks.title: expected string, got number (4 records dropped), last seen 2025-01-11T12:00:00.000Z',
+      'Local: tasks.status: expected string, got number (1 record dropped), last seen 2025-01-11T12:00:00.000Z',
+    ]);
+  });
+
+  it('should keep a bounded number of warnings', () => {
+    const log = new CompatibilityLog();
+
+    for (let i = 0; i < 25; i++) {
+      log.record('Local', issue('field_' + i));
+    }
+
+    const warnings = log.getWarnings();
+    expect(warnings).toHaveLength(20);
+    expect(warnings[0]).toContain('field_24');
+    expect(warnings[19]).toContain('field_5');
+  });
+});
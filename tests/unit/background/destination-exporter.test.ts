@@ -0,0 +1,490 @@
+/**
+ * Unit tests for DestinationExporter
+ * Tests fan-out to multiple destinations with independent outboxes, backoff and running totals
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DestinationExporter,
+  getRetryBackoffMs,
+  countOutboxMetrics,
+  type ExportDestination,
+  type DestinationExporterOptions,
+} from '../../../src/background/destination-exporter';
+import { MetricsCollector } from '../../../src/background/metrics-collector';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('DestinationExporter', () => {
+  const machineId = 'test-machine';
+  const options: DestinationExporterOptions = {
+    serviceName: 'vibe-kanban-tracker',
+    serviceVersion: '1.0.0',
+    machineId,
+    encoding: 'json',
+    compression: 'none',
+    temporality: 'cumulative',
+    histogramBoundaries: {},
+    outboxPolicy: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxBytes: 5 * 1024 * 1024 },
+  };
+  const local: ExportDestination = {
+    id: 'local',
+    name: 'Local',
+    protocol: 'otlp',
+    endpoint: 'http://localhost:4318',
+    headers: {},
+    auth: { type: 'none' },
+    enabled: true,
+  };
+  const team: ExportDestination = {
+    id: 'team',
+    name: 'Team',
+    protocol: 'otlp',
+    endpoint: 'https://otel.example.com',
+    headers: { 'X-Scope-OrgID': 'team-a' },
+    auth: { type: 'bearer', token: 'secret' },
+    enabled: true,
+  };
+
+  let collector: MetricsCollector;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let failingHosts: Set<string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-11T12:00:00Z'));
+    collector = new MetricsCollector();
+    failingHosts = new Set();
+    // One attempt per export, so failures resolve without backoff
+    fetchMock = vi.fn(async (url: string) => {
+      const failing = Array.from(failingHosts).some((host) => url.startsWith(host));
+      return failing
+        ? { ok: false, status: 503, statusText: 'Service Unavailable' }
+        : { ok: true, status: 200 };
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function recordInterventions(count: number) {
+    for (let i = 0; i < count; i++) {
+      collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+    }
+    return collector.flush();
+  }
+
+  function callsTo(endpoint: string) {
+    return fetchMock.mock.calls.filter(([url]) => url.startsWith(endpoint));
+  }
+
+  function pendingCount(exporter: DestinationExporter, id: string): number {
+    return countOutboxMetrics(exporter.getStates()[id].outbox);
+  }
+
+  function exportedValue(call: unknown[]): number {
+    const payload = JSON.parse((call[1] as RequestInit).body as string);
+    return Number(payload.resourceMetrics[0].scopeMetrics[0].metrics[0].sum.dataPoints[0].asInt);
+  }
+
+  it('should deliver metrics to every enabled destination', async () => {
+    const exporter = new DestinationExporter([local, team], options);
+
+    exporter.queueMetrics(recordInterventions(1));
+    const results = await exporter.exportMetrics();
+
+    expect(results).toEqual([
+      { id: 'local', success: true },
+      { id: 'team', success: true },
+    ]);
+    expect(callsTo(local.endpoint + '/v1/metrics')).toHaveLength(1);
+    const [teamCall] = callsTo(team.endpoint + '/v1/metrics');
+    expect(teamCall[1].headers).toMatchObject({
+      'X-Scope-OrgID': 'team-a',
+      Authorization: 'Bearer secret',
+    });
+  });
+
+  it('should skip disabled destinations without queueing for them', async () => {
+    const exporter = new DestinationExporter([local, { ...team, enabled: false }], options);
+
+    exporter.queueMetrics(recordInterventions(1));
+    await exporter.exportMetrics();
+
+    expect(callsTo(team.endpoint)).toHaveLength(0);
+    expect(pendingCount(exporter, 'team')).toBe(0);
+  });
+
+  it('should keep metrics only for the failing destination', async () => {
+    const exporter = new DestinationExporter([local, team], options);
+    failingHosts.add(team.endpoint);
+
+    exporter.queueMetrics(recordInterventions(2));
+    const results = await exporter.exportMetrics();
+
+    expect(results).toEqual([
+      { id: 'local', success: true },
+      { id: 'team', success: false },
+    ]);
+    expect(pendingCount(exporter, 'local')).toBe(0);
+    expect(pendingCount(exporter, 'team')).toBe(2);
+    expect(exporter.getStates().team.consecutiveFailures).toBe(1);
+  });
+
+  it('should not resend delivered metrics when another destination recovers', async () => {
+    const exporter = new DestinationExporter([local, team], options);
+    failingHosts.add(team.endpoint);
+    exporter.queueMetrics(recordInterventions(2));
+    await exporter.exportMetrics();
+
+    failingHosts.clear();
+    fetchMock.mockClear();
+    vi.advanceTimersByTime(getRetryBackoffMs(1));
+    exporter.queueMetrics(recordInterventions(1));
+    await exporter.exportMetrics();
+
+    // Cumulative totals: local already counted 2, team receives all 3 for the first time
+    expect(exportedValue(callsTo(local.endpoint)[0])).toBe(3);
+    expect(exportedValue(callsTo(team.endpoint)[0])).toBe(3);
+    expect(pendingCount(exporter, 'team')).toBe(0);
+    expect(exporter.getStates().team.consecutiveFailures).toBe(0);
+  });
+
+  it('should retain API metrics on failure', async () => {
+    const exporter = new DestinationExporter([local], options);
+    failingHosts.add(local.endpoint);
+    const apiMetric = {
+      name: 'vibe_kanban.projects.count',
+      type: 'gauge' as const,
+      value: 3,
+      timestamp: Date.now(),
+      attributes: { machine_id: machineId },
+    };
+
+    exporter.queueMetrics([apiMetric]);
+    await exporter.exportMetrics();
+
+    expect(exporter.getStates().local.outbox[0].metrics).toEqual([apiMetric]);
+  });
+
+  it('should restore pending metrics and running totals from persisted state', async () => {
+    const first = new DestinationExporter([local], options);
+    first.queueMetrics(recordInterventions(2));
+    await first.exportMetrics();
+
+    const restored = new DestinationExporter([local], options, first.getStates());
+    fetchMock.mockClear();
+    restored.queueMetrics(recordInterventions(1));
+    await restored.exportMetrics();
+
+    expect(exportedValue(callsTo(local.endpoint)[0])).toBe(3);
+  });
+
+  describe('setDestinations', () => {
+    it('should keep state for destinations that keep their ID', async () => {
+      const exporter = new DestinationExporter([local, team], options);
+      failingHosts.add(team.endpoint);
+      exporter.queueMetrics(recordInterventions(1));
+      await exporter.exportMetrics();
+
+      exporter.setDestinations([{ ...team, endpoint: 'https://otel2.example.com' }]);
+
+      expect(Object.keys(exporter.getStates())).toEqual(['team']);
+      expect(pendingCount(exporter, 'team')).toBe(1);
+
+      vi.advanceTimersByTime(getRetryBackoffMs(1));
+      await exporter.exportMetrics();
+      expect(callsTo('https://otel2.example.com/v1/metrics')).toHaveLength(1);
+    });
+  });
+
+  describe('outbox', () => {
+    it('should queue each cycle as a batch with its own ID', () => {
+      const exporter = new DestinationExporter([local], options);
+
+      exporter.queueMetrics(recordInterventions(2));
+      exporter.queueMetrics(recordInterventions(1));
+      exporter.queueMetrics([]);
+
+      const outbox = exporter.getStates().local.outbox;
+      expect(outbox.map((batch) => batch.metrics.length)).toEqual([2, 1]);
+      expect(outbox[0].id).not.toBe(outbox[1].id);
+      expect(outbox[0].bytes).toBe(JSON.stringify(outbox[0].metrics).length);
+    });
+
+    it('should back off across cycles after failures', async () => {
+      const exporter = new DestinationExporter([local], options);
+      failingHosts.add(local.endpoint);
+      exporter.queueMetrics(recordInterventions(1));
+
+      await exporter.exportMetrics();
+      expect(exporter.getStates().local.nextAttemptTime).toBe(Date.now() + getRetryBackoffMs(1));
+
+      // Still backing off: no request
+      vi.advanceTimersByTime(getRetryBackoffMs(1) - 1);
+      expect(await exporter.exportMetrics()).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      await exporter.exportMetrics();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(exporter.getStates().local.consecutiveFailures).toBe(2);
+      expect(exporter.getStates().local.nextAttemptTime).toBe(Date.now() + getRetryBackoffMs(2));
+    });
+
+    it('should dead-letter rejected batches and deliver later ones', async () => {
+      const exporter = new DestinationExporter([local], options);
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request', text: async () => 'out of order sample' });
+      exporter.queueMetrics(recordInterventions(2));
+
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: false }]);
+      let state = exporter.getStates().local;
+      expect(state.outbox).toHaveLength(0);
+      expect(state.deadLetterCount).toBe(2);
+      expect(state.nextAttemptTime).toBeNull();
+
+      // No backoff: the next cycle delivers right away
+      exporter.queueMetrics(recordInterventions(1));
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: true }]);
+      state = exporter.getStates().local;
+      expect(state.outbox).toHaveLength(0);
+      expect(state.deadLetterCount).toBe(2);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop draining after a rejected request', async () => {
+      const exporter = new DestinationExporter([local], options);
+      // One metric over half the request size, so each batch is its own request
+      const bigMetric = () => ({
+        name: 'vibe_kanban.projects.count',
+        type: 'gauge' as const,
+        value: 1,
+        timestamp: Date.now(),
+        attributes: { machine_id: machineId, padding: 'x'.repeat(300 * 1024) },
+      });
+      exporter.queueMetrics([bigMetric()]);
+      exporter.queueMetrics([bigMetric()]);
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 422, statusText: 'Unprocessable Entity', text: async () => '' });
+
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: false }]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(exporter.getStates().local.outbox).toHaveLength(1);
+      expect(exporter.getStates().local.deadLetterCount).toBe(1);
+    });
+
+    it.each([
+      [401, 'Unauthorized'],
+      [404, 'Not Found'],
+    ])('should keep the queue and back off on HTTP %i', async (status, statusText) => {
+      const exporter = new DestinationExporter([local], options);
+      fetchMock.mockResolvedValueOnce({ ok: false, status, statusText, text: async () => '' });
+      exporter.queueMetrics(recordInterventions(2));
+      exporter.queueMetrics(recordInterventions(1));
+
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: false }]);
+      let state = exporter.getStates().local;
+      expect(pendingCount(exporter, 'local')).toBe(3);
+      expect(state.deadLetterCount).toBe(0);
+      expect(state.nextAttemptTime).toBe(Date.now() + getRetryBackoffMs(1));
+
+      // Delivered once the destination accepts again
+      vi.advanceTimersByTime(getRetryBackoffMs(1));
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: true }]);
+      state = exporter.getStates().local;
+      expect(state.outbox).toHaveLength(0);
+      expect(state.deadLetterCount).toBe(0);
+    });
+
+    it('should split requests the destination finds too large', async () => {
+      const exporter = new DestinationExporter([local], options);
+      const tooLarge = { ok: false, status: 413, statusText: 'Payload Too Large', text: async () => '' };
+      fetchMock
+        .mockResolvedValueOnce(tooLarge)
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce(tooLarge);
+      exporter.queueMetrics(recordInterventions(1));
+      exporter.queueMetrics([
+        { name: 'vibe_kanban.projects.count', type: 'gauge', value: 1, timestamp: Date.now(), attributes: { machine_id: machineId } },
+        { name: 'vibe_kanban.tasks.count', type: 'gauge', value: 2, timestamp: Date.now(), attributes: { machine_id: machineId } },
+      ]);
+
+      expect(await exporter.exportMetrics()).toEqual([{ id: 'local', success: true }]);
+      // Both batches, each batch alone, then each half of the second batch
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(exporter.getStates().local.outbox).toHaveLength(0);
+      expect(exporter.getStates().local.deadLetterCount).toBe(0);
+    });
+
+    it('should cap the backoff delay', () => {
+      expect(getRetryBackoffMs(1)).toBe(15000);
+      expect(getRetryBackoffMs(2)).toBe(30000);
+      expect(getRetryBackoffMs(20)).toBe(15 * 60 * 1000);
+    });
+
+    it('should make a single attempt per export', async () => {
+      const exporter = new DestinationExporter([local], options);
+      fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      exporter.queueMetrics(recordInterventions(1));
+
+      await exporter.exportMetrics();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drain a large outbox over several requests', async () => {
+      const exporter = new DestinationExporter([local], options);
+      const bigAttributes = { machine_id: machineId, padding: 'x'.repeat(1024) };
+      for (let cycle = 0; cycle < 3; cycle++) {
+        const metrics = Array.from({ length: 200 }, () => ({
+          name: 'vibe_kanban.projects.count',
+          type: 'gauge' as const,
+          value: cycle,
+          timestamp: Date.now(),
+          attributes: bigAttributes,
+        }));
+        exporter.queueMetrics(metrics);
+      }
+
+      const results = await exporter.exportMetrics();
+
+      expect(results).toEqual([{ id: 'local', success: true }]);
+      expect(fetchMock.mock.calls.length).toBeGreaterThan(1);
+      expect(exporter.getStates().local.outbox).toHaveLength(0);
+    });
+
+    it('should dead-letter batches past the max age', () => {
+      const exporter = new DestinationExporter([local], {
+        ...options,
+        outboxPolicy: { ...options.outboxPolicy, maxAgeMs: 60 * 60 * 1000 },
+      });
+      exporter.queueMetrics(recordInterventions(2));
+
+      vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+      exporter.queueMetrics(recordInterventions(1));
+
+      const state = exporter.getStates().local;
+      expect(countOutboxMetrics(state.outbox)).toBe(1);
+      expect(state.deadLetterCount).toBe(2);
+    });
+
+    it('should dead-letter the oldest batches beyond the max size', () => {
+      const exporter = new DestinationExporter([local], options);
+      exporter.queueMetrics(recordInterventions(3));
+      const batchBytes = exporter.getStates().local.outbox[0].bytes;
+
+      exporter.setOutboxPolicy({ ...options.outboxPolicy, maxBytes: batchBytes + 1 });
+      exporter.queueMetrics(recordInterventions(3));
+
+      const state = exporter.getStates().local;
+      expect(state.outbox).toHaveLength(1);
+      expect(state.deadLetterCount).toBe(3);
+    });
+
+    it('should hold spans while metric exports are backing off', async () => {
+      const exporter = new DestinationExporter([local], options);
+      failingHosts.add(local.endpoint);
+      exporter.queueMetrics(recordInterventions(1));
+      await exporter.exportMetrics();
+      fetchMock.mockClear();
+
+      const results = await exporter.exportSpans([
+        {
+          traceId: '0123456789abcdef0123456789abcdef',
+          spanId: '0011223344556677',
+          name: 'vibe_kanban.session',
+          startTimestamp: Date.now() - 1000,
+          endTimestamp: Date.now(),
+          attributes: { machine_id: machineId },
+        },
+      ]);
+
+      expect(results).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      failingHosts.clear();
+      vi.advanceTimersByTime(getRetryBackoffMs(1));
+      await exporter.exportSpans([]);
+      expect(callsTo(local.endpoint + '/v1/traces')).toHaveLength(1);
+    });
+  });
+
+  describe('prometheus destinations', () => {
+    const prometheus: ExportDestination = {
+      id: 'prom',
+      name: 'Prometheus',
+      protocol: 'prometheus',
+      endpoint: 'http://prometheus.example.com/api/v1/write',
+      headers: {},
+      auth: { type: 'none' },
+      enabled: true,
+    };
+
+    it('should send metrics as snappy-compressed remote-write', async () => {
+      const exporter = new DestinationExporter([local, prometheus], options);
+
+      exporter.queueMetrics(recordInterventions(1));
+      await exporter.exportMetrics();
+
+      const [call] = callsTo(prometheus.endpoint);
+      expect(call[0]).toBe(prometheus.endpoint);
+      expect(call[1].headers).toMatchObject({
+        'Content-Type': 'application/x-protobuf',
+        'Content-Encoding': 'snappy',
+      });
+      expect(callsTo(local.endpoint + '/v1/metrics')).toHaveLength(1);
+    });
+
+    it('should keep cumulative totals when delta temporality is configured', async () => {
+      const exporter = new DestinationExporter([prometheus], { ...options, temporality: 'delta' });
+
+      exporter.queueMetrics(recordInterventions(2));
+      await exporter.exportMetrics();
+      exporter.queueMetrics(recordInterventions(1));
+      await exporter.exportMetrics();
+
+      const series = exporter.getStates().prom.aggregationState.series;
+      expect(Object.values(series).map((entry) => entry.value)).toEqual([3]);
+    });
+
+    it('should not send spans or logs to Prometheus', async () => {
+      const exporter = new DestinationExporter([prometheus], options);
+
+      const results = await exporter.exportLogs([
+        {
+          eventName: 'vibe_kanban.navigation',
+          body: 'navigation',
+          timestamp: Date.now(),
+          observedTimestamp: Date.now(),
+          attributes: {},
+        },
+      ]);
+
+      expect(results).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spans and logs', () => {
+    it('should retry spans only for the destination that failed', async () => {
+      const exporter = new DestinationExporter([local, team], options);
+      const span = {
+        traceId: '0123456789abcdef0123456789abcdef',
+        spanId: '0011223344556677',
+        name: 'vibe_kanban.session',
+        startTimestamp: Date.now() - 1000,
+        endTimestamp: Date.now(),
+        attributes: { machine_id: machineId },
+      };
+      failingHosts.add(team.endpoint);
+      await exporter.exportSpans([span]);
+
+      failingHosts.clear();
+      fetchMock.mockClear();
+      await exporter.exportSpans([]);
+
+      expect(callsTo(local.endpoint)).toHaveLength(0);
+      expect(callsTo(team.endpoint + '/v1/traces')).toHaveLength(1);
+    });
+  });
+});
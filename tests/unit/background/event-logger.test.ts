@@ -0,0 +1,117 @@
+/**
+ * Unit tests for EventLogger
+ * Tests structured log records for interventions, sent messages, navigations and task effort
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventLogger } from '../../../src/background/event-logger';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('EventLogger', () => {
+  let logger: EventLogger;
+  const machineId = 'test-machine';
+  const now = Date.parse('2025-01-11T12:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(now));
+    logger = new EventLogger();
+  });
+
+  it('should keep trigger type and button text of human interventions', () => {
+    logger.logHumanIntervention(testRoutes.taskDetail, machineId, now - 50, 'button_click', 'Send');
+
+    const [record] = logger.flush();
+    expect(record.eventName).toBe('vibe_kanban.human_intervention');
+    expect(record.body).toBe('Human intervention via button_click (Send)');
+    expect(record.timestamp).toBe(now - 50);
+    expect(record.observedTimestamp).toBe(now);
+    expect(record.attributes).toMatchObject({
+      machine_id: machineId,
+      task_id: testRoutes.taskDetail.taskId,
+      trigger_type: 'button_click',
+      button_text: 'Send',
+    });
+  });
+
+  it('should omit button text for keyboard shortcuts', () => {
+    logger.logHumanIntervention(testRoutes.taskDetail, machineId, now, 'keyboard_shortcut');
+
+    const [record] = logger.flush();
+    expect(record.attributes.button_text).toBeUndefined();
+  });
+
+  it('should record message length and trigger of sent messages', () => {
+    logger.logMessageSent(testRoutes.taskDetail, machineId, now, 120, 'keyboard_shortcut');
+
+    const [record] = logger.flush();
+    expect(record.eventName).toBe('vibe_kanban.message_sent');
+    expect(record.attributes.message_length).toBe(120);
+    expect(record.attributes.trigger_type).toBe('keyboard_shortcut');
+  });
+
+  it('should record the previous route of navigations', () => {
+    logger.logNavigation(testRoutes.taskDetailWithDiffs, machineId, now, testRoutes.taskBoard);
+
+    const [record] = logger.flush();
+    expect(record.body).toBe('Navigated from task_board to task_detail (diffs)');
+    expect(record.attributes).toMatchObject({
+      route_type: 'task_detail',
+      view: 'diffs',
+      previous_route_type: 'task_board',
+      previous_project_id: testRoutes.taskBoard.projectId,
+    });
+    expect(record.attributes.previous_task_id).toBeUndefined();
+  });
+
+  it('should attach the active span context', () => {
+    logger.logMessageSent(testRoutes.taskDetail, machineId, now, 10, 'button_click', {
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+    });
+
+    const [record] = logger.flush();
+    expect(record.traceId).toBe('a'.repeat(32));
+    expect(record.spanId).toBe('b'.repeat(16));
+  });
+
+  it('should summarize the effort of a finished task', () => {
+    logger.logTaskEffort(
+      {
+        instance: 'Local',
+        projectId: testRoutes.taskDetail.projectId!,
+        taskId: 'task-1',
+        activeTimeMs: 25 * 60 * 1000,
+        messagesSent: 4,
+        charactersTyped: 300,
+        viewTimeMs: 60000,
+        interventions: 4,
+        firstActivityAt: now - 3600000,
+        lastActivityAt: now,
+      },
+      'cancelled',
+      machineId
+    );
+
+    const [record] = logger.flush();
+    expect(record.eventName).toBe('vibe_kanban.task_effort');
+    expect(record.body).toBe('Task task-1 cancelled after 25 min active time, 4 messages sent');
+    expect(record.attributes).toMatchObject({
+      'vibe_kanban.instance': 'Local',
+      task_id: 'task-1',
+      status: 'cancelled',
+      active_time_ms: 25 * 60 * 1000,
+      characters_typed: 300,
+      first_activity_time: '2025-01-11T11:00:00.000Z',
+    });
+  });
+
+  it('should restore records after a failed export', () => {
+    logger.logNavigation(testRoutes.taskBoard, machineId, now);
+    const records = logger.flush();
+
+    logger.restore(records);
+
+    expect(logger.flush()).toEqual(records);
+  });
+});
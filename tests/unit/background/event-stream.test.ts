@@ -0,0 +1,42 @@
+/**
+ * Unit tests for ServerSentEventParser
+ * Tests event framing across chunk boundaries and the text/event-stream field rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ServerSentEventParser } from '../../../src/background/event-stream';
+
+describe('ServerSentEventParser', () => {
+  it('should parse events split across chunks', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('event: json_patch\ndata: [{"op"')).toEqual([]);
+    expect(parser.push(':"remove"}]\n\nevent: finished\n')).toEqual([
+      { event: 'json_patch', data: '[{"op":"remove"}]', id: undefined },
+    ]);
+  });
+
+  it('should default the event type and join multi-line data', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('id: 7\ndata: first\ndata:second\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond', id: '7' },
+    ]);
+  });
+
+  it('should accept CRLF line endings', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('event: json_patch\r\ndata: []\r\n\r\n')).toEqual([
+      { event: 'json_patch', data: '[]', id: undefined },
+    ]);
+  });
+
+  it('should skip comments and events without data', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push(': keep-alive\n\nevent: ping\n\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x', id: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for InstanceRegistry
+ * Tests origin matching, instance attribution and content script match patterns
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  InstanceRegistry,
+  getContentScriptMatches,
+  isCoveredByManifest,
+  type VibeKanbanInstance,
+} from '../../../src/background/instance-registry';
+
+describe('InstanceRegistry', () => {
+  const instances: VibeKanbanInstance[] = [
+    { id: 'local', name: 'Local', url: 'http://localhost:3069', enabled: true },
+    { id: 'devbox', name: 'devbox', url: 'https://devbox.example.com:8443', enabled: true },
+    { id: 'old', name: 'Old', url: 'http://localhost:4000', enabled: false },
+  ];
+  let registry: InstanceRegistry;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    registry = new InstanceRegistry(instances);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getEnabled', () => {
+    it('should return a client per enabled instance in configured order', () => {
+      expect(registry.getEnabled().map(({ instance }) => instance.id)).toEqual(['local', 'devbox']);
+    });
+
+    it('should skip instances with an invalid URL', () => {
+      registry.setInstances([{ id: 'bad', name: 'Bad', url: 'not a url', enabled: true }]);
+
+      expect(registry.getEnabled()).toEqual([]);
+    });
+
+    it('should query the instance origin', async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ success: true, data: [], error_data: null, message: null }),
+      }));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      await registry.getEnabled()[1].client.fetchProjects();
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://devbox.example.com:8443/api/projects');
+    });
+
+    it('should report API errors with their instance', async () => {
+      globalThis.fetch = vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      }) as unknown as typeof fetch;
+      const onError = vi.fn();
+      registry.setOnError(onError);
+
+      await registry.getEnabled()[1].client.fetchProjects();
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: 'network_error', endpoint: 'projects' }),
+        instances[1]
+      );
+    });
+  });
+
+  describe('resolveInstanceName', () => {
+    it('should match tabs to instances by origin', () => {
+      expect(registry.resolveInstanceName('http://localhost:3069/projects/p1/tasks')).toBe('Local');
+      expect(registry.resolveInstanceName('https://devbox.example.com:8443/')).toBe('devbox');
+    });
+
+    it('should attribute unconfigured default-port tabs to their origin', () => {
+      expect(registry.resolveInstanceName('http://192.168.1.20:3069/projects')).toBe(
+        'http://192.168.1.20:3069'
+      );
+    });
+
+    it('should not track disabled or unknown origins', () => {
+      expect(registry.resolveInstanceName('http://localhost:4000/')).toBeNull();
+      expect(registry.resolveInstanceName('http://localhost:5173/')).toBeNull();
+      expect(registry.resolveInstanceName(undefined)).toBeNull();
+    });
+
+    it('should fall back to the URL for unnamed instances', () => {
+      registry.setInstances([{ id: 'x', name: ' ', url: 'http://localhost:3070', enabled: true }]);
+
+      expect(registry.resolveInstanceName('http://localhost:3070/')).toBe('http://localhost:3070');
+    });
+  });
+});
+
+describe('content script registration', () => {
+  it('should treat default-port local and dotted-quad hosts as covered by the manifest', () => {
+    expect(isCoveredByManifest('http://localhost:3069')).toBe(true);
+    expect(isCoveredByManifest('http://10.0.0.5:3069')).toBe(true);
+    expect(isCoveredByManifest('http://devbox:3069')).toBe(false);
+    expect(isCoveredByManifest('http://localhost:3070')).toBe(false);
+    expect(isCoveredByManifest('https://localhost:3069')).toBe(false);
+  });
+
+  it('should build one host pattern per uncovered enabled instance', () => {
+    expect(
+      getContentScriptMatches([
+        { id: 'a', name: 'Local', url: 'http://localhost:3069', enabled: true },
+        { id: 'b', name: 'Second', url: 'http://localhost:3070', enabled: true },
+        { id: 'c', name: 'Third', url: 'http://localhost:3071', enabled: true },
+        { id: 'd', name: 'devbox', url: 'https://devbox.example.com:8443', enabled: true },
+        { id: 'e', name: 'Off', url: 'http://other:3000', enabled: false },
+      ])
+    ).toEqual(['http://localhost/*', 'https://devbox.example.com/*']);
+  });
+});
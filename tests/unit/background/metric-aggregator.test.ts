@@ -0,0 +1,225 @@
+/**
+ * Unit tests for MetricAggregator
+ * Tests per-series merging, cumulative/delta temporality, histograms and commit semantics
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MetricAggregator, getSeriesKey, buildHistogram } from '../../../src/background/metric-aggregator';
+import { MetricsCollector, type MetricRecord } from '../../../src/background/metrics-collector';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('MetricAggregator', () => {
+  let collector: MetricsCollector;
+  const machineId = 'test-machine';
+  const startTime = Date.parse('2025-01-11T12:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(startTime));
+    collector = new MetricsCollector();
+  });
+
+  function recordInterventions(count: number): MetricRecord[] {
+    for (let i = 0; i < count; i++) {
+      collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+      vi.advanceTimersByTime(1000);
+    }
+    return collector.flush();
+  }
+
+  describe('getSeriesKey', () => {
+    it('should not depend on attribute order', () => {
+      expect(getSeriesKey('m', { a: 1, b: 'x' })).toBe(getSeriesKey('m', { b: 'x', a: 1 }));
+    });
+
+    it('should distinguish attribute values', () => {
+      expect(getSeriesKey('m', { a: 1 })).not.toBe(getSeriesKey('m', { a: 2 }));
+    });
+  });
+
+  describe('cumulative temporality', () => {
+    it('should merge counter increments into one data point per series', () => {
+      const aggregator = new MetricAggregator('cumulative');
+
+      const result = aggregator.aggregate(recordInterventions(3));
+
+      expect(result).toHaveLength(1);
+      expect(result[0].value).toBe(3);
+      expect(result[0].temporality).toBe('cumulative');
+      expect(result[0].startTimestamp).toBe(startTime);
+      expect(result[0].timestamp).toBe(startTime + 2000);
+    });
+
+    it('should keep running totals across committed exports', () => {
+      const aggregator = new MetricAggregator('cumulative');
+
+      aggregator.aggregate(recordInterventions(3));
+      aggregator.commit();
+      const result = aggregator.aggregate(recordInterventions(2));
+
+      expect(result[0].value).toBe(5);
+      expect(result[0].startTimestamp).toBe(startTime);
+    });
+
+    it('should not advance totals when the export is discarded', () => {
+      const aggregator = new MetricAggregator('cumulative');
+
+      const batch = recordInterventions(3);
+      aggregator.aggregate(batch);
+      aggregator.discard();
+      const result = aggregator.aggregate(batch);
+
+      expect(result[0].value).toBe(3);
+    });
+
+    it('should keep separate series per attribute set', () => {
+      const aggregator = new MetricAggregator('cumulative');
+      collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
+      collector.recordHumanIntervention(testRoutes.taskBoard, machineId);
+      collector.recordHumanIntervention(testRoutes.taskBoard, machineId);
+
+      const result = aggregator.aggregate(collector.flush());
+
+      expect(result.map((m) => m.value).sort()).toEqual([1, 2]);
+    });
+
+    it('should restore running totals and start time from persisted state', () => {
+      const first = new MetricAggregator('cumulative');
+      first.aggregate(recordInterventions(4));
+      first.commit();
+
+      const restored = new MetricAggregator('cumulative', first.getState());
+      const result = restored.aggregate(recordInterventions(1));
+
+      expect(result[0].value).toBe(5);
+      expect(result[0].startTimestamp).toBe(startTime);
+    });
+
+    it('should pass gauges through unchanged', () => {
+      const aggregator = new MetricAggregator('cumulative');
+      const gauge: MetricRecord = {
+        name: 'vibe_kanban.projects.count',
+        type: 'gauge',
+        value: 5,
+        timestamp: startTime,
+        attributes: { machine_id: machineId },
+      };
+
+      const result = aggregator.aggregate([gauge, { ...gauge, value: 6 }]);
+
+      expect(result).toHaveLength(2);
+      expect(result.map((m) => m.value)).toEqual([5, 6]);
+      expect(result[0].temporality).toBeUndefined();
+    });
+  });
+
+  describe('delta temporality', () => {
+    it('should emit the batch sum with the previous export as start time', () => {
+      const aggregator = new MetricAggregator('delta');
+
+      aggregator.aggregate(recordInterventions(3));
+      aggregator.commit();
+      const result = aggregator.aggregate(recordInterventions(2));
+
+      expect(result[0].value).toBe(2);
+      expect(result[0].temporality).toBe('delta');
+      expect(result[0].startTimestamp).toBe(startTime + 2000);
+    });
+
+    it('should switch temporality at runtime', () => {
+      const aggregator = new MetricAggregator('delta');
+      aggregator.aggregate(recordInterventions(3));
+      aggregator.commit();
+
+      aggregator.setTemporality('cumulative');
+      const result = aggregator.aggregate(recordInterventions(1));
+
+      expect(result[0].value).toBe(4);
+      expect(result[0].temporality).toBe('cumulative');
+    });
+  });
+
+  describe('histograms', () => {
+    const boundaries = { 'vibe_kanban.active_time.duration_ms': [1000, 5000, 60000] };
+
+    it('should bucket observations into one data point per series', () => {
+      const aggregator = new MetricAggregator('cumulative', undefined, boundaries);
+      collector.recordStateTime('active', 500, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 3000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 120000, testRoutes.taskDetail, machineId);
+
+      const result = aggregator.aggregate(collector.flush());
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('histogram');
+      expect(result[0].histogram).toEqual({
+        count: 3,
+        sum: 123500,
+        min: 500,
+        max: 120000,
+        explicitBounds: [1000, 5000, 60000],
+        bucketCounts: [1, 1, 0, 1],
+      });
+    });
+
+    it('should accumulate buckets across commits with cumulative temporality', () => {
+      const aggregator = new MetricAggregator('cumulative', undefined, boundaries);
+      collector.recordStateTime('active', 500, testRoutes.taskDetail, machineId);
+      aggregator.aggregate(collector.flush());
+      aggregator.commit();
+
+      collector.recordStateTime('active', 2000, testRoutes.taskDetail, machineId);
+      const result = aggregator.aggregate(collector.flush());
+
+      expect(result[0].histogram?.count).toBe(2);
+      expect(result[0].histogram?.bucketCounts).toEqual([1, 1, 0, 0]);
+    });
+
+    it('should only export the batch with delta temporality', () => {
+      const aggregator = new MetricAggregator('delta', undefined, boundaries);
+      collector.recordStateTime('active', 500, testRoutes.taskDetail, machineId);
+      aggregator.aggregate(collector.flush());
+      aggregator.commit();
+
+      collector.recordStateTime('active', 2000, testRoutes.taskDetail, machineId);
+      const result = aggregator.aggregate(collector.flush());
+
+      expect(result[0].histogram?.count).toBe(1);
+      expect(result[0].temporality).toBe('delta');
+    });
+
+    it('should restart a series when bucket boundaries change', () => {
+      const aggregator = new MetricAggregator('cumulative', undefined, boundaries);
+      collector.recordStateTime('active', 500, testRoutes.taskDetail, machineId);
+      aggregator.aggregate(collector.flush());
+      aggregator.commit();
+
+      vi.advanceTimersByTime(1000);
+      aggregator.setHistogramBoundaries({ 'vibe_kanban.active_time.duration_ms': [10000] });
+      collector.recordStateTime('active', 2000, testRoutes.taskDetail, machineId);
+      const result = aggregator.aggregate(collector.flush());
+
+      expect(result[0].histogram?.count).toBe(1);
+      expect(result[0].histogram?.bucketCounts).toEqual([1, 0]);
+      expect(result[0].startTimestamp).toBe(startTime + 1000);
+    });
+
+    it('should count values on a boundary in the lower bucket', () => {
+      expect(buildHistogram([1000], [1000, 5000]).bucketCounts).toEqual([1, 0, 0]);
+    });
+  });
+
+  describe('retention', () => {
+    it('should drop series not updated within the retention window', () => {
+      const aggregator = new MetricAggregator('cumulative');
+      aggregator.aggregate(recordInterventions(1));
+      aggregator.commit();
+      expect(aggregator.getSeriesCount()).toBe(1);
+
+      vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000);
+      aggregator.commit();
+
+      expect(aggregator.getSeriesCount()).toBe(0);
+    });
+  });
+});
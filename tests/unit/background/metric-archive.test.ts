@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the metric archive download formats
+ * Tests NDJSON and CSV serialization of archived metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatArchive, toNDJSON, toCSV } from '../../../src/background/metric-archive';
+import type { MetricRecord } from '../../../src/background/metrics-collector';
+
+describe('metric archive formats', () => {
+  const timestamp = Date.parse('2025-01-11T12:00:00Z');
+  const metrics: MetricRecord[] = [
+    {
+      name: 'vibe_kanban.human_intervention.count',
+      type: 'counter',
+      value: 1,
+      timestamp,
+      attributes: { machine_id: 'laptop', task_id: 'task-1' },
+    },
+    {
+      name: 'vibe_kanban.tasks.count',
+      type: 'gauge',
+      value: 4,
+      timestamp: timestamp + 30000,
+      attributes: { machine_id: 'laptop', project_name: 'Web, "beta"' },
+    },
+  ];
+
+  describe('toNDJSON', () => {
+    it('should write one JSON record per line', () => {
+      const lines = toNDJSON(metrics).split('\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[2]).toBe('');
+      expect(JSON.parse(lines[0])).toEqual(metrics[0]);
+      expect(JSON.parse(lines[1])).toEqual(metrics[1]);
+    });
+
+    it('should return an empty file for an empty range', () => {
+      expect(toNDJSON([])).toBe('');
+    });
+  });
+
+  describe('toCSV', () => {
+    it('should add a column for every attribute key in the range', () => {
+      const [header, first, second] = toCSV(metrics).split('\n');
+
+      expect(header).toBe('timestamp,time,name,type,value,machine_id,project_name,task_id');
+      expect(first).toBe(
+        timestamp +
+          ',2025-01-11T12:00:00.000Z,vibe_kanban.human_intervention.count,counter,1,laptop,,task-1'
+      );
+      expect(second).toBe(
+        timestamp + 30000 + ',2025-01-11T12:00:30.000Z,vibe_kanban.tasks.count,gauge,4,laptop,"Web, ""beta""",'
+      );
+    });
+
+    it('should write only the header for an empty range', () => {
+      expect(toCSV([])).toBe('timestamp,time,name,type,value\n');
+    });
+  });
+
+  describe('formatArchive', () => {
+    it('should pick the serializer for the format', () => {
+      expect(formatArchive(metrics, 'csv')).toBe(toCSV(metrics));
+      expect(formatArchive(metrics, 'ndjson')).toBe(toNDJSON(metrics));
+    });
+  });
+});
@@ -18,26 +18,26 @@ describe('MetricsCollector', () => {
     collector = new MetricsCollector();
   });
 
-  describe('recordActiveTime', () => {
+  describe('recordStateTime for active time', () => {
     it('should record active time metric with correct name and type', () => {
-      collector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics).toHaveLength(1);
       expect(metrics[0].name).toBe('vibe_kanban.active_time.duration_ms');
-      expect(metrics[0].type).toBe('gauge');
+      expect(metrics[0].type).toBe('histogram');
     });
 
     it('should record duration value correctly', () => {
       const durationMs = 12345;
-      collector.recordActiveTime(durationMs, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', durationMs, testRoutes.taskDetail, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].value).toBe(durationMs);
     });
 
     it('should include route attributes', () => {
-      collector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes).toMatchObject({
@@ -49,14 +49,14 @@ describe('MetricsCollector', () => {
     });
 
     it('should include view attribute when present', () => {
-      collector.recordActiveTime(5000, testRoutes.taskDetailWithDiffs, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.taskDetailWithDiffs, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes.view).toBe('diffs');
     });
 
     it('should set timestamp to current time', () => {
-      collector.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].timestamp).toBe(Date.now());
@@ -86,6 +86,12 @@ describe('MetricsCollector', () => {
       });
     });
 
+    it('should include the instance of the route', () => {
+      collector.recordHumanIntervention({ ...testRoutes.taskDetail, instance: 'devbox' }, machineId);
+
+      expect(collector.getMetrics()[0].attributes['vibe_kanban.instance']).toBe('devbox');
+    });
+
     it('should record multiple interventions as separate metrics', () => {
       collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
       collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
@@ -136,6 +142,15 @@ describe('MetricsCollector', () => {
         expect(m.attributes).toEqual({ machine_id: machineId });
       });
     });
+
+    it('should include the instance when known', () => {
+      collector.recordScroll(500, machineId, 'devbox');
+
+      const metrics = collector.getMetrics();
+      metrics.forEach((m) => {
+        expect(m.attributes).toEqual({ machine_id: machineId, 'vibe_kanban.instance': 'devbox' });
+      });
+    });
   });
 
   describe('recordViewDuration', () => {
@@ -145,7 +160,7 @@ describe('MetricsCollector', () => {
       const metrics = collector.getMetrics();
       expect(metrics).toHaveLength(1);
       expect(metrics[0].name).toBe('vibe_kanban.view.duration_ms');
-      expect(metrics[0].type).toBe('gauge');
+      expect(metrics[0].type).toBe('histogram');
       expect(metrics[0].value).toBe(10000);
     });
 
@@ -170,6 +185,48 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('recordStateTime', () => {
+    it('should record a duration histogram per activity state', () => {
+      collector.recordStateTime('idle', 30000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('unfocused', 45000, testRoutes.taskDetail, machineId);
+      collector.recordStateTime('active', 60000, testRoutes.taskDetail, machineId);
+
+      expect(collector.getMetrics().map((metric) => [metric.name, metric.type, metric.value])).toEqual([
+        ['vibe_kanban.idle_time.duration_ms', 'histogram', 30000],
+        ['vibe_kanban.unfocused_time.duration_ms', 'histogram', 45000],
+        ['vibe_kanban.active_time.duration_ms', 'histogram', 60000],
+      ]);
+    });
+  });
+
+  describe('recordStateTimeTotal', () => {
+    it('should add the time to a counter per activity state', () => {
+      collector.recordStateTimeTotal('active', 30000, testRoutes.taskDetail, machineId);
+      collector.recordStateTimeTotal('locked', 15000, testRoutes.taskDetail, machineId);
+
+      const metrics = collector.getMetrics();
+      expect(metrics.map((metric) => [metric.name, metric.type, metric.value])).toEqual([
+        ['vibe_kanban.active_time.total_ms', 'counter', 30000],
+        ['vibe_kanban.locked_time.total_ms', 'counter', 15000],
+      ]);
+      expect(metrics[0].attributes).toMatchObject({ route_type: 'task_detail', task_id: testUUIDs.task1 });
+    });
+  });
+
+  describe('recordSubStateTime', () => {
+    it('should record a separate duration histogram per sub-state', () => {
+      collector.recordSubStateTime('waiting_on_agent', 90000, testRoutes.taskDetail, machineId);
+      collector.recordSubStateTime('reviewing', 30000, testRoutes.taskDetailWithDiffs, machineId);
+
+      const metrics = collector.getMetrics();
+      expect(metrics.map((metric) => [metric.name, metric.type, metric.value])).toEqual([
+        ['vibe_kanban.waiting_on_agent.duration_ms', 'histogram', 90000],
+        ['vibe_kanban.reviewing.duration_ms', 'histogram', 30000],
+      ]);
+      expect(metrics[0].attributes).toMatchObject({ route_type: 'task_detail', task_id: testUUIDs.task1 });
+    });
+  });
+
   describe('recordCharactersTyped', () => {
     it('should record characters typed count', () => {
       collector.recordCharactersTyped(150, testRoutes.taskDetail, machineId);
@@ -213,13 +270,13 @@ describe('MetricsCollector', () => {
       expect(countMetric?.value).toBe(1);
     });
 
-    it('should record message length as gauge with correct value', () => {
+    it('should record message length as histogram with correct value', () => {
       const messageLength = 1024;
       collector.recordMessageSent(messageLength, testRoutes.taskDetail, machineId);
 
       const metrics = collector.getMetrics();
       const lengthMetric = metrics.find((m) => m.name === 'vibe_kanban.message_sent.length');
-      expect(lengthMetric?.type).toBe('gauge');
+      expect(lengthMetric?.type).toBe('histogram');
       expect(lengthMetric?.value).toBe(messageLength);
     });
 
@@ -237,6 +294,93 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('recordApiError', () => {
+    it('should record an api.errors counter by endpoint and kind', () => {
+      collector.recordApiError('tasks', 'network_error', machineId);
+
+      const metrics = collector.getMetrics();
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0]).toMatchObject({
+        name: 'vibe_kanban.api.errors',
+        type: 'counter',
+        value: 1,
+        attributes: {
+          machine_id: machineId,
+          endpoint: 'tasks',
+          kind: 'network_error',
+        },
+      });
+    });
+
+    it('should include the instance when known', () => {
+      collector.recordApiError('projects', 'http_error', machineId, 'devbox');
+
+      expect(collector.getMetrics()[0].attributes['vibe_kanban.instance']).toBe('devbox');
+    });
+  });
+
+  describe('recordValidationFailure', () => {
+    it('should count affected records by endpoint, field and action', () => {
+      collector.recordValidationFailure('tasks', 'status', 3, true, machineId, 'Local');
+      collector.recordValidationFailure('projects', 'updated_at', 1, false, machineId);
+
+      const metrics = collector.getMetrics();
+      expect(metrics[0]).toMatchObject({
+        name: 'vibe_kanban.api.validation_failures',
+        type: 'counter',
+        value: 3,
+        attributes: {
+          machine_id: machineId,
+          'vibe_kanban.instance': 'Local',
+          endpoint: 'tasks',
+          field: 'status',
+          action: 'dropped',
+        },
+      });
+      expect(metrics[1].attributes.action).toBe('flagged');
+    });
+  });
+
+  describe('recordTaskEffort', () => {
+    it('should record one gauge per effort measure for the task', () => {
+      collector.recordTaskEffort(
+        {
+          instance: 'Local',
+          projectId: testRoutes.taskDetail.projectId!,
+          taskId: testRoutes.taskDetail.taskId!,
+          activeTimeMs: 90000,
+          messagesSent: 2,
+          charactersTyped: 120,
+          viewTimeMs: 5000,
+          interventions: 3,
+          firstActivityAt: Date.now(),
+          lastActivityAt: Date.now(),
+        },
+        'done',
+        machineId
+      );
+
+      const metrics = collector.getMetrics();
+      expect(metrics.map((metric) => [metric.name, metric.value])).toEqual([
+        ['vibe_kanban.task_effort.active_time_ms', 90000],
+        ['vibe_kanban.task_effort.messages_sent', 2],
+        ['vibe_kanban.task_effort.characters_typed', 120],
+        ['vibe_kanban.task_effort.view_time_ms', 5000],
+        ['vibe_kanban.task_effort.interventions', 3],
+      ]);
+      expect(metrics[0]).toMatchObject({
+        type: 'gauge',
+        attributes: {
+          machine_id: machineId,
+          'vibe_kanban.instance': 'Local',
+          project_id: testRoutes.taskDetail.projectId,
+          task_id: testRoutes.taskDetail.taskId,
+          status: 'done',
+        },
+      });
+    });
+  });
+
   describe('flush', () => {
     it('should return all metrics', () => {
       collector.recordHumanIntervention(testRoutes.taskDetail, machineId);
@@ -397,28 +541,28 @@ describe('MetricsCollector', () => {
 
   describe('Attribute Building', () => {
     it('should include workspace_id when present', () => {
-      collector.recordActiveTime(5000, testRoutes.workspace, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.workspace, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes.workspace_id).toBe(testUUIDs.workspace1);
     });
 
     it('should NOT include project_id when not present', () => {
-      collector.recordActiveTime(5000, testRoutes.workspace, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.workspace, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes.project_id).toBeUndefined();
     });
 
     it('should NOT include task_id when not present', () => {
-      collector.recordActiveTime(5000, testRoutes.taskBoard, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.taskBoard, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes.task_id).toBeUndefined();
     });
 
     it('should handle unknown route type', () => {
-      collector.recordActiveTime(5000, testRoutes.unknown, machineId);
+      collector.recordStateTime('active', 5000, testRoutes.unknown, machineId);
 
       const metrics = collector.getMetrics();
       expect(metrics[0].attributes.route_type).toBe('unknown');
@@ -429,7 +573,7 @@ describe('MetricsCollector', () => {
     it('should work without project name cache', () => {
       // Collector without cache should still work
       const collectorWithoutCache = new MetricsCollector();
-      collectorWithoutCache.recordActiveTime(5000, testRoutes.taskDetail, machineId);
+      collectorWithoutCache.recordStateTime('active', 5000, testRoutes.taskDetail, machineId);
 
       const metrics = collectorWithoutCache.getMetrics();
       expect(metrics[0].attributes.project_name).toBeUndefined();
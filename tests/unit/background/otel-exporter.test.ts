@@ -0,0 +1,524 @@
+/**
+ * Unit tests for OTelExporter
+ * Tests OTLP payload encoding (JSON/protobuf), gzip compression, custom headers, spans and logs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OTelExporter, encodeOTLPMetricsRequest, buildOTLPHeaders } from '../../../src/background/otel-exporter';
+import { ProtobufWriter, encodeMetricsRequest } from '../../../src/background/otlp-protobuf';
+import type { MetricRecord } from '../../../src/background/metrics-collector';
+import type { SpanRecord } from '../../../src/background/session-tracer';
+import type { LogRecord } from '../../../src/background/event-logger';
+
+/**
+ * Read the top-level length-delimited fields of a protobuf message
+ * Returns field number -> list of raw field payloads
+ */
+function readMessageFields(bytes: Uint8Array): Map<number, Uint8Array[]> {
+  const fields = new Map<number, Uint8Array[]>();
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = bytes[offset++];
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  while (offset < bytes.length) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 0x7;
+    let value: Uint8Array;
+    if (wireType === 2) {
+      const length = readVarint();
+      value = bytes.slice(offset, offset + length);
+      offset += length;
+    } else if (wireType === 1) {
+      value = bytes.slice(offset, offset + 8);
+      offset += 8;
+    } else {
+      const start = offset;
+      readVarint();
+      value = bytes.slice(start, offset);
+    }
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+
+  return fields;
+}
+
+async function gunzip(bytes: Uint8Array): Promise<string> {
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+describe('OTelExporter', () => {
+  const metric: MetricRecord = {
+    name: 'vibe_kanban.human_intervention.count',
+    type: 'counter',
+    value: 1,
+    timestamp: Date.parse('2025-01-11T12:00:00Z'),
+    attributes: { machine_id: 'test-machine', route_type: 'task_detail' },
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createExporter(overrides: Partial<ConstructorParameters<typeof OTelExporter>[0]> = {}): OTelExporter {
+    return new OTelExporter({
+      endpoint: 'http://localhost:4318',
+      serviceName: 'vibe-kanban-tracker',
+      serviceVersion: '1.0.0',
+      machineId: 'test-machine',
+      ...overrides,
+    });
+  }
+
+  describe('JSON encoding', () => {
+    it('should default to uncompressed OTLP/JSON', async () => {
+      const exporter = createExporter();
+
+      await exporter.export([metric]);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:4318/v1/metrics');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+      const payload = JSON.parse(init.body);
+      expect(payload.resourceMetrics[0].scopeMetrics[0].metrics[0].name).toBe(metric.name);
+    });
+  });
+
+  describe('protobuf encoding', () => {
+    it('should send application/x-protobuf bodies', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+
+      await exporter.export([metric]);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers['Content-Type']).toBe('application/x-protobuf');
+      expect(init.body).toBeInstanceOf(Uint8Array);
+    });
+
+    it('should encode the metric name and resource attributes', async () => {
+      const { body } = await encodeOTLPMetricsRequest(
+        {
+          resourceMetrics: [
+            {
+              resource: { attributes: [{ key: 'host.name', value: { stringValue: 'laptop' } }] },
+              scopeMetrics: [
+                {
+                  scope: { name: 'vibe-kanban-tracker', version: '1.0.0' },
+                  metrics: [
+                    {
+                      name: 'vibe_kanban.scroll.count',
+                      gauge: { dataPoints: [{ attributes: [], timeUnixNano: '1000', asInt: '7' }] },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        'protobuf',
+        'none'
+      );
+
+      const request = readMessageFields(body as Uint8Array);
+      const resourceMetrics = readMessageFields(request.get(1)![0]);
+      const resource = readMessageFields(resourceMetrics.get(1)![0]);
+      const attribute = readMessageFields(resource.get(1)![0]);
+      expect(new TextDecoder().decode(attribute.get(1)![0])).toBe('host.name');
+
+      const scopeMetrics = readMessageFields(resourceMetrics.get(2)![0]);
+      const otlpMetric = readMessageFields(scopeMetrics.get(2)![0]);
+      expect(new TextDecoder().decode(otlpMetric.get(1)![0])).toBe('vibe_kanban.scroll.count');
+
+      // gauge (field 5) -> data point (field 1) -> as_int sfixed64 (field 6)
+      const gauge = readMessageFields(otlpMetric.get(5)![0]);
+      const dataPoint = readMessageFields(gauge.get(1)![0]);
+      const asInt = new DataView(dataPoint.get(6)![0].buffer).getBigInt64(0, true);
+      expect(asInt).toBe(7n);
+    });
+
+    it('should encode non-integer number attributes as double values', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+
+      const result = await exporter.export([{ ...metric, attributes: { ...metric.attributes, ratio: 1.5, count: 3 } }]);
+
+      expect(result).toBe('success');
+      const [, init] = fetchMock.mock.calls[0];
+      const request = readMessageFields(init.body);
+      const resourceMetrics = readMessageFields(request.get(1)![0]);
+      const scopeMetrics = readMessageFields(resourceMetrics.get(2)![0]);
+      const otlpMetric = readMessageFields(scopeMetrics.get(2)![0]);
+      // sum (field 7) -> data point (field 1) -> attributes (field 7)
+      const sum = readMessageFields(otlpMetric.get(7)![0]);
+      const dataPoint = readMessageFields(sum.get(1)![0]);
+      const values = new Map(
+        dataPoint.get(7)!.map((raw) => {
+          const attribute = readMessageFields(raw);
+          return [new TextDecoder().decode(attribute.get(1)![0]), readMessageFields(attribute.get(2)![0])];
+        })
+      );
+      // AnyValue double_value (field 4) and int_value (field 3)
+      expect(new DataView(values.get('ratio')!.get(4)![0].buffer).getFloat64(0, true)).toBe(1.5);
+      expect(values.get('count')!.get(3)![0]).toEqual(new Uint8Array([3]));
+    });
+
+    it('should send non-integer number attributes as doubleValue in JSON', async () => {
+      const exporter = createExporter();
+
+      await exporter.export([{ ...metric, attributes: { ...metric.attributes, ratio: 0.25 } }]);
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+      const attributes = payload.resourceMetrics[0].scopeMetrics[0].metrics[0].sum.dataPoints[0].attributes;
+      expect(attributes).toContainEqual({ key: 'ratio', value: { doubleValue: 0.25 } });
+    });
+
+    it('should produce an empty body for an empty request', () => {
+      expect(encodeMetricsRequest({ resourceMetrics: [] })).toHaveLength(0);
+    });
+  });
+
+  describe('ProtobufWriter', () => {
+    it('should encode varints across multiple bytes', () => {
+      const writer = new ProtobufWriter();
+      writer.varint(1, 300);
+      expect(Array.from(writer.finish())).toEqual([0x08, 0xac, 0x02]);
+    });
+
+    it('should encode negative int64 values as 10-byte varints', () => {
+      const writer = new ProtobufWriter();
+      writer.varint(1, -1);
+      expect(writer.finish()).toHaveLength(11);
+    });
+
+    it('should skip undefined fields', () => {
+      const writer = new ProtobufWriter();
+      writer.string(1, undefined);
+      writer.double(2, undefined);
+      expect(writer.finish()).toHaveLength(0);
+    });
+  });
+
+  describe('gzip compression', () => {
+    it('should gzip the body and set Content-Encoding', async () => {
+      const exporter = createExporter({ compression: 'gzip' });
+
+      await exporter.export([metric]);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+      expect(init.headers['Content-Type']).toBe('application/json');
+      const decompressed = JSON.parse(await gunzip(init.body));
+      expect(decompressed.resourceMetrics[0].scopeMetrics[0].metrics[0].name).toBe(metric.name);
+    });
+
+    it('should apply transport changes from setTransport', async () => {
+      const exporter = createExporter();
+      exporter.setTransport('protobuf', 'gzip');
+
+      await exporter.export([metric]);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers).toEqual({
+        'Content-Type': 'application/x-protobuf',
+        'Content-Encoding': 'gzip',
+      });
+      // gzip magic bytes
+      expect(Array.from((init.body as Uint8Array).slice(0, 2))).toEqual([0x1f, 0x8b]);
+    });
+  });
+
+  describe('custom headers', () => {
+    it('should send custom headers with every export', async () => {
+      const exporter = createExporter({
+        headers: { 'X-Scope-OrgID': 'team-a', Authorization: 'Bearer abc' },
+      });
+
+      await exporter.export([metric]);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers).toEqual({
+        'X-Scope-OrgID': 'team-a',
+        Authorization: 'Bearer abc',
+        'Content-Type': 'application/json',
+      });
+    });
+
+    it('should not let custom headers override Content-Type', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+      exporter.setHeaders({ 'Content-Type': 'text/plain' });
+
+      await exporter.export([metric]);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers['Content-Type']).toBe('application/x-protobuf');
+    });
+  });
+
+  describe('request timeout', () => {
+    it('should abort a request the collector never answers', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+          })
+      );
+      const exporter = createExporter({ maxAttempts: 1 });
+
+      const result = exporter.export([metric]);
+      await vi.advanceTimersByTimeAsync(20 * 1000);
+
+      expect(await result).toBe('failed');
+      vi.useRealTimers();
+    });
+  });
+
+  describe('buildOTLPHeaders', () => {
+    it('should add a bearer Authorization header', () => {
+      expect(buildOTLPHeaders({}, { type: 'bearer', token: 'secret' })).toEqual({
+        Authorization: 'Bearer secret',
+      });
+    });
+
+    it('should add a basic Authorization header', () => {
+      expect(
+        buildOTLPHeaders({}, { type: 'basic', username: 'user', password: 'pass' })
+      ).toEqual({ Authorization: 'Basic dXNlcjpwYXNz' });
+    });
+
+    it('should trim header names and drop empty ones', () => {
+      expect(
+        buildOTLPHeaders({ ' X-Scope-OrgID ': 'team-a', ' ': 'ignored' }, { type: 'none' })
+      ).toEqual({ 'X-Scope-OrgID': 'team-a' });
+    });
+
+    it('should let auth override a manual Authorization header', () => {
+      expect(
+        buildOTLPHeaders({ Authorization: 'manual' }, { type: 'bearer', token: 'secret' })
+      ).toEqual({ Authorization: 'Bearer secret' });
+    });
+  });
+
+  describe('counter aggregation', () => {
+    it('should group data points of the same metric into one OTLP metric', async () => {
+      const exporter = createExporter();
+
+      await exporter.export([
+        { ...metric, value: 3, temporality: 'cumulative', startTimestamp: metric.timestamp - 1000 },
+        { ...metric, value: 1, temporality: 'cumulative', attributes: { machine_id: 'other' } },
+      ]);
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+      const metrics = payload.resourceMetrics[0].scopeMetrics[0].metrics;
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0].sum.dataPoints).toHaveLength(2);
+      expect(metrics[0].sum.aggregationTemporality).toBe(2);
+      expect(metrics[0].sum.dataPoints[0].startTimeUnixNano).toBe(
+        String(metric.timestamp - 1000) + '000000'
+      );
+    });
+
+    it('should mark delta counters with delta temporality', async () => {
+      const exporter = createExporter();
+
+      await exporter.export([{ ...metric, temporality: 'delta' }]);
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(payload.resourceMetrics[0].scopeMetrics[0].metrics[0].sum.aggregationTemporality).toBe(1);
+    });
+  });
+
+  describe('histograms', () => {
+    const histogramMetric: MetricRecord = {
+      name: 'vibe_kanban.active_time.duration_ms',
+      type: 'histogram',
+      value: 6000,
+      timestamp: metric.timestamp,
+      startTimestamp: metric.timestamp - 60000,
+      temporality: 'cumulative',
+      attributes: { machine_id: 'test-machine' },
+      histogram: {
+        count: 2,
+        sum: 6000,
+        min: 1000,
+        max: 5000,
+        explicitBounds: [1000, 5000],
+        bucketCounts: [1, 1, 0],
+      },
+    };
+
+    it('should serialize histograms as OTLP histogram data points', async () => {
+      const exporter = createExporter();
+
+      await exporter.export([histogramMetric]);
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+      const histogram = payload.resourceMetrics[0].scopeMetrics[0].metrics[0].histogram;
+      expect(histogram.aggregationTemporality).toBe(2);
+      expect(histogram.dataPoints[0]).toMatchObject({
+        count: '2',
+        sum: 6000,
+        min: 1000,
+        max: 5000,
+        bucketCounts: ['1', '1', '0'],
+        explicitBounds: [1000, 5000],
+      });
+    });
+
+    it('should encode histograms in protobuf (Metric field 9)', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+
+      await exporter.export([histogramMetric]);
+
+      const request = readMessageFields(fetchMock.mock.calls[0][1].body);
+      const resourceMetrics = readMessageFields(request.get(1)![0]);
+      const scopeMetrics = readMessageFields(resourceMetrics.get(2)![0]);
+      const otlpMetric = readMessageFields(scopeMetrics.get(2)![0]);
+      const histogram = readMessageFields(otlpMetric.get(9)![0]);
+      const dataPoint = readMessageFields(histogram.get(1)![0]);
+      // count (fixed64, field 4)
+      expect(new DataView(dataPoint.get(4)![0].buffer).getBigUint64(0, true)).toBe(2n);
+      // bucket_counts (packed fixed64, field 6): 3 buckets x 8 bytes
+      expect(dataPoint.get(6)![0]).toHaveLength(24);
+    });
+  });
+
+  describe('spans', () => {
+    const span: SpanRecord = {
+      traceId: '0123456789abcdef0123456789abcdef',
+      spanId: '0011223344556677',
+      parentSpanId: '8899aabbccddeeff',
+      name: 'vibe_kanban.task_detail',
+      startTimestamp: metric.timestamp,
+      endTimestamp: metric.timestamp + 3000,
+      attributes: { machine_id: 'test-machine', task_id: 'task-1' },
+    };
+
+    it('should post spans to /v1/traces with the shared resource', async () => {
+      const exporter = createExporter();
+
+      const result = await exporter.exportSpans([span]);
+
+      expect(result).toBe('success');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:4318/v1/traces');
+      const payload = JSON.parse(init.body);
+      expect(payload.resourceSpans[0].resource.attributes).toContainEqual({
+        key: 'host.name',
+        value: { stringValue: 'test-machine' },
+      });
+      expect(payload.resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        name: 'vibe_kanban.task_detail',
+        kind: 1,
+        startTimeUnixNano: String(span.startTimestamp) + '000000',
+        endTimeUnixNano: String(span.endTimestamp) + '000000',
+      });
+    });
+
+    it('should skip the request when there are no spans', async () => {
+      const exporter = createExporter();
+
+      expect(await exporter.exportSpans([])).toBe('success');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should encode span IDs as raw bytes in protobuf', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+
+      await exporter.exportSpans([span]);
+
+      const request = readMessageFields(fetchMock.mock.calls[0][1].body);
+      const resourceSpans = readMessageFields(request.get(1)![0]);
+      const scopeSpans = readMessageFields(resourceSpans.get(2)![0]);
+      const otlpSpan = readMessageFields(scopeSpans.get(2)![0]);
+      expect(otlpSpan.get(1)![0]).toHaveLength(16);
+      expect(Array.from(otlpSpan.get(2)![0])).toEqual([0x00, 0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77]);
+      expect(otlpSpan.get(4)![0]).toHaveLength(8);
+      expect(new TextDecoder().decode(otlpSpan.get(5)![0])).toBe('vibe_kanban.task_detail');
+      // end_time_unix_nano (fixed64, field 8)
+      const endTime = new DataView(otlpSpan.get(8)![0].buffer).getBigUint64(0, true);
+      expect(endTime).toBe(BigInt(span.endTimestamp) * 1000000n);
+    });
+  });
+
+  describe('logs', () => {
+    const record: LogRecord = {
+      eventName: 'vibe_kanban.human_intervention',
+      body: 'Human intervention via button_click (Send)',
+      timestamp: metric.timestamp,
+      observedTimestamp: metric.timestamp + 10,
+      attributes: { machine_id: 'test-machine', button_text: 'Send' },
+      traceId: '0123456789abcdef0123456789abcdef',
+      spanId: '0011223344556677',
+    };
+
+    it('should post log records to /v1/logs with the shared resource', async () => {
+      const exporter = createExporter();
+
+      expect(await exporter.exportLogs([record])).toBe('success');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:4318/v1/logs');
+      const payload = JSON.parse(init.body);
+      expect(payload.resourceLogs[0].resource.attributes).toContainEqual({
+        key: 'service.name',
+        value: { stringValue: 'vibe-kanban-tracker' },
+      });
+      const logRecord = payload.resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(logRecord).toMatchObject({
+        timeUnixNano: String(record.timestamp) + '000000',
+        observedTimeUnixNano: String(record.observedTimestamp) + '000000',
+        severityNumber: 9,
+        body: { stringValue: record.body },
+        traceId: record.traceId,
+        spanId: record.spanId,
+      });
+      expect(logRecord.attributes).toContainEqual({
+        key: 'event.name',
+        value: { stringValue: 'vibe_kanban.human_intervention' },
+      });
+      expect(logRecord.attributes).toContainEqual({
+        key: 'button_text',
+        value: { stringValue: 'Send' },
+      });
+    });
+
+    it('should encode log records in protobuf', async () => {
+      const exporter = createExporter({ encoding: 'protobuf' });
+
+      await exporter.exportLogs([record]);
+
+      const request = readMessageFields(fetchMock.mock.calls[0][1].body);
+      const resourceLogs = readMessageFields(request.get(1)![0]);
+      const scopeLogs = readMessageFields(resourceLogs.get(2)![0]);
+      const logRecord = readMessageFields(scopeLogs.get(2)![0]);
+      // body (AnyValue, field 5) -> string_value (field 1)
+      const body = readMessageFields(logRecord.get(5)![0]);
+      expect(new TextDecoder().decode(body.get(1)![0])).toBe(record.body);
+      expect(logRecord.get(6)).toHaveLength(3);
+      expect(logRecord.get(9)![0]).toHaveLength(16);
+      expect(logRecord.get(10)![0]).toHaveLength(8);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for PrometheusRemoteWriteExporter
+ * Tests metric name mapping, series/label formatting and snappy compression
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PrometheusRemoteWriteExporter,
+  toPrometheusName,
+} from '../../../src/background/prometheus-exporter';
+import { snappyCompress } from '../../../src/background/snappy';
+import type { MetricRecord } from '../../../src/background/metrics-collector';
+import { snappyDecompress, decodeWriteRequest } from '../../fixtures/remote-write';
+
+describe('toPrometheusName', () => {
+  it('should map counters to _total names', () => {
+    expect(toPrometheusName('vibe_kanban.human_intervention.count', 'counter')).toBe(
+      'vibe_kanban_human_intervention_total'
+    );
+    expect(toPrometheusName('vibe_kanban.scroll.distance_px', 'counter')).toBe(
+      'vibe_kanban_scroll_distance_px_total'
+    );
+  });
+
+  it('should keep gauge and histogram names apart from invalid characters', () => {
+    expect(toPrometheusName('vibe_kanban.projects.count', 'gauge')).toBe('vibe_kanban_projects_count');
+    expect(toPrometheusName('vibe_kanban.active_time.duration_ms', 'histogram')).toBe(
+      'vibe_kanban_active_time_duration_ms'
+    );
+    expect(toPrometheusName('9lives-metric', 'gauge')).toBe('_9lives_metric');
+  });
+});
+
+describe('snappyCompress', () => {
+  // Copy into this realm's Uint8Array (jsdom's TextEncoder returns a foreign one)
+  const bytes = (text: string) => Uint8Array.from(new TextEncoder().encode(text));
+
+  it('should round-trip empty input', () => {
+    expect(snappyDecompress(snappyCompress(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+  });
+
+  it('should round-trip short literals', () => {
+    const input = bytes('abc');
+    expect(snappyDecompress(snappyCompress(input))).toEqual(input);
+  });
+
+  it('should compress repeated data with back-references', () => {
+    const input = bytes('vibe_kanban_human_intervention_total;'.repeat(200));
+
+    const compressed = snappyCompress(input);
+
+    expect(compressed.length).toBeLessThan(input.length / 10);
+    expect(snappyDecompress(compressed)).toEqual(input);
+  });
+
+  it('should round-trip long literals and far copies', () => {
+    // Pseudo-random block (no matches) repeated after more than 2048 bytes
+    const block = new Uint8Array(3000);
+    let seed = 42;
+    for (let i = 0; i < block.length; i++) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      block[i] = seed >>> 24;
+    }
+    const input = new Uint8Array(block.length * 2);
+    input.set(block, 0);
+    input.set(block, block.length);
+
+    expect(snappyDecompress(snappyCompress(input))).toEqual(input);
+  });
+});
+
+describe('PrometheusRemoteWriteExporter', () => {
+  const endpoint = 'http://localhost:9090/api/v1/write';
+  const timestamp = Date.parse('2025-01-11T12:00:00Z');
+  let exporter: PrometheusRemoteWriteExporter;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => ({ ok: true, status: 204 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    exporter = new PrometheusRemoteWriteExporter({
+      endpoint,
+      serviceName: 'vibe-kanban-tracker',
+      machineId: 'test-machine',
+      headers: { Authorization: 'Bearer secret' },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function exportAndDecode(metrics: MetricRecord[]) {
+    expect(await exporter.export(metrics)).toBe('success');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(endpoint);
+    return decodeWriteRequest(snappyDecompress(init.body as Uint8Array));
+  }
+
+  it('should not send a request without metrics', async () => {
+    expect(await exporter.export([])).toBe('success');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should send remote-write headers alongside custom headers', async () => {
+    await exporter.export([
+      { name: 'vibe_kanban.projects.count', type: 'gauge', value: 2, timestamp, attributes: {} },
+    ]);
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      Authorization: 'Bearer secret',
+      'Content-Type': 'application/x-protobuf',
+      'Content-Encoding': 'snappy',
+      'X-Prometheus-Remote-Write-Version': '0.1.0',
+    });
+  });
+
+  it('should encode a counter as a labelled series', async () => {
+    const request = await exportAndDecode([
+      {
+        name: 'vibe_kanban.human_intervention.count',
+        type: 'counter',
+        value: 5,
+        timestamp,
+        attributes: { machine_id: 'test-machine', 'route.type': 'task_detail' },
+        temporality: 'cumulative',
+      },
+    ]);
+
+    expect(request.timeseries).toEqual([
+      {
+        labels: {
+          __name__: 'vibe_kanban_human_intervention_total',
+          instance: 'test-machine',
+          job: 'vibe-kanban-tracker',
+          machine_id: 'test-machine',
+          route_type: 'task_detail',
+        },
+        samples: [{ value: 5, timestamp }],
+      },
+    ]);
+    expect(Object.keys(request.timeseries[0].labels)).toEqual(
+      [...Object.keys(request.timeseries[0].labels)].sort()
+    );
+    expect(request.metadata).toEqual([
+      { type: 1, metricFamilyName: 'vibe_kanban_human_intervention_total' },
+    ]);
+  });
+
+  it('should expand histograms into cumulative buckets, sum and count', async () => {
+    const request = await exportAndDecode([
+      {
+        name: 'vibe_kanban.active_time.duration_ms',
+        type: 'histogram',
+        value: 7000,
+        timestamp,
+        attributes: {},
+        temporality: 'cumulative',
+        histogram: {
+          count: 3,
+          sum: 7000,
+          min: 500,
+          max: 5000,
+          explicitBounds: [1000, 5000],
+          bucketCounts: [1, 2, 0],
+        },
+      },
+    ]);
+
+    const values = Object.fromEntries(
+      request.timeseries.map((series) => [
+        series.labels.__name__ + (series.labels.le ? '{le=' + series.labels.le + '}' : ''),
+        series.samples[0].value,
+      ])
+    );
+    expect(values).toEqual({
+      'vibe_kanban_active_time_duration_ms_bucket{le=1000}': 1,
+      'vibe_kanban_active_time_duration_ms_bucket{le=5000}': 3,
+      'vibe_kanban_active_time_duration_ms_bucket{le=+Inf}': 3,
+      vibe_kanban_active_time_duration_ms_sum: 7000,
+      vibe_kanban_active_time_duration_ms_count: 3,
+    });
+  });
+
+  it('should merge points of one series in timestamp order', async () => {
+    const gauge = (value: number, at: number): MetricRecord => ({
+      name: 'vibe_kanban.tasks.count',
+      type: 'gauge',
+      value,
+      timestamp: at,
+      attributes: { status: 'todo' },
+    });
+
+    const request = await exportAndDecode([
+      gauge(4, timestamp + 60000),
+      gauge(3, timestamp),
+      gauge(5, timestamp + 60000),
+    ]);
+
+    expect(request.timeseries).toHaveLength(1);
+    expect(request.timeseries[0].samples).toEqual([
+      { value: 3, timestamp },
+      { value: 5, timestamp: timestamp + 60000 },
+    ]);
+  });
+});
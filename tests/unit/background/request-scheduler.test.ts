@@ -0,0 +1,118 @@
+/**
+ * Unit tests for RequestScheduler
+ * Tests the concurrency limit, in-flight deduplication and per-request timeouts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RequestScheduler } from '../../../src/background/request-scheduler';
+
+/**
+ * A request that stays pending until resolved from the test
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('RequestScheduler', () => {
+  let scheduler: RequestScheduler;
+
+  beforeEach(() => {
+    scheduler = new RequestScheduler({ concurrency: 2, timeoutMs: 5000 });
+  });
+
+  it('should run at most the concurrency limit at once, in FIFO order', async () => {
+    const requests = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+
+    const results = requests.map((request, index) =>
+      scheduler.run('/r' + index, () => {
+        started.push(index);
+        return request.promise;
+      })
+    );
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.getStats()).toEqual({ active: 2, queued: 1, inFlight: 3 });
+
+    requests[0].resolve('a');
+    await results[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    requests[1].resolve('b');
+    requests[2].resolve('c');
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: 0, inFlight: 0 });
+  });
+
+  it('should share an in-flight request with the same key', async () => {
+    const request = deferred<string>();
+    const send = vi.fn(() => request.promise);
+
+    const first = scheduler.run('/api/projects', send);
+    const second = scheduler.run('/api/projects', send);
+    request.resolve('projects');
+
+    expect(await first).toBe('projects');
+    expect(await second).toBe('projects');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send again once the shared request has settled', async () => {
+    const send = vi.fn(async () => 'projects');
+
+    await scheduler.run('/api/projects', send);
+    await scheduler.run('/api/projects', send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should free the slot and the key when a request fails', async () => {
+    await expect(
+      scheduler.run('/api/projects', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: 0, inFlight: 0 });
+  });
+
+  it('should abort a request after the timeout', async () => {
+    let signal!: AbortSignal;
+    const result = scheduler.run('/slow', (requestSignal) => {
+      signal = requestSignal;
+      return new Promise<string>((_resolve, reject) => {
+        requestSignal.addEventListener('abort', () => reject(requestSignal.reason));
+      });
+    });
+    await Promise.resolve();
+    expect(signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(5000);
+
+    await expect(result).rejects.toThrow('Request timed out after 5000 ms');
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should start queued requests when the limit is raised', async () => {
+    const requests = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+    requests.forEach((request, index) =>
+      scheduler.run('/r' + index, () => {
+        started.push(index);
+        return request.promise;
+      })
+    );
+    await Promise.resolve();
+
+    scheduler.setLimits({ concurrency: 3, timeoutMs: 5000 });
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
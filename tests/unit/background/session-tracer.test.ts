@@ -0,0 +1,158 @@
+/**
+ * Unit tests for SessionTracer
+ * Tests session root spans, task/view child spans and queue handling
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionTracer, type SpanRecord } from '../../../src/background/session-tracer';
+import { testRoutes, createTestRoute } from '../../fixtures/routes';
+
+describe('SessionTracer', () => {
+  let tracer: SessionTracer;
+  const machineId = 'test-machine';
+  const startTime = Date.parse('2025-01-11T12:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(startTime));
+    tracer = new SessionTracer();
+  });
+
+  function byName(spans: SpanRecord[], name: string): SpanRecord[] {
+    return spans.filter((span) => span.name === name);
+  }
+
+  describe('sessions', () => {
+    it('should emit a root span covering the active period', () => {
+      tracer.startSession(testRoutes.taskBoard, machineId);
+      vi.advanceTimersByTime(5000);
+      tracer.endSession();
+
+      const spans = tracer.flush();
+      expect(spans).toHaveLength(1);
+      expect(spans[0].name).toBe('vibe_kanban.session');
+      expect(spans[0].parentSpanId).toBeUndefined();
+      expect(spans[0].traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(spans[0].spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(spans[0].startTimestamp).toBe(startTime);
+      expect(spans[0].endTimestamp).toBe(startTime + 5000);
+      expect(spans[0].attributes).toEqual({ machine_id: machineId, route_type: 'task_board' });
+    });
+
+    it('should not emit spans before the session ends', () => {
+      tracer.startSession(testRoutes.taskDetail, machineId);
+
+      expect(tracer.flush()).toHaveLength(0);
+      expect(tracer.isSessionActive()).toBe(true);
+    });
+
+    it('should use a new trace for each session', () => {
+      tracer.startSession(testRoutes.taskBoard, machineId);
+      tracer.endSession();
+      tracer.startSession(testRoutes.taskBoard, machineId);
+      tracer.endSession();
+
+      const [first, second] = tracer.flush();
+      expect(first.traceId).not.toBe(second.traceId);
+    });
+
+    it('should ignore navigation outside a session', () => {
+      tracer.navigate(testRoutes.taskDetail, machineId);
+      tracer.endSession();
+
+      expect(tracer.flush()).toHaveLength(0);
+    });
+  });
+
+  describe('child spans', () => {
+    it('should emit a task_detail span parented to the session', () => {
+      tracer.startSession(testRoutes.taskBoard, machineId);
+      vi.advanceTimersByTime(1000);
+      tracer.navigate(testRoutes.taskDetail, machineId);
+      vi.advanceTimersByTime(3000);
+      tracer.navigate(testRoutes.taskBoard, machineId);
+      tracer.endSession();
+
+      const spans = tracer.flush();
+      const [root] = byName(spans, 'vibe_kanban.session');
+      const [task] = byName(spans, 'vibe_kanban.task_detail');
+      expect(task.traceId).toBe(root.traceId);
+      expect(task.parentSpanId).toBe(root.spanId);
+      expect(task.endTimestamp - task.startTimestamp).toBe(3000);
+      expect(task.attributes.task_id).toBe(testRoutes.taskDetail.taskId);
+      expect(task.attributes.project_id).toBe(testRoutes.taskDetail.projectId);
+    });
+
+    it('should start a task span for the route the session starts on', () => {
+      tracer.startSession(testRoutes.taskDetail, machineId);
+      tracer.endSession();
+
+      expect(byName(tracer.flush(), 'vibe_kanban.task_detail')).toHaveLength(1);
+    });
+
+    it('should keep one task span while only the view changes', () => {
+      tracer.startSession(testRoutes.taskDetail, machineId);
+      tracer.navigate(testRoutes.taskDetailWithDiffs, machineId);
+      tracer.navigate(testRoutes.taskDetailWithPreview, machineId);
+      tracer.navigate(testRoutes.taskDetail, machineId);
+      tracer.endSession();
+
+      const spans = tracer.flush();
+      const tasks = byName(spans, 'vibe_kanban.task_detail');
+      expect(tasks).toHaveLength(1);
+      expect(byName(spans, 'vibe_kanban.view.diffs')[0].parentSpanId).toBe(tasks[0].spanId);
+      expect(byName(spans, 'vibe_kanban.view.preview')[0].parentSpanId).toBe(tasks[0].spanId);
+    });
+
+    it('should start a new task span when switching tasks', () => {
+      tracer.startSession(testRoutes.taskDetail, machineId);
+      tracer.navigate(createTestRoute({ taskId: 'other-task' }), machineId);
+      tracer.endSession();
+
+      const tasks = byName(tracer.flush(), 'vibe_kanban.task_detail');
+      expect(tasks.map((span) => span.attributes.task_id)).toEqual([
+        testRoutes.taskDetail.taskId,
+        'other-task',
+      ]);
+    });
+
+    it('should end open child spans with the session', () => {
+      tracer.startSession(testRoutes.taskDetailWithDiffs, machineId);
+      vi.advanceTimersByTime(2000);
+      tracer.endSession();
+
+      const spans = tracer.flush();
+      expect(spans.map((span) => span.name)).toEqual([
+        'vibe_kanban.view.diffs',
+        'vibe_kanban.task_detail',
+        'vibe_kanban.session',
+      ]);
+      expect(spans.every((span) => span.endTimestamp === startTime + 2000)).toBe(true);
+    });
+  });
+
+  describe('getSpanContext', () => {
+    it('should return the innermost open span', () => {
+      expect(tracer.getSpanContext()).toBeNull();
+
+      tracer.startSession(testRoutes.taskDetailWithPreview, machineId);
+      const context = tracer.getSpanContext();
+      tracer.endSession();
+
+      const [view] = byName(tracer.flush(), 'vibe_kanban.view.preview');
+      expect(context).toEqual({ traceId: view.traceId, spanId: view.spanId });
+    });
+  });
+
+  describe('queue', () => {
+    it('should restore spans after a failed export', () => {
+      tracer.startSession(testRoutes.taskBoard, machineId);
+      tracer.endSession();
+      const spans = tracer.flush();
+
+      tracer.restore(spans);
+
+      expect(tracer.flush()).toEqual(spans);
+    });
+  });
+});
@@ -194,6 +194,146 @@ describe('StateMachine', () => {
     });
   });
 
+  describe('State Transitions - SYSTEM_STATE', () => {
+    it('should stay active past the idle timeout while the browser reports input', () => {
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'active' });
+      stateMachine.transition({ type: 'FOCUS' });
+      vi.advanceTimersByTime(DEFAULT_IDLE_TIMEOUT + 1000);
+
+      stateMachine.transition({ type: 'IDLE_TIMEOUT' });
+
+      expect(stateMachine.getState().currentState).toBe('active');
+    });
+
+    it('should go idle when the browser reports idle after the idle timeout', () => {
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'active' });
+      stateMachine.transition({ type: 'FOCUS' });
+      vi.advanceTimersByTime(DEFAULT_IDLE_TIMEOUT + 1000);
+
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'idle' });
+
+      expect(stateMachine.getState().currentState).toBe('idle');
+    });
+
+    it('should wait for the idle timeout when the browser reports idle earlier', () => {
+      stateMachine.transition({ type: 'FOCUS' });
+      vi.advanceTimersByTime(15000);
+
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'idle' });
+      expect(stateMachine.getState().currentState).toBe('active');
+
+      vi.advanceTimersByTime(DEFAULT_IDLE_TIMEOUT);
+      stateMachine.transition({ type: 'IDLE_TIMEOUT' });
+      expect(stateMachine.getState().currentState).toBe('idle');
+    });
+
+    it('should transition from active or idle to locked when the screen locks', () => {
+      stateMachine.transition({ type: 'FOCUS' });
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'locked' });
+
+      expect(stateMachine.getState().currentState).toBe('locked');
+    });
+
+    it('should stay unfocused when the screen locks', () => {
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'locked' });
+
+      expect(stateMachine.getState().currentState).toBe('unfocused');
+    });
+
+    it('should transition from locked to active when the screen unlocks', () => {
+      stateMachine.transition({ type: 'FOCUS' });
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'locked' });
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'active' });
+
+      expect(stateMachine.getState().currentState).toBe('active');
+      expect(stateMachine.getState().lastActivityTime).toBe(Date.now());
+    });
+
+    it('should transition from locked to unfocused on BLUR', () => {
+      stateMachine.transition({ type: 'FOCUS' });
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'locked' });
+
+      stateMachine.transition({ type: 'BLUR' });
+
+      expect(stateMachine.getState().currentState).toBe('unfocused');
+    });
+  });
+
+  describe('Sub-States', () => {
+    it('should be waiting on agent while focused on a task with an attempt in progress', () => {
+      stateMachine.transition({ type: 'NAVIGATE', route: testRoutes.taskDetail });
+      stateMachine.transition({ type: 'AGENT_STATUS', running: true });
+      stateMachine.transition({ type: 'FOCUS' });
+      expect(stateMachine.getState().subState).toBe('waiting_on_agent');
+
+      // Watching without touching the page
+      vi.advanceTimersByTime(DEFAULT_IDLE_TIMEOUT + 1000);
+      stateMachine.transition({ type: 'IDLE_TIMEOUT' });
+      expect(stateMachine.getState()).toMatchObject({ currentState: 'idle', subState: 'waiting_on_agent' });
+
+      stateMachine.transition({ type: 'BLUR' });
+      expect(stateMachine.getState().subState).toBeNull();
+    });
+
+    it('should stop waiting when the attempt finishes or the route moves to another task', () => {
+      stateMachine.transition({ type: 'NAVIGATE', route: testRoutes.taskDetail });
+      stateMachine.transition({ type: 'AGENT_STATUS', running: true });
+      stateMachine.transition({ type: 'FOCUS' });
+
+      stateMachine.transition({ type: 'NAVIGATE', route: { ...testRoutes.taskDetail, taskId: 'other-task' } });
+      expect(stateMachine.getState().subState).toBeNull();
+
+      stateMachine.transition({ type: 'AGENT_STATUS', running: true });
+      stateMachine.transition({ type: 'AGENT_STATUS', running: false });
+      expect(stateMachine.getState().subState).toBeNull();
+    });
+
+    it('should be reviewing on the diffs view with low but non-zero activity', () => {
+      stateMachine.transition({ type: 'NAVIGATE', route: testRoutes.taskDetailWithDiffs });
+      stateMachine.transition({ type: 'FOCUS' });
+      expect(stateMachine.getState().subState).toBeNull();
+
+      stateMachine.transition({ type: 'ACTIVITY' });
+      expect(stateMachine.getState().subState).toBe('reviewing');
+
+      // Continuous input (e.g. typing a follow-up) is more than reviewing
+      for (let i = 0; i < 30; i++) {
+        vi.advanceTimersByTime(1000);
+        stateMachine.transition({ type: 'ACTIVITY' });
+      }
+      expect(stateMachine.getState().subState).toBeNull();
+    });
+
+    it('should stop reviewing once the activity window is empty', () => {
+      // The browser reports input, so the state stays active past the idle timeout
+      stateMachine.transition({ type: 'SYSTEM_STATE', state: 'active' });
+      stateMachine.transition({ type: 'NAVIGATE', route: testRoutes.taskDetailWithDiffs });
+      stateMachine.transition({ type: 'FOCUS' });
+      stateMachine.transition({ type: 'ACTIVITY' });
+      stateMachine.startIdleCheck();
+
+      vi.advanceTimersByTime(65000);
+
+      expect(stateMachine.getState()).toMatchObject({ currentState: 'active', subState: null });
+    });
+
+    it('should call the sub-state callback with the previous and next sub-state', () => {
+      const callback = vi.fn();
+      stateMachine.setOnSubStateChange(callback);
+      stateMachine.transition({ type: 'NAVIGATE', route: testRoutes.taskDetailWithDiffs });
+      stateMachine.transition({ type: 'FOCUS' });
+      stateMachine.transition({ type: 'ACTIVITY' });
+      stateMachine.transition({ type: 'BLUR' });
+
+      expect(callback.mock.calls.map(([prev, next]) => [prev, next])).toEqual([
+        [null, 'reviewing'],
+        ['reviewing', null],
+      ]);
+    });
+  });
+
   describe('State Transitions - NAVIGATE', () => {
     it('should update currentRoute without changing state', () => {
       const route = testRoutes.taskDetail;
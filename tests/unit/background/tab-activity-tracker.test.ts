@@ -0,0 +1,142 @@
+/**
+ * Unit tests for TabActivityTracker
+ * Tests per-tab state, focus moving between tabs, the combined state and closed tabs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabActivityTracker } from '../../../src/background/tab-activity-tracker';
+import type { ActivityState } from '../../../src/background/state-machine';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('TabActivityTracker', () => {
+  let tracker: TabActivityTracker;
+  let tabChanges: Array<{ tabId: number; from: ActivityState; to: ActivityState; route: string | undefined }>;
+  let combinedChanges: Array<{ from: ActivityState; to: ActivityState }>;
+  const IDLE_TIMEOUT = 60000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-11T12:00:00Z'));
+    tracker = new TabActivityTracker(IDLE_TIMEOUT);
+    tabChanges = [];
+    combinedChanges = [];
+    tracker.setOnTabStateChange((tabId, from, to, context) => {
+      tabChanges.push({ tabId, from, to, route: context.currentRoute?.taskId });
+    });
+    tracker.setOnCombinedStateChange((from, to) => {
+      combinedChanges.push({ from, to });
+    });
+  });
+
+  afterEach(() => {
+    tracker.stopIdleCheck();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Navigate a tab to a route and focus it
+   */
+  function focusTab(tabId: number, route = testRoutes.taskDetail): void {
+    tracker.transition(tabId, { type: 'NAVIGATE', route });
+    tracker.transition(tabId, { type: 'FOCUS' });
+  }
+
+  it('should keep one tab active when another tab blurs', () => {
+    focusTab(1);
+    tracker.transition(2, { type: 'BLUR' });
+
+    expect(tracker.getTabState(1)?.currentState).toBe('active');
+    expect(tracker.getState().currentState).toBe('active');
+  });
+
+  it('should blur the previously focused tab when focus moves to another tab', () => {
+    const otherTask = { ...testRoutes.taskDetail, taskId: 'other-task' };
+    focusTab(1);
+    focusTab(2, otherTask);
+
+    expect(tabChanges).toEqual([
+      { tabId: 1, from: 'unfocused', to: 'active', route: testRoutes.taskDetail.taskId },
+      { tabId: 1, from: 'active', to: 'unfocused', route: testRoutes.taskDetail.taskId },
+      { tabId: 2, from: 'unfocused', to: 'active', route: 'other-task' },
+    ]);
+    expect(tracker.getState().currentRoute?.taskId).toBe('other-task');
+  });
+
+  it('should not pass through unfocused when focus moves between tabs', () => {
+    focusTab(1);
+    focusTab(2);
+    // Late BLUR of the tab that lost focus
+    tracker.transition(1, { type: 'BLUR' });
+
+    expect(combinedChanges).toEqual([{ from: 'unfocused', to: 'active' }]);
+  });
+
+  it('should keep each tab on its own route', () => {
+    const otherTask = { ...testRoutes.taskDetail, taskId: 'other-task' };
+    focusTab(1);
+    tracker.transition(2, { type: 'NAVIGATE', route: otherTask });
+
+    expect(tracker.getTabState(1)?.currentRoute?.taskId).toBe(testRoutes.taskDetail.taskId);
+    expect(tracker.getTabState(2)?.currentRoute?.taskId).toBe('other-task');
+  });
+
+  it('should go idle per tab and combine idle tabs', () => {
+    tracker.startIdleCheck();
+    focusTab(1);
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT + 5000);
+
+    expect(tracker.getTabState(1)?.currentState).toBe('idle');
+    expect(combinedChanges).toEqual([
+      { from: 'unfocused', to: 'active' },
+      { from: 'active', to: 'idle' },
+    ]);
+  });
+
+  it('should end the session of a closed tab', () => {
+    focusTab(1);
+    tracker.removeTab(1);
+
+    expect(tabChanges[tabChanges.length - 1]).toEqual({
+      tabId: 1,
+      from: 'active',
+      to: 'unfocused',
+      route: testRoutes.taskDetail.taskId,
+    });
+    expect(tracker.getTabState(1)).toBeNull();
+    expect(tracker.getState()).toMatchObject({ currentState: 'unfocused', currentRoute: null });
+  });
+
+  it('should lock focused tabs and pass the browser idle state to new tabs', () => {
+    focusTab(1);
+    tracker.setSystemState('locked');
+
+    expect(tracker.getState().currentState).toBe('locked');
+
+    tracker.setSystemState('active');
+    tracker.startIdleCheck();
+    focusTab(2);
+    vi.advanceTimersByTime(IDLE_TIMEOUT + 5000);
+
+    // The browser still reports input, so the new tab stays active past the idle timeout
+    expect(tracker.getTabState(2)?.currentState).toBe('active');
+  });
+
+  it('should check the agent status of a tab on navigation and snapshot changes', () => {
+    let running = true;
+    tracker.setAgentRunningCheck((route) => running && route.taskId === testRoutes.taskDetail.taskId);
+    focusTab(1);
+    expect(tracker.getTabState(1)?.subState).toBe('waiting_on_agent');
+
+    running = false;
+    tracker.refreshAgentStatus();
+    expect(tracker.getState().subState).toBeNull();
+  });
+
+  it('should list tracked tabs', () => {
+    focusTab(1);
+    tracker.transition(2, { type: 'BLUR' });
+
+    expect(Object.keys(tracker.getTabStates())).toEqual(['1', '2']);
+  });
+});
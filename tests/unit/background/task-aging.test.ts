@@ -0,0 +1,43 @@
+/**
+ * Unit tests for task aging
+ * Tests time in status (observed or from updated_at) and per-status staleness thresholds
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTaskAge } from '../../../src/background/task-aging';
+import type { Task } from '../../../src/background/api-client';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getTaskAge', () => {
+  const thresholds = { todo: 0, inprogress: 24, inreview: 48 };
+
+  function task(status: Task['status'], updatedAt: string): Task {
+    return {
+      id: 't1',
+      title: 'Fix login',
+      status,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: updatedAt,
+      has_in_progress_attempt: false,
+      last_attempt_failed: false,
+    };
+  }
+
+  it('should prefer the observed time the task entered its status', () => {
+    const age = getTaskAge(task('inreview', '2025-01-11T11:00:00Z'), Date.parse('2025-01-08T12:00:00Z'), thresholds);
+
+    expect(age).toEqual({ statusAgeMs: 72 * HOUR, stale: true });
+  });
+
+  it('should fall back to updated_at when the status change was not observed', () => {
+    const age = getTaskAge(task('inprogress', '2025-01-11T00:00:00Z'), null, thresholds);
+
+    expect(age).toEqual({ statusAgeMs: 12 * HOUR, stale: false });
+  });
+
+  it('should never mark tasks stale in statuses without a threshold', () => {
+    expect(getTaskAge(task('todo', '2024-01-01T00:00:00Z'), null, thresholds).stale).toBe(false);
+    expect(getTaskAge(task('done', '2024-01-01T00:00:00Z'), null, thresholds).stale).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for TaskEffortLedger
+ * Tests per-task accumulation, closing entries and retention pruning
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TaskEffortLedger } from '../../../src/background/task-effort-ledger';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('TaskEffortLedger', () => {
+  const taskRoute = { ...testRoutes.taskDetail, instance: 'Local' };
+  const taskId = testRoutes.taskDetail.taskId!;
+  let ledger: TaskEffortLedger;
+
+  beforeEach(() => {
+    ledger = new TaskEffortLedger();
+  });
+
+  it('should accumulate effort per task', () => {
+    ledger.record(taskRoute, { activeTimeMs: 60000 });
+    vi.advanceTimersByTime(1000);
+    ledger.record(taskRoute, { messagesSent: 1, interventions: 1 });
+    ledger.record({ ...taskRoute, view: 'diffs' }, { viewTimeMs: 5000, activeTimeMs: 30000 });
+    ledger.record(taskRoute, { charactersTyped: 42 });
+
+    expect(ledger.complete('Local', taskId)).toEqual({
+      instance: 'Local',
+      projectId: testRoutes.taskDetail.projectId,
+      taskId,
+      activeTimeMs: 90000,
+      messagesSent: 1,
+      charactersTyped: 42,
+      viewTimeMs: 5000,
+      interventions: 1,
+      firstActivityAt: Date.parse('2025-01-11T12:00:00Z'),
+      lastActivityAt: Date.parse('2025-01-11T12:00:01Z'),
+    });
+  });
+
+  it('should ignore routes without a task', () => {
+    ledger.record({ ...testRoutes.taskBoard, instance: 'Local' }, { activeTimeMs: 60000 });
+    ledger.record(testRoutes.taskDetail, { activeTimeMs: 60000 });
+
+    expect(ledger.getOpenTaskCount()).toBe(0);
+  });
+
+  it('should keep tasks of different instances apart and close an entry once', () => {
+    ledger.record(taskRoute, { messagesSent: 1 });
+    ledger.record({ ...taskRoute, instance: 'Remote' }, { messagesSent: 2 });
+
+    expect(ledger.complete('Remote', taskId)?.messagesSent).toBe(2);
+    expect(ledger.complete('Remote', taskId)).toBeNull();
+    expect(ledger.getOpenTaskCount()).toBe(1);
+  });
+
+  it('should drop entries without activity within the retention period', () => {
+    ledger.record(taskRoute, { messagesSent: 1 });
+    vi.advanceTimersByTime(89 * 24 * 60 * 60 * 1000);
+    ledger.record({ ...taskRoute, taskId: 'recent' }, { messagesSent: 1 });
+    vi.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+
+    expect(ledger.prune()).toBe(1);
+    expect(Object.keys(ledger.getState())).toEqual(['Local/recent']);
+  });
+});
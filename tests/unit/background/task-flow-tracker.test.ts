@@ -0,0 +1,221 @@
+/**
+ * Unit tests for TaskFlowTracker
+ * Tests transition detection, time in status, lead and cycle time, finished attempts and state pruning
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TaskFlowTracker } from '../../../src/background/task-flow-tracker';
+import type { InstanceSnapshot } from '../../../src/background/task-snapshot-store';
+import type { Project, Task, TaskAttempt } from '../../../src/background/api-client';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('TaskFlowTracker', () => {
+  const project: Project = { id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' };
+  let tracker: TaskFlowTracker;
+
+  function task(id: string, status: Task['status'], createdAt: string, updatedAt = createdAt): Task {
+    return {
+      id,
+      title: 'Task ' + id,
+      status,
+      created_at: createdAt,
+      updated_at: updatedAt,
+      has_in_progress_attempt: false,
+      last_attempt_failed: false,
+    };
+  }
+
+  function attempt(id: string, status: TaskAttempt['status'], completedAt: string | null = null): TaskAttempt {
+    return {
+      id,
+      task_id: 't1',
+      branch: 'vk/' + id,
+      executor: 'CLAUDE_CODE',
+      status,
+      completed_at: completedAt,
+      created_at: '2025-01-11T10:00:00Z',
+      updated_at: '2025-01-11T10:00:00Z',
+    };
+  }
+
+  function snapshot(tasks: Task[], instanceId = 'local', attempts: Record<string, TaskAttempt[]> = {}): InstanceSnapshot {
+    return {
+      instance: { id: instanceId, name: 'Local', url: 'http://localhost:3069', enabled: true },
+      projects: [project],
+      tasks: { p1: tasks },
+      attempts,
+      fetchedAt: Date.now(),
+      error: null,
+    };
+  }
+
+  /**
+   * Move the clock and observe the tasks
+   */
+  function observeAt(time: string, tasks: Task[], attempts: Record<string, TaskAttempt[]> = {}) {
+    vi.setSystemTime(new Date(time));
+    return tracker.observe(snapshot(tasks, 'local', attempts));
+  }
+
+  beforeEach(() => {
+    tracker = new TaskFlowTracker();
+  });
+
+  it('should track newly seen tasks without reporting transitions', () => {
+    const { transitions, changed } = observeAt('2025-01-11T12:00:00Z', [
+      task('t1', 'todo', '2025-01-10T12:00:00Z'),
+      task('t2', 'inreview', '2025-01-10T12:00:00Z'),
+    ]);
+
+    expect(transitions).toEqual([]);
+    expect(changed).toBe(true);
+    expect(tracker.getState().tasks).toEqual({
+      'local/t1': {
+        status: 'todo',
+        since: Date.parse('2025-01-10T12:00:00Z'),
+        startedAt: null,
+        createdAt: Date.parse('2025-01-10T12:00:00Z'),
+        finishedAttemptIds: null,
+      },
+      // Entered inreview before tracking started
+      'local/t2': {
+        status: 'inreview',
+        since: null,
+        startedAt: null,
+        createdAt: Date.parse('2025-01-10T12:00:00Z'),
+        finishedAttemptIds: null,
+      },
+    });
+  });
+
+  it('should report transitions with time in status, lead time and cycle time', () => {
+    const created = '2025-01-11T08:00:00Z';
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'todo', created)]);
+
+    const started = observeAt('2025-01-11T14:00:00Z', [task('t1', 'inprogress', created, '2025-01-11T13:00:00Z')]);
+    observeAt('2025-01-11T18:00:00Z', [task('t1', 'inreview', created, '2025-01-11T17:00:00Z')]);
+    const done = observeAt('2025-01-11T20:00:00Z', [task('t1', 'done', created, '2025-01-11T19:00:00Z')]);
+
+    expect(started.transitions).toHaveLength(1);
+    expect(started.transitions[0]).toMatchObject({
+      from: 'todo',
+      to: 'inprogress',
+      timeInStatusMs: 5 * HOUR,
+      leadTimeMs: null,
+      cycleTimeMs: null,
+    });
+    expect(done.transitions[0]).toMatchObject({
+      from: 'inreview',
+      to: 'done',
+      at: Date.parse('2025-01-11T19:00:00Z'),
+      timeInStatusMs: 2 * HOUR,
+      leadTimeMs: 11 * HOUR,
+      cycleTimeMs: 6 * HOUR,
+    });
+  });
+
+  it('should date a transition within the time since the previous observation', () => {
+    const created = '2025-01-11T08:00:00Z';
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'todo', created)]);
+
+    // updated_at before the previous observation (e.g. clock skew): moved no earlier than then
+    const { transitions } = observeAt('2025-01-11T14:00:00Z', [task('t1', 'inprogress', created, '2025-01-11T10:00:00Z')]);
+
+    expect(transitions[0].at).toBe(Date.parse('2025-01-11T12:00:00Z'));
+  });
+
+  it('should not report cycle time when the start was not observed', () => {
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'inreview', '2025-01-10T12:00:00Z')]);
+
+    const { transitions } = observeAt('2025-01-11T14:00:00Z', [
+      task('t1', 'done', '2025-01-10T12:00:00Z', '2025-01-11T13:00:00Z'),
+    ]);
+
+    expect(transitions[0]).toMatchObject({ timeInStatusMs: null, leadTimeMs: 25 * HOUR, cycleTimeMs: null });
+  });
+
+  it('should restart the cycle when a task moves back to todo', () => {
+    const created = '2025-01-11T08:00:00Z';
+    observeAt('2025-01-11T09:00:00Z', [task('t1', 'todo', created)]);
+    observeAt('2025-01-11T11:00:00Z', [task('t1', 'inprogress', created, '2025-01-11T10:00:00Z')]);
+    observeAt('2025-01-11T13:00:00Z', [task('t1', 'todo', created, '2025-01-11T12:00:00Z')]);
+    observeAt('2025-01-11T15:00:00Z', [task('t1', 'inprogress', created, '2025-01-11T14:00:00Z')]);
+
+    const { transitions } = observeAt('2025-01-11T17:00:00Z', [task('t1', 'done', created, '2025-01-11T16:00:00Z')]);
+
+    expect(transitions[0]).toMatchObject({ cycleTimeMs: 2 * HOUR, leadTimeMs: 8 * HOUR });
+  });
+
+  it('should know the status start of tasks created since the previous observation', () => {
+    observeAt('2025-01-11T12:00:00Z', []);
+    observeAt('2025-01-11T14:00:00Z', [task('t1', 'inprogress', '2025-01-11T13:00:00Z')]);
+
+    const { transitions } = observeAt('2025-01-11T16:00:00Z', [
+      task('t1', 'done', '2025-01-11T13:00:00Z', '2025-01-11T15:00:00Z'),
+    ]);
+
+    expect(transitions[0]).toMatchObject({ timeInStatusMs: 2 * HOUR, cycleTimeMs: 2 * HOUR });
+  });
+
+  it('should report no change when statuses are unchanged', () => {
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'todo', '2025-01-10T12:00:00Z')]);
+
+    expect(observeAt('2025-01-11T12:10:00Z', [task('t1', 'todo', '2025-01-10T12:00:00Z')])).toEqual({
+      transitions: [],
+      finishedAttempts: [],
+      changed: false,
+    });
+  });
+
+  it('should report each attempt once when it finishes', () => {
+    const created = '2025-01-11T09:00:00Z';
+    observeAt('2025-01-11T09:30:00Z', [task('t1', 'inprogress', created)], { t1: [attempt('a1', 'running')] });
+
+    const first = observeAt('2025-01-11T11:00:00Z', [task('t1', 'inprogress', created)], {
+      t1: [attempt('a1', 'failed', '2025-01-11T10:45:00Z')],
+    });
+    const second = observeAt('2025-01-11T12:00:00Z', [task('t1', 'inprogress', created)], {
+      t1: [attempt('a2', 'completed'), attempt('a1', 'failed', '2025-01-11T10:45:00Z')],
+    });
+
+    expect(first.finishedAttempts).toEqual([
+      expect.objectContaining({ attempt: expect.objectContaining({ id: 'a1' }), durationMs: 45 * 60 * 1000 }),
+    ]);
+    // No completed_at: counted without a duration
+    expect(second.finishedAttempts).toEqual([
+      expect.objectContaining({ attempt: expect.objectContaining({ id: 'a2' }), durationMs: null }),
+    ]);
+  });
+
+  it('should not report attempts that finished before a task was first seen', () => {
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'inreview', '2025-01-10T12:00:00Z')]);
+
+    const { finishedAttempts } = observeAt('2025-01-11T12:10:00Z', [task('t1', 'inreview', '2025-01-10T12:00:00Z')], {
+      t1: [attempt('a1', 'completed', '2025-01-11T11:00:00Z')],
+    });
+
+    expect(finishedAttempts).toEqual([]);
+  });
+
+  it('should count attempts until done', () => {
+    const created = '2025-01-10T12:00:00Z';
+    const attempts = { t1: [attempt('a2', 'completed'), attempt('a1', 'failed')] };
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'inreview', created)], attempts);
+
+    const { transitions } = observeAt('2025-01-11T13:00:00Z', [task('t1', 'done', created, '2025-01-11T12:30:00Z')], attempts);
+
+    expect(transitions[0]).toMatchObject({ to: 'done', attemptCount: 2 });
+  });
+
+  it('should forget deleted tasks and removed instances', () => {
+    observeAt('2025-01-11T12:00:00Z', [task('t1', 'todo', '2025-01-10T12:00:00Z'), task('t2', 'todo', '2025-01-10T12:00:00Z')]);
+    tracker.observe(snapshot([task('t3', 'todo', '2025-01-10T12:00:00Z')], 'remote'));
+
+    expect(observeAt('2025-01-11T12:10:00Z', [task('t1', 'todo', '2025-01-10T12:00:00Z')]).changed).toBe(true);
+    expect(tracker.retainInstances(['local'])).toBe(true);
+
+    expect(Object.keys(tracker.getState().tasks)).toEqual(['local/t1']);
+    expect(Object.keys(tracker.getState().observedAt)).toEqual(['local']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for TaskSnapshotStore
+ * Tests snapshot contents, attempt change detection and keeping data across failed refreshes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TaskSnapshotStore } from '../../../src/background/task-snapshot-store';
+import { InstanceRegistry } from '../../../src/background/instance-registry';
+import { ProjectNameCache } from '../../../src/background/project-name-cache';
+import type { Project, Task, TaskAttempt } from '../../../src/background/api-client';
+
+describe('TaskSnapshotStore', () => {
+  const baseUrl = 'http://localhost:3069';
+  let projects: Project[];
+  let tasks: Task[];
+  let reachable: boolean;
+  let attemptStatus: TaskAttempt['status'];
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let projectNameCache: ProjectNameCache;
+  let store: TaskSnapshotStore;
+
+  function task(id: string, status: Task['status'], updatedAt = '2025-01-10T00:00:00Z'): Task {
+    return {
+      id,
+      title: 'Task ' + id,
+      status,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: updatedAt,
+      has_in_progress_attempt: status === 'inprogress',
+      last_attempt_failed: false,
+    };
+  }
+
+  function calls(path: string): string[] {
+    return fetchMock.mock.calls.map(([url]) => url as string).filter((url) => url.includes(path));
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    projects = [{ id: 'p1', name: 'Web', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' }];
+    tasks = [task('t1', 'inprogress'), task('t2', 'todo')];
+    reachable = true;
+    attemptStatus = 'completed';
+    fetchMock = vi.fn(async (url: string) => {
+      if (!reachable) {
+        throw new TypeError('Failed to fetch');
+      }
+      // No task event stream: tasks are polled
+      if (url.includes('/api/tasks/stream')) {
+        return { ok: false, status: 404, headers: new Headers(), body: null };
+      }
+      const data = url.includes('/api/projects')
+        ? projects
+        : url.includes('/api/tasks')
+          ? tasks
+          : [{ id: 'a-' + new URL(url).searchParams.get('task_id'), task_id: '', branch: '', status: attemptStatus, created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' }];
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => JSON.parse(JSON.stringify({ success: true, data, error_data: null, message: null })),
+      };
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    projectNameCache = new ProjectNameCache();
+    const registry = new InstanceRegistry([{ id: 'local', name: 'Local', url: baseUrl, enabled: true }]);
+    store = new TaskSnapshotStore(registry, projectNameCache);
+  });
+
+  afterEach(() => {
+    store.stopStreams();
+    vi.restoreAllMocks();
+  });
+
+  it('should hold projects, tasks and latest attempts of active tasks', async () => {
+    const snapshot = await store.refresh();
+
+    expect(snapshot.refreshedAt).toBe(Date.now());
+    expect(snapshot.instances).toHaveLength(1);
+    const [local] = snapshot.instances;
+    expect(local.projects).toEqual(projects);
+    expect(local.tasks).toEqual({ p1: tasks });
+    expect(local.attempts).toEqual({
+      t1: [expect.objectContaining({ id: 'a-t1' })],
+      t2: [expect.objectContaining({ id: 'a-t2' })],
+    });
+    expect(local.error).toBeNull();
+    expect(projectNameCache.get('p1')).toBe('Web');
+  });
+
+  it('should only refetch attempts of tasks whose updated_at changed', async () => {
+    tasks.push(task('t3', 'inreview'));
+    await store.refresh();
+    expect(calls('/api/task-attempts')).toHaveLength(3);
+
+    tasks[2] = task('t3', 'inreview', '2025-01-11T11:00:00Z');
+    await store.refresh();
+
+    expect(calls('/api/task-attempts')).toHaveLength(4);
+    expect(calls('/api/task-attempts')[3]).toContain('task_id=t3');
+  });
+
+  it('should not fetch attempts of closed tasks on the first refresh', async () => {
+    tasks.push(task('t3', 'done'), task('t4', 'cancelled'));
+
+    const snapshot = await store.refresh();
+
+    expect(calls('/api/task-attempts')).toEqual([
+      expect.stringContaining('task_id=t1'),
+      expect.stringContaining('task_id=t2'),
+    ]);
+    expect(Object.keys(snapshot.instances[0].attempts)).toEqual(['t1', 't2']);
+  });
+
+  it('should fetch the attempts of a task that just closed', async () => {
+    await store.refresh();
+
+    tasks[0] = task('t1', 'done', '2025-01-11T11:00:00Z');
+    await store.refresh();
+    await store.refresh();
+
+    expect(calls('/api/task-attempts')).toHaveLength(3);
+    expect(calls('/api/task-attempts')[2]).toContain('task_id=t1');
+  });
+
+  it('should refetch a running attempt only once its task changes', async () => {
+    attemptStatus = 'running';
+    await store.refresh();
+    attemptStatus = 'failed';
+    await store.refresh();
+    expect(calls('/api/task-attempts')).toHaveLength(2);
+
+    tasks[0] = { ...tasks[0], has_in_progress_attempt: false, last_attempt_failed: true };
+    await store.refresh();
+
+    expect(calls('/api/task-attempts')).toHaveLength(3);
+    expect(store.getSnapshot().instances[0].attempts.t1).toEqual([expect.objectContaining({ status: 'failed' })]);
+  });
+
+  it('should keep the previous data and report the error when a refresh fails', async () => {
+    await store.refresh();
+    const fetchedAt = Date.now();
+    vi.advanceTimersByTime(10000);
+    reachable = false;
+
+    const snapshot = await store.refresh();
+
+    const [local] = snapshot.instances;
+    expect(local.error).toMatchObject({ kind: 'network_error', endpoint: 'projects' });
+    expect(local.fetchedAt).toBe(fetchedAt);
+    expect(local.tasks).toEqual({ p1: tasks });
+    expect(store.getAgeMs()).toBe(0);
+    expect(projectNameCache.get('p1')).toBe('Web');
+  });
+
+  it('should open at most 3 task event streams per instance and poll the other projects', async () => {
+    projects = ['p1', 'p2', 'p3', 'p4', 'p5'].map((id) => ({
+      id,
+      name: 'Project ' + id,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    }));
+
+    const snapshot = await store.refresh();
+
+    const streamedProjects = new Set(calls('/api/tasks/stream').map((url) => new URL(url).searchParams.get('project_id')));
+    expect([...streamedProjects]).toEqual(['p1', 'p2', 'p3']);
+    expect(Object.values(store.getStreamStats()).reduce((total, count) => total + count, 0)).toBe(3);
+    expect(Object.keys(snapshot.instances[0].tasks)).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+
+    // A removed project frees its stream for the next one
+    projects = projects.filter((project) => project.id !== 'p2');
+    await store.refresh();
+
+    expect(calls('/api/tasks/stream').some((url) => url.includes('project_id=p4'))).toBe(true);
+    expect(Object.values(store.getStreamStats()).reduce((total, count) => total + count, 0)).toBe(3);
+  });
+
+  it('should share a running refresh and only fetch on first read', async () => {
+    const [first, second] = await Promise.all([store.refresh(), store.current()]);
+    expect(second).toBe(first);
+    expect(calls('/api/projects')).toHaveLength(1);
+
+    await store.current();
+
+    expect(calls('/api/projects')).toHaveLength(1);
+  });
+});
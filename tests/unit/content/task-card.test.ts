@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the sidebar task card
+ * Tests elapsed time formatting and the stale marker
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTaskCard, formatElapsed } from '../../../src/content/sidebar/task-card';
+import type { ActiveTaskItem } from '../../../src/shared/sidebar-messages';
+
+describe('Task card', () => {
+  const task: ActiveTaskItem = {
+    taskId: 't1',
+    taskTitle: 'Fix login',
+    projectId: 'p1',
+    projectName: 'Web',
+    status: 'inreview',
+    instanceUrl: 'http://localhost:3069',
+  };
+
+  describe('formatElapsed', () => {
+    it('should use the largest fitting units', () => {
+      expect(formatElapsed(45 * 60 * 1000)).toBe('45m');
+      expect(formatElapsed(5 * 60 * 60 * 1000 + 59 * 60 * 1000)).toBe('5h');
+      expect(formatElapsed(76 * 60 * 60 * 1000)).toBe('3d 4h');
+      expect(formatElapsed(48 * 60 * 60 * 1000)).toBe('2d');
+    });
+  });
+
+  describe('createTaskCard', () => {
+    it('should show how long a stale task has been in its status', () => {
+      const card = createTaskCard({ ...task, statusAgeMs: 76 * 60 * 60 * 1000, stale: true });
+
+      expect(card.querySelector('.vibe-task-stale')?.textContent).toBe('Stale · 3d 4h in review');
+    });
+
+    it('should not mark tasks that are not stale', () => {
+      const card = createTaskCard({ ...task, statusAgeMs: 60 * 60 * 1000, stale: false });
+
+      expect(card.querySelector('.vibe-task-stale')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the options page session timeline
+ * Tests combining tab states into bands, labels, clipping to the day and event ticks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDayTimeline, renderTimeline, type TimelineEntry } from '../../../src/options/timeline';
+import { testRoutes } from '../../fixtures/routes';
+
+describe('Session timeline', () => {
+  const MINUTE = 60 * 1000;
+  const dayStart = Date.UTC(2025, 0, 11);
+  const dayEnd = dayStart + 24 * 60 * MINUTE;
+  const at = (minutes: number): number => dayStart + minutes * MINUTE;
+
+  /**
+   * Create a state entry of a tab on the task detail route
+   */
+  function state(minutes: number, tabId: number, value: TimelineEntry['state'], taskTitle = 'Fix login'): TimelineEntry {
+    return { timestamp: at(minutes), tabId, kind: 'state', state: value, route: testRoutes.taskDetail, taskTitle };
+  }
+
+  describe('buildDayTimeline', () => {
+    it('should build bands from state changes up to now', () => {
+      const entries = [state(60, 1, 'active'), state(90, 1, 'idle'), state(100, 1, 'unfocused')];
+
+      const { bands } = buildDayTimeline(entries, dayStart, dayEnd, at(120));
+
+      expect(bands).toEqual([
+        { state: 'active', start: at(60), end: at(90), label: 'Fix login' },
+        { state: 'idle', start: at(90), end: at(100), label: 'Fix login' },
+        { state: 'unfocused', start: at(100), end: at(120), label: 'Fix login' },
+      ]);
+    });
+
+    it('should show the best state of any tab', () => {
+      const entries = [state(0, 1, 'unfocused', 'Background task'), state(10, 2, 'active'), state(20, 2, 'unfocused')];
+
+      const { bands } = buildDayTimeline(entries, dayStart, dayEnd, at(30));
+
+      expect(bands.map((band) => [band.state, band.label])).toEqual([
+        ['unfocused', 'Background task'],
+        ['active', 'Fix login'],
+        ['unfocused', 'Background task'],
+      ]);
+    });
+
+    it('should start with the states of the previous day and clip to the day', () => {
+      const entries = [state(-30, 1, 'active'), state(30, 1, 'unfocused')];
+
+      const { bands } = buildDayTimeline(entries, dayStart, dayEnd, at(60));
+
+      expect(bands[0]).toEqual({ state: 'active', start: dayStart, end: at(30), label: 'Fix login' });
+    });
+
+    it('should relabel a band on route changes and fall back to the route type', () => {
+      const entries: TimelineEntry[] = [
+        state(0, 1, 'active'),
+        { timestamp: at(10), tabId: 1, kind: 'route', route: testRoutes.taskBoard },
+      ];
+
+      const { bands } = buildDayTimeline(entries, dayStart, dayEnd, at(20));
+
+      expect(bands.map((band) => band.label)).toEqual(['Fix login', 'task_board']);
+    });
+
+    it('should drop closed tabs and the tabs of a previous run', () => {
+      const entries: TimelineEntry[] = [
+        state(0, 1, 'active'),
+        { timestamp: at(10), tabId: 1, kind: 'closed', route: null },
+        state(20, 2, 'unfocused'),
+        { timestamp: at(30), tabId: -1, kind: 'startup' },
+      ];
+
+      const { bands } = buildDayTimeline(entries, dayStart, dayEnd, at(60));
+
+      expect(bands.map((band) => [band.state, band.start, band.end])).toEqual([
+        ['active', at(0), at(10)],
+        ['unfocused', at(20), at(30)],
+      ]);
+    });
+
+    it('should add ticks for interventions and sent messages of the day', () => {
+      const entries: TimelineEntry[] = [
+        { timestamp: at(-5), tabId: 1, kind: 'message', route: testRoutes.taskDetail, taskTitle: 'Fix login' },
+        state(0, 1, 'active'),
+        { timestamp: at(5), tabId: 1, kind: 'intervention', route: testRoutes.taskDetail, taskTitle: 'Fix login' },
+        { timestamp: at(8), tabId: 1, kind: 'message', route: testRoutes.taskDetail, taskTitle: 'Fix login' },
+      ];
+
+      const { ticks } = buildDayTimeline(entries, dayStart, dayEnd, at(10));
+
+      expect(ticks).toEqual([
+        { kind: 'intervention', timestamp: at(5), label: 'Fix login' },
+        { kind: 'message', timestamp: at(8), label: 'Fix login' },
+      ]);
+    });
+  });
+
+  describe('renderTimeline', () => {
+    it('should render one row per day with positioned bands', () => {
+      const container = document.createElement('div');
+      const firstDay = new Date(2025, 0, 10);
+      const lastDay = new Date(2025, 0, 11);
+      const noon = new Date(2025, 0, 11, 12).getTime();
+      const entries: TimelineEntry[] = [
+        { timestamp: noon, tabId: 1, kind: 'state', state: 'active', route: testRoutes.taskDetail, taskTitle: 'Fix login' },
+      ];
+
+      renderTimeline(container, entries, firstDay, lastDay, noon + 6 * 60 * MINUTE);
+
+      const rows = container.querySelectorAll('.timeline-day');
+      expect(rows).toHaveLength(2);
+      expect(rows[0].querySelectorAll('.timeline-band')).toHaveLength(0);
+      const band = rows[1].querySelector('.timeline-band-active') as HTMLElement;
+      expect(band.style.left).toBe('50%');
+      expect(band.style.width).toBe('25%');
+      expect(band.textContent).toBe('Fix login');
+    });
+  });
+});